@@ -19,6 +19,7 @@ import EVPlayerProps from './components/Player Props/EVPlayerProps';
 import { useParams } from 'react-router-dom';
 import ValueHighlighter from './components/ValueHighlighting/ValueHighlighter';
 import EVDashboard from './components/Dashboard/EVDashboard';
+import HedgeCalculator from './components/Hedge/HedgeCalculator';
 
 /* ++++++++++ AUTHORIZATION / LOGIN ++++++++++ */
 import { AuthProvider, useAuth } from "./authorization/AuthContext";
@@ -150,6 +151,14 @@ function AppContent() {
                 </PrivateRoute>
               }
             />
+            <Route
+              path="/hedge"
+              element={
+                <PrivateRoute user={user}>
+                  <HedgeCalculator />
+                </PrivateRoute>
+              }
+            />
             <Route
               path="/value-highlights"
               element={
@@ -0,0 +1,253 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { UseQueryResult, useQueries } from '@tanstack/react-query';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ SERVICES ++++++++++ */
+import { useUserAwareApi } from '../../hooks/useUserAwareApi';
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+import { SUPPORTED_PLAYER_PROP_SPORTS, getSportMarkets } from '../../services/api';
+import { ArbitrageScannerService } from '../../services/arbitrageScanner';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { ARB_MARKET_TYPE_LABELS, ArbEvent } from '../../utils/arbitrage';
+import { formatAmericanOdds } from '../../utils/oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface ArbitrageSport {
+  key: string;
+  title: string;
+}
+
+interface ArbitrageScannerProps {
+  sports: ArbitrageSport[]; // Each sport is polled every minute, so callers pass only the selected one
+  selectedBooks: Set<string>;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const GAME_LINE_MARKETS = 'h2h,spreads,totals';
+const ARB_REGIONS = 'us,us2';
+
+// Player props cost one request per event, so only the soonest few are scanned
+const MAX_PROP_EVENTS = 5;
+
+/* ++++++++++ HELPERS ++++++++++ */
+const formatFirstSeen = (firstSeen: string, now: Date): string => {
+  const minutes = Math.floor((now.getTime() - new Date(firstSeen).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m ago`;
+};
+
+// Module-level so react-query only recombines when a query result changes
+const combineGameLines = (results: UseQueryResult<ArbEvent[]>[]) => ({
+  events: results.flatMap(result => result.data ?? []),
+  isLoading: results.some(result => result.isLoading),
+  isError: results.some(result => result.isError)
+});
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const ArbitrageScanner: React.FC<ArbitrageScannerProps> = ({ sports, selectedBooks }) => {
+  /* ++++++++++ HOOKS ++++++++++ */
+  const { fetchOdds, fetchEventOdds } = useUserAwareApi();
+  const { oddsFormat } = useOddsFormat();
+
+  /* ++++++++++ STATE ++++++++++ */
+  const [targetPayout, setTargetPayout] = useState<number>(100);
+  const [minProfitPercentage, setMinProfitPercentage] = useState<number>(0);
+  const [propEvents, setPropEvents] = useState<ArbEvent[]>([]);
+  const [isScanningProps, setIsScanningProps] = useState<boolean>(false);
+  const [propError, setPropError] = useState<string | null>(null);
+
+  /* ++++++++++ QUERIES ++++++++++ */
+  const { events: gameLineEvents, isLoading, isError } = useQueries({
+    queries: sports.map(sport => ({
+      queryKey: ['arbitrage', sport.key, GAME_LINE_MARKETS],
+      queryFn: (): Promise<ArbEvent[]> => fetchOdds(sport.key, ARB_REGIONS, GAME_LINE_MARKETS).then(data =>
+        data.map((event: ArbEvent) => ({ ...event, sport: sport.key }))
+      ),
+      refetchInterval: 60000
+    })),
+    combine: combineGameLines
+  });
+
+  /* ++++++++++ ARBITRAGE ++++++++++ */
+  // Every open arb, before the min profit filter, so first-seen history sees the whole market
+  const openArbs = useMemo(() => {
+    if (!(targetPayout > 0)) return [];
+    const events = [...gameLineEvents, ...propEvents].map(event => ({
+      ...event,
+      bookmakers: event.bookmakers.filter(bookmaker => selectedBooks.has(bookmaker.key))
+    }));
+    return ArbitrageScannerService.scan(events, { targetPayout });
+  }, [gameLineEvents, propEvents, selectedBooks, targetPayout]);
+
+  const opportunities = useMemo(() => {
+    return openArbs.filter(arb => arb.profitPercentage >= minProfitPercentage);
+  }, [openArbs, minProfitPercentage]);
+
+  // An invalid payout or a loading or failed query empties the list without closing any arb, so history is kept
+  useEffect(() => {
+    if (!(targetPayout > 0) || isLoading || isError) return;
+    ArbitrageScannerService.recordFirstSeen(openArbs, {
+      sports: sports.map(sport => sport.key),
+      propEventIds: propEvents.map(event => event.id),
+      books: [...selectedBooks]
+    });
+  }, [openArbs, targetPayout, isLoading, isError, sports, propEvents, selectedBooks]);
+
+  /* ++++++++++ EVENT HANDLERS ++++++++++ */
+  const handleScanProps = async () => {
+    const events = gameLineEvents
+      .filter(event => event.sport && SUPPORTED_PLAYER_PROP_SPORTS.includes(event.sport))
+      .filter(event => !event.commence_time || new Date(event.commence_time).getTime() > Date.now())
+      .sort((a, b) => new Date(a.commence_time ?? 0).getTime() - new Date(b.commence_time ?? 0).getTime())
+      .slice(0, MAX_PROP_EVENTS);
+
+    setIsScanningProps(true);
+    setPropError(null);
+    try {
+      const results = await Promise.all(events.map(event =>
+        fetchEventOdds(event.sport!, event.id, ARB_REGIONS, getSportMarkets(event.sport!))
+          .then((data: ArbEvent) => ({ ...data, sport: event.sport }))
+      ));
+      setPropEvents(results);
+    } catch (err) {
+      setPropError((err as Error).message);
+    } finally {
+      setIsScanningProps(false);
+    }
+  };
+
+  const now = new Date();
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <Box className="p-4 mb-4 bg-gray-50 rounded-lg space-y-4">
+      <Box className="flex flex-wrap justify-between items-center gap-4">
+        <Typography variant="h6" fontWeight="bold">
+          Arbitrage Scanner
+        </Typography>
+        <Box className="flex flex-wrap gap-2 items-center">
+          <TextField
+            label="Target Payout"
+            type="number"
+            value={targetPayout}
+            onChange={(e) => setTargetPayout(parseFloat(e.target.value) || 0)}
+            size="small"
+            error={!(targetPayout > 0)}
+            helperText={targetPayout > 0 ? undefined : 'Must be greater than 0'}
+            inputProps={{ min: 1 }}
+            sx={{ width: '140px' }}
+          />
+          <TextField
+            label="Min Profit %"
+            type="number"
+            value={minProfitPercentage}
+            onChange={(e) => setMinProfitPercentage(parseFloat(e.target.value) || 0)}
+            size="small"
+            inputProps={{ min: 0, step: 0.1 }}
+            sx={{ width: '120px' }}
+          />
+          <Button variant="outlined" onClick={handleScanProps} disabled={isScanningProps || gameLineEvents.length === 0}>
+            {isScanningProps ? 'Scanning Props...' : 'Scan Player Props'}
+          </Button>
+        </Box>
+      </Box>
+
+      {propError && (
+        <Typography variant="body2" color="error">
+          {propError}
+        </Typography>
+      )}
+
+      {sports.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Select a sport to scan for arbitrage.
+        </Typography>
+      )}
+
+      {isLoading && <Typography variant="body2">Loading lines...</Typography>}
+
+      {sports.length > 0 && !isLoading && opportunities.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No arbitrage across the selected books right now.
+        </Typography>
+      )}
+
+      {opportunities.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Game</TableCell>
+              <TableCell>Market</TableCell>
+              <TableCell>Legs</TableCell>
+              <TableCell align="right">Profit</TableCell>
+              <TableCell>First Seen</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {opportunities.map((arb) => (
+              <TableRow key={arb.id}>
+                <TableCell>{arb.eventName}</TableCell>
+                <TableCell>
+                  <Typography variant="body2" fontWeight="bold">
+                    {ARB_MARKET_TYPE_LABELS[arb.marketType]}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {arb.selection}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  {arb.legs.map((leg) => (
+                    <Typography key={`${leg.bookmakerKey}-${leg.outcomeName}`} variant="body2">
+                      ${leg.stake.toFixed(2)} on {leg.outcomeName}
+                      {leg.point !== undefined && ` ${leg.point}`} {formatAmericanOdds(leg.price, oddsFormat)} at {leg.bookmakerTitle}
+                    </Typography>
+                  ))}
+                  {arb.staleBooks.length > 0 && (
+                    <Chip
+                      label={`Stale: ${arb.staleBooks.join(', ')}`}
+                      size="small"
+                      color="warning"
+                      sx={{ marginTop: '4px' }}
+                    />
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  <Typography variant="body2" fontWeight="bold" color="success.main">
+                    {arb.profitPercentage.toFixed(2)}%
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    ${arb.profit.toFixed(2)} on ${arb.totalStake.toFixed(2)}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">{formatFirstSeen(arb.firstSeen, now)}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {new Date(arb.firstSeen).toLocaleTimeString()}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default ArbitrageScanner;
@@ -0,0 +1,137 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useMemo, useState } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ SERVICES ++++++++++ */
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { ArbEvent } from '../../utils/arbitrage';
+import { findEventMiddles } from '../../utils/middles';
+import { formatAmericanOdds } from '../../utils/oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface MiddlesFinderProps {
+  event: ArbEvent;
+}
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const MiddlesFinder: React.FC<MiddlesFinderProps> = ({ event }) => {
+  /* ++++++++++ HOOKS ++++++++++ */
+  const { oddsFormat } = useOddsFormat();
+
+  /* ++++++++++ STATE ++++++++++ */
+  const [targetPayout, setTargetPayout] = useState<number>(100);
+  const [minGap, setMinGap] = useState<number>(0);
+
+  const middles = useMemo(
+    () => findEventMiddles(event, { targetPayout, minGap }),
+    [event, targetPayout, minGap]
+  );
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <div className="mb-8">
+      <Box className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-2xl font-bold">Middles</h2>
+        <Box className="flex gap-2">
+          <TextField
+            label="Target Payout"
+            type="number"
+            value={targetPayout}
+            onChange={(e) => setTargetPayout(parseFloat(e.target.value) || 100)}
+            size="small"
+            inputProps={{ min: 1 }}
+            sx={{ width: '140px' }}
+          />
+          <TextField
+            label="Min Gap (pts)"
+            type="number"
+            value={minGap}
+            onChange={(e) => setMinGap(parseFloat(e.target.value) || 0)}
+            size="small"
+            inputProps={{ min: 0, step: 0.5 }}
+            sx={{ width: '120px' }}
+          />
+        </Box>
+      </Box>
+
+      {middles.length === 0 ? (
+        <p className="text-gray-500">
+          No books disagree on a spread or total for this match.
+        </p>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Middle</TableCell>
+              <TableCell>Stakes</TableCell>
+              <TableCell align="right">Gap</TableCell>
+              <TableCell align="right">Middle Hit</TableCell>
+              <TableCell align="right">If Middle / Miss</TableCell>
+              <TableCell align="right">EV</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {middles.map((middle) => (
+              <TableRow key={middle.id}>
+                <TableCell>
+                  <Typography variant="body2" fontWeight="bold">
+                    {middle.selection}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {middle.marketType === 'spreads' ? 'Spread' : 'Total'} · market line {middle.expectedScore.toFixed(1)}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  {middle.legs.map((leg) => (
+                    <Typography key={`${leg.bookmakerKey}-${leg.outcomeName}-${leg.point}`} variant="body2">
+                      ${leg.stake.toFixed(2)} on {leg.outcomeName} {leg.point} {formatAmericanOdds(leg.price, oddsFormat)} at {leg.bookmakerTitle}
+                    </Typography>
+                  ))}
+                </TableCell>
+                <TableCell align="right">{middle.gap}</TableCell>
+                <TableCell align="right">
+                  {(middle.middleProbability * 100).toFixed(1)}%
+                  {middle.pushProbability > 0 && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Push {(middle.pushProbability * 100).toFixed(1)}%
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  ${middle.middleProfit.toFixed(2)} / ${middle.missProfit.toFixed(2)}
+                </TableCell>
+                <TableCell align="right">
+                  <Typography
+                    variant="body2"
+                    fontWeight="bold"
+                    color={middle.evPercentage > 0 ? 'success.main' : 'error.main'}
+                  >
+                    {middle.evPercentage.toFixed(2)}%
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    ${middle.expectedProfit.toFixed(2)}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default MiddlesFinder;
@@ -53,9 +53,11 @@ import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 
 /* ++++++++++ IMPORTS ++++++++++ */
-import { SUPPORTED_PLAYER_PROP_SPORTS, calculateImpliedProbability, calculateEV, isPositiveEV } from '../../services/api';
+import { SUPPORTED_PLAYER_PROP_SPORTS, calculateSportsbookExpectedReturn, isPositiveEV } from '../../services/api';
 import { useUserAwareApi } from '../../hooks/useUserAwareApi';
-import { PropEVData, calculatePropEVFromData, getConfidenceLevel, formatEVPercentage, formatHitRate } from '../../utils/evCalculations';
+import { PropEVData, calculatePropEVFromData, getConfidenceLevel, formatEVPercentage, formatEdge, formatHitRate } from '../../utils/evCalculations';
+import { HitRateSource, HIT_RATE_SOURCE_LABELS } from '../../utils/recencyWeighting';
+import { getLegSide } from '../../utils/correlation';
 import { dataAutomationClient } from '../../services/dataAutomationClient';
 import ValueHighlighter from '../ValueHighlighting/ValueHighlighter';
 
@@ -124,6 +126,7 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
     platforms: DFS_PLATFORMS,
     showOnlyBookmarked: false
   });
+  const [hitRateSource, setHitRateSource] = useState<HitRateSource>('flat');
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [notifications, setNotifications] = useState(true);
   const [bookmarkedProps, setBookmarkedProps] = useState<Set<string>>(new Set());
@@ -159,26 +162,39 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
       sportData.bookmakers.forEach((bookmaker: any) => {
         bookmaker.markets?.forEach((market: any) => {
           market.outcomes?.forEach((outcome: any) => {
-            const hitRate = dataAutomationClient.getHitRate(
+            // P(over | no push); the Under takes the rest, 1 - P(over) - P(push) of all results
+            const overHitRate = dataAutomationClient.getHitRate(
+              outcome.description,
+              market.key,
+              outcome.point || 0,
+              hitRateSource
+            );
+            const hitRate = getLegSide(outcome.name) === 'under' ? 1 - overHitRate : overHitRate;
+            const pushProbability = dataAutomationClient.getPushProbability(
               outcome.description,
               market.key,
               outcome.point || 0
             );
             
-            // Calculate implied probability and EV
-            const impliedProb = calculateImpliedProbability(outcome.price);
-            const evPercentage = calculateEV(hitRate, impliedProb) * 100;
+            // Expected return per $1 at the offered price; a push returns the stake
+            const expectedReturn = calculateSportsbookExpectedReturn(hitRate, outcome.price, pushProbability);
+            const impliedProb = expectedReturn.breakEvenProbability;
+            const evPercentage = expectedReturn.roiPercentage;
             const isPositive = isPositiveEV(hitRate, impliedProb);
             
             const prop: PropEVData = {
-              id: `${outcome.description}-${market.key}-${bookmaker.key}`,
+              id: `${outcome.description}-${market.key}-${bookmaker.key}-${outcome.point || 0}-${outcome.name}`,
               playerName: outcome.description,
               propType: market.key,
               line: outcome.point || 0,
               odds: outcome.price,
               platform: bookmaker.key,
+              selection: outcome.name,
               hitRate,
+              pushProbability,
               impliedProbability: impliedProb,
+              edge: expectedReturn.edge,
+              expectedProfit: expectedReturn.expectedProfit,
               evPercentage,
               isPositiveEV: isPositive,
               gameCount: 15, // Default game count
@@ -193,7 +209,7 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
     });
     
     return props;
-  }, [allPropsData]);
+  }, [allPropsData, hitRateSource]);
 
   /* ++++++++++ FILTERED PROPS ++++++++++ */
   const filteredProps = useMemo(() => {
@@ -355,6 +371,11 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
                             variant="outlined"
                             size="small"
                           />
+                          <Chip 
+                            label={formatEdge(ev.edge)}
+                            variant="outlined"
+                            size="small"
+                          />
                           <Chip 
                             label={confidence.toUpperCase()}
                             size="small"
@@ -475,6 +496,23 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
             </FormControl>
           </Grid>
           
+          <Grid item xs={12} sm={6} md={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Hit Rate</InputLabel>
+              <Select
+                value={hitRateSource}
+                label="Hit Rate"
+                onChange={(e) => setHitRateSource(e.target.value as HitRateSource)}
+              >
+                {(Object.keys(HIT_RATE_SOURCE_LABELS) as HitRateSource[]).map(source => (
+                  <MenuItem key={source} value={source}>
+                    {HIT_RATE_SOURCE_LABELS[source]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          
           <Grid item xs={12} sm={6} md={2}>
             <FormControlLabel
               control={
@@ -487,7 +525,7 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
             />
           </Grid>
           
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={2}>
             <Button 
               component={Link} 
               to="/value-highlights" 
@@ -499,7 +537,7 @@ export const EVDashboard: React.FC<EVDashboardProps> = ({
             </Button>
           </Grid>
           
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={2}>
             <Button 
               component={Link} 
               to="/ev-props" 
@@ -11,7 +11,7 @@ import useAuth from '../../authorization/useAuth';
 import { motion, AnimatePresence } from 'framer-motion';
 
 /* ++++++++++ ICONS ++++++++++ */
-import { Settings, TrendingUp, Star, BarChart3, Shield } from 'lucide-react';
+import { Settings, TrendingUp, Star, BarChart3, Shield, Scale } from 'lucide-react';
 // import { Settings, TrendingUp, Target, Star, BarChart3 } from 'lucide-react';
 
 /* ++++++++++ STYLES ++++++++++ */
@@ -103,6 +103,13 @@ const Header: React.FC = () => {
                       <Star size={20} />
                       Value
                     </Link>
+                    <Link 
+                      to="/hedge"
+                      className="hover:text-neon transition-all duration-300 flex items-center gap-1 text-lg font-medium"
+                    >
+                      <Scale size={20} />
+                      Hedge
+                    </Link>
                     {/* Admin Dashboard Link - Only visible to admin users */}
                     {(user.role === 'ADMIN' || user.role === 'admin') && (
                       <Link 
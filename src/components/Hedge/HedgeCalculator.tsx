@@ -0,0 +1,393 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useMemo, useState } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { ALT_LINE_PAYOUT_MODIFIERS, AltLineType, DFSEntryType } from '../../services/api';
+import { calculateFairProbability } from '../../utils/devig';
+import { DFS_ENTRY_TYPE_LABELS, FANTASY_PLATFORMS, formatHitRate } from '../../utils/evCalculations';
+import {
+  EntryLegStatus,
+  HedgePosition,
+  HedgeResult,
+  calculateFairCashOut,
+  calculateFullHedge,
+  calculatePartialHedge,
+  compareCashOutOffer,
+  evaluateHedge,
+  getBetPosition,
+  valueDFSEntry
+} from '../../utils/hedge';
+
+/* ++++++++++ TYPES ++++++++++ */
+type HedgeMode = 'single' | 'entry';
+
+interface EntryLegInput {
+  id: number;
+  status: EntryLegStatus;
+  probability: number; // Percent, used while the leg is open
+  altLineType: AltLineType;
+}
+
+interface PositionState {
+  position?: HedgePosition;
+  winProbability?: number;
+  fairValue?: number;
+  error?: string;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const LEG_STATUS_LABELS: Record<EntryLegStatus, string> = {
+  open: 'Open',
+  hit: 'Hit',
+  miss: 'Miss',
+  push: 'Push'
+};
+
+// Boosts carry a platform-quoted multiplier, so only the fixed-modifier lines are offered
+const LEG_LINE_LABELS: Partial<Record<AltLineType, string>> = {
+  standard: 'Standard',
+  demon: 'Demon',
+  goblin: 'Goblin'
+};
+
+const DEFAULT_ENTRY_LEGS: EntryLegInput[] = [
+  { id: 1, status: 'hit', probability: 55, altLineType: 'standard' },
+  { id: 2, status: 'open', probability: 55, altLineType: 'standard' }
+];
+
+/* ++++++++++ HELPERS ++++++++++ */
+// American odds never sit strictly between -100 and +100
+const isAmericanOdds = (odds: number): boolean => Math.abs(odds) >= 100;
+
+const formatMoney = (value: number): string => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatProfit = (value: number): string => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const HedgeCalculator: React.FC = () => {
+  /* ++++++++++ STATE ++++++++++ */
+  const [mode, setMode] = useState<HedgeMode>('single');
+  const [stake, setStake] = useState<number>(100);
+  const [betOdds, setBetOdds] = useState<number>(150);
+  const [currentOdds, setCurrentOdds] = useState<number>(-130);
+  const [hedgeOdds, setHedgeOdds] = useState<number>(110);
+  const [maxLoss, setMaxLoss] = useState<number>(0);
+  const [cashOutOffer, setCashOutOffer] = useState<number>(0);
+
+  const [platform, setPlatform] = useState<string>(FANTASY_PLATFORMS[0].key);
+  const [entryType, setEntryType] = useState<DFSEntryType>('power');
+  const [entryLegs, setEntryLegs] = useState<EntryLegInput[]>(DEFAULT_ENTRY_LEGS);
+
+  const entryTypes = FANTASY_PLATFORMS.find(p => p.key === platform)?.entryTypes ?? ['power'];
+  const supportsAlternates = FANTASY_PLATFORMS.find(p => p.key === platform)?.supportsAlternates ?? false;
+
+  /* ++++++++++ EVENT HANDLERS ++++++++++ */
+  const handlePlatformChange = (value: string) => {
+    setPlatform(value);
+    const available = FANTASY_PLATFORMS.find(p => p.key === value)?.entryTypes ?? ['power'];
+    if (!available.includes(entryType)) {
+      setEntryType('power');
+    }
+  };
+
+  const updateLeg = (id: number, update: Partial<EntryLegInput>) => {
+    setEntryLegs(prev => prev.map(leg => (leg.id === id ? { ...leg, ...update } : leg)));
+  };
+
+  const addLeg = () => {
+    setEntryLegs(prev => [...prev, { id: Math.max(0, ...prev.map(leg => leg.id)) + 1, status: 'open', probability: 55, altLineType: 'standard' }]);
+  };
+
+  const removeLeg = (id: number) => {
+    setEntryLegs(prev => prev.filter(leg => leg.id !== id));
+  };
+
+  /* ++++++++++ POSITION ++++++++++ */
+  const { position, winProbability, fairValue, error } = useMemo((): PositionState => {
+    if (mode === 'single') {
+      if (!isAmericanOdds(betOdds)) return { error: 'Enter the American odds the bet was placed at' };
+      const single = getBetPosition(stake, betOdds);
+      // The current two-way market, devigged, is the fair chance the bet still wins
+      const probability = isAmericanOdds(currentOdds) && isAmericanOdds(hedgeOdds)
+        ? calculateFairProbability(currentOdds, hedgeOdds)
+        : undefined;
+      return {
+        position: single,
+        winProbability: probability,
+        fairValue: probability !== undefined ? calculateFairCashOut(single, probability) : undefined
+      };
+    }
+
+    try {
+      const valuation = valueDFSEntry(
+        platform,
+        entryLegs.map(leg => ({
+          status: leg.status,
+          probability: leg.probability / 100,
+          payoutModifier: supportsAlternates ? ALT_LINE_PAYOUT_MODIFIERS[leg.altLineType] : 1
+        })),
+        stake,
+        entryType
+      );
+      const lastLeg = entryLegs.find(leg => leg.status === 'open');
+      return {
+        position: valuation.position ?? undefined,
+        winProbability: valuation.position && lastLeg ? lastLeg.probability / 100 : undefined,
+        fairValue: valuation.fairValue,
+        error: valuation.position ? undefined : 'Hedging needs exactly one open leg; the fair value covers every open leg'
+      };
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }, [mode, stake, betOdds, currentOdds, hedgeOdds, platform, supportsAlternates, entryType, entryLegs]);
+
+  const hedges = useMemo((): { label: string; result: HedgeResult }[] => {
+    if (!position || !isAmericanOdds(hedgeOdds)) return [];
+    return [
+      { label: 'No Hedge', result: evaluateHedge(position, hedgeOdds, 0, winProbability) },
+      { label: `Partial Hedge (max loss ${formatMoney(maxLoss)})`, result: calculatePartialHedge(position, hedgeOdds, maxLoss, winProbability) },
+      { label: 'Full Hedge', result: calculateFullHedge(position, hedgeOdds, winProbability) }
+    ];
+  }, [position, hedgeOdds, maxLoss, winProbability]);
+
+  const cashOut = fairValue !== undefined && cashOutOffer > 0 ? compareCashOutOffer(fairValue, cashOutOffer) : null;
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Box className="p-4 bg-gray-50 rounded-lg space-y-4">
+        <Box className="flex flex-wrap justify-between items-center gap-4">
+          <Typography variant="h5" fontWeight="bold">
+            Hedge & Cash-Out Calculator
+          </Typography>
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            size="small"
+            onChange={(_, value: HedgeMode | null) => value && setMode(value)}
+          >
+            <ToggleButton value="single">Single Bet</ToggleButton>
+            <ToggleButton value="entry">DFS Entry</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {/* Open position */}
+        <Box className="flex flex-wrap gap-2 items-center">
+          <TextField
+            label="Stake ($)"
+            type="number"
+            value={stake}
+            onChange={(e) => setStake(Math.max(0, parseFloat(e.target.value) || 0))}
+            size="small"
+            sx={{ width: 120 }}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          {mode === 'single' ? (
+            <>
+              <TextField
+                label="Bet Odds"
+                type="number"
+                value={betOdds}
+                onChange={(e) => setBetOdds(parseFloat(e.target.value) || 0)}
+                size="small"
+                sx={{ width: 120 }}
+              />
+              <TextField
+                label="Current Odds"
+                type="number"
+                value={currentOdds}
+                onChange={(e) => setCurrentOdds(parseFloat(e.target.value) || 0)}
+                size="small"
+                sx={{ width: 130 }}
+                helperText="Same side, now"
+              />
+            </>
+          ) : (
+            <>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Entry Platform</InputLabel>
+                <Select value={platform} label="Entry Platform" onChange={(e) => handlePlatformChange(e.target.value)}>
+                  {FANTASY_PLATFORMS.map((option) => (
+                    <MenuItem key={option.key} value={option.key}>
+                      {option.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 120 }}>
+                <InputLabel>Entry Type</InputLabel>
+                <Select value={entryType} label="Entry Type" onChange={(e) => setEntryType(e.target.value as DFSEntryType)}>
+                  {entryTypes.map((type) => (
+                    <MenuItem key={type} value={type}>
+                      {DFS_ENTRY_TYPE_LABELS[type]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </>
+          )}
+          <TextField
+            label="Hedge Odds"
+            type="number"
+            value={hedgeOdds}
+            onChange={(e) => setHedgeOdds(parseFloat(e.target.value) || 0)}
+            size="small"
+            sx={{ width: 130 }}
+            helperText="Other side, best price"
+          />
+          <TextField
+            label="Max Loss ($)"
+            type="number"
+            value={maxLoss}
+            onChange={(e) => setMaxLoss(Math.max(0, parseFloat(e.target.value) || 0))}
+            size="small"
+            sx={{ width: 120 }}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          <TextField
+            label="Cash-Out Offer ($)"
+            type="number"
+            value={cashOutOffer}
+            onChange={(e) => setCashOutOffer(Math.max(0, parseFloat(e.target.value) || 0))}
+            size="small"
+            sx={{ width: 150 }}
+            inputProps={{ min: 0, step: 1 }}
+          />
+        </Box>
+
+        {/* Entry legs - settled legs keep their result, open legs need a fair hit chance */}
+        {mode === 'entry' && (
+          <Box className="space-y-2">
+            {entryLegs.map((leg, index) => (
+              <Box key={leg.id} className="flex flex-wrap gap-2 items-center">
+                <Typography variant="body2" sx={{ width: 60 }}>
+                  Leg {index + 1}
+                </Typography>
+                <Select
+                  value={leg.status}
+                  size="small"
+                  onChange={(e) => updateLeg(leg.id, { status: e.target.value as EntryLegStatus })}
+                  sx={{ width: 110 }}
+                >
+                  {Object.entries(LEG_STATUS_LABELS).map(([status, label]) => (
+                    <MenuItem key={status} value={status}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                {supportsAlternates && (
+                  <Select
+                    value={leg.altLineType}
+                    size="small"
+                    onChange={(e) => updateLeg(leg.id, { altLineType: e.target.value as AltLineType })}
+                    sx={{ width: 120 }}
+                  >
+                    {Object.entries(LEG_LINE_LABELS).map(([type, label]) => (
+                      <MenuItem key={type} value={type}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                )}
+                {leg.status === 'open' && (
+                  <TextField
+                    label="Hit Chance (%)"
+                    type="number"
+                    value={leg.probability}
+                    onChange={(e) => updateLeg(leg.id, { probability: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                    size="small"
+                    sx={{ width: 130 }}
+                    inputProps={{ min: 0, max: 100, step: 1 }}
+                  />
+                )}
+                <Button size="small" onClick={() => removeLeg(leg.id)} disabled={entryLegs.length <= 2}>
+                  Remove
+                </Button>
+              </Box>
+            ))}
+            <Button variant="outlined" size="small" onClick={addLeg}>
+              Add Leg
+            </Button>
+          </Box>
+        )}
+
+        {error && (
+          <Typography variant="body2" color="text.secondary">
+            {error}
+          </Typography>
+        )}
+
+        {/* Fair value and cash-out */}
+        {fairValue !== undefined && (
+          <Box className="flex flex-wrap gap-6">
+            {winProbability !== undefined && (
+              <Typography variant="body2">
+                Fair win chance: <strong>{formatHitRate(winProbability)}</strong>
+              </Typography>
+            )}
+            <Typography variant="body2">
+              Fair cash-out: <strong>{formatMoney(fairValue)}</strong>
+            </Typography>
+            {cashOut && (
+              <Typography variant="body2" color={cashOut.difference >= 0 ? 'success.main' : 'error.main'}>
+                Offer {formatMoney(cashOut.offer)} is {formatMoney(Math.abs(cashOut.difference))}{' '}
+                {cashOut.difference >= 0 ? 'above' : 'below'} fair ({(cashOut.offerHold * 100).toFixed(1)}% hold)
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {/* Hedge options */}
+        {hedges.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Option</TableCell>
+                <TableCell align="right">Hedge Stake</TableCell>
+                <TableCell align="right">If Bet Wins</TableCell>
+                <TableCell align="right">If Bet Loses</TableCell>
+                <TableCell align="right">Guaranteed</TableCell>
+                <TableCell align="right">Expected</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {hedges.map(({ label, result }) => (
+                <TableRow key={label}>
+                  <TableCell>{label}</TableCell>
+                  <TableCell align="right">{formatMoney(result.hedgeStake)}</TableCell>
+                  <TableCell align="right">{formatProfit(result.profitIfWin)}</TableCell>
+                  <TableCell align="right">{formatProfit(result.profitIfLose)}</TableCell>
+                  <TableCell align="right">{formatProfit(result.guaranteedProfit)}</TableCell>
+                  <TableCell align="right">
+                    {result.expectedProfit !== null ? formatProfit(result.expectedProfit) : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+    </div>
+  );
+};
+
+export default HedgeCalculator;
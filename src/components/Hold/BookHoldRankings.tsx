@@ -0,0 +1,155 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useMemo, useState } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Box,
+  Chip,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ SERVICES ++++++++++ */
+import { HOLD_ROLLING_WINDOW_DAYS, HoldAnalyticsService } from '../../services/holdAnalytics';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface HoldSport {
+  key: string;
+  title: string;
+}
+
+interface BookHoldRankingsProps {
+  sports: HoldSport[];
+  lastUpdated: number; // Latest odds fetch; rankings cover the window ending here
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const MARKET_LABELS: Record<string, string> = {
+  h2h: 'Moneyline',
+  h2h_3_way: 'Regulation (3-Way)',
+  spreads: 'Spread',
+  totals: 'Totals'
+};
+
+/* ++++++++++ HELPERS ++++++++++ */
+const getMarketLabel = (marketKey: string): string => {
+  return MARKET_LABELS[marketKey] ?? marketKey
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const formatHold = (hold: number): string => `${(hold * 100).toFixed(2)}%`;
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const BookHoldRankings: React.FC<BookHoldRankingsProps> = ({ sports, lastUpdated }) => {
+  /* ++++++++++ STATE ++++++++++ */
+  const [selectedSport, setSelectedSport] = useState<string>('');
+  const [selectedMarket, setSelectedMarket] = useState<string>('');
+
+  const trackedMarkets = useMemo(
+    () => HoldAnalyticsService.getTrackedMarkets(new Date(lastUpdated))
+      .filter(({ sport }) => sports.some(s => s.key === sport)),
+    [sports, lastUpdated]
+  );
+
+  const sportOptions = sports.filter(sport => trackedMarkets.some(market => market.sport === sport.key));
+  const sport = sportOptions.some(option => option.key === selectedSport) ? selectedSport : sportOptions[0]?.key ?? '';
+  const marketOptions = trackedMarkets.filter(market => market.sport === sport).map(market => market.marketKey);
+  const marketKey = marketOptions.includes(selectedMarket) ? selectedMarket : marketOptions[0] ?? '';
+
+  const rankings = useMemo(
+    () => (sport && marketKey ? HoldAnalyticsService.getRankings(sport, marketKey, new Date(lastUpdated)) : []),
+    [sport, marketKey, lastUpdated]
+  );
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <Box className="p-4 mb-4 bg-gray-50 rounded-lg space-y-4">
+      <Box className="flex flex-wrap justify-between items-center gap-4">
+        <Typography variant="h6" fontWeight="bold">
+          Book Hold Rankings
+        </Typography>
+        <Box className="flex flex-wrap gap-2 items-center">
+          <TextField
+            select
+            label="Sport"
+            size="small"
+            value={sport}
+            onChange={(e) => setSelectedSport(e.target.value)}
+            disabled={sportOptions.length === 0}
+            sx={{ width: '180px' }}
+          >
+            {sportOptions.map((option) => (
+              <MenuItem key={option.key} value={option.key}>
+                {option.title}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Market"
+            size="small"
+            value={marketKey}
+            onChange={(e) => setSelectedMarket(e.target.value)}
+            disabled={marketOptions.length === 0}
+            sx={{ width: '200px' }}
+          >
+            {marketOptions.map((option) => (
+              <MenuItem key={option} value={option}>
+                {getMarketLabel(option)}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+      </Box>
+
+      {rankings.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No hold history yet. Holds are recorded every time odds are fetched.
+        </Typography>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary">
+            Average hold over the last {HOLD_ROLLING_WINDOW_DAYS} days. Shop the top books first.
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Rank</TableCell>
+                <TableCell>Book</TableCell>
+                <TableCell align="right">Average Hold</TableCell>
+                <TableCell align="right">Latest Hold</TableCell>
+                <TableCell align="right">Markets</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rankings.map((ranking) => (
+                <TableRow key={ranking.bookmakerKey}>
+                  <TableCell>{ranking.rank}</TableCell>
+                  <TableCell>
+                    {ranking.bookmakerTitle}
+                    {ranking.rank === 1 && (
+                      <Chip label="Best Book" size="small" color="success" sx={{ marginLeft: '8px' }} />
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{formatHold(ranking.averageHold)}</TableCell>
+                  <TableCell align="right">{formatHold(ranking.latestHold)}</TableCell>
+                  <TableCell align="right">{ranking.marketCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BookHoldRankings;
@@ -0,0 +1,245 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Box,
+  Chip,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ SERVICES ++++++++++ */
+import { useMyBooks } from '../../hooks/useMyBooks';
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+import { ConsensusBookmaker, ConsensusConfig, ConsensusLineService } from '../../services/consensusLine';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { BestPriceLine, findBestPrices } from '../../utils/lineShopping';
+import { formatAmericanOdds } from '../../utils/oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface ShoppingMatch {
+  id: string;
+  home_team: string;
+  away_team: string;
+  sport?: string;
+  sportTitle?: string;
+  bookmakers: ConsensusBookmaker[];
+}
+
+interface ShoppingBook {
+  key: string;
+  title: string;
+}
+
+interface LineShoppingViewProps {
+  matches: ShoppingMatch[];
+  selectedMarket: string;
+  bookmakers: ShoppingBook[];
+  selectedBooks: Set<string>; // Books that make up the market and its consensus
+  consensusConfig: Partial<ConsensusConfig>;
+}
+
+interface ShoppingRow {
+  id: string;
+  match: ShoppingMatch;
+  line: BestPriceLine;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const SHOPPING_MARKETS = ['h2h', 'spreads', 'totals'];
+
+/* ++++++++++ HELPERS ++++++++++ */
+const formatPoint = (marketKey: string, point?: number): string => {
+  if (point === undefined) return '';
+  return ` ${marketKey === 'spreads' && point > 0 ? '+' : ''}${point}`;
+};
+
+const formatCents = (cents: number | null): string => {
+  if (cents === null) return '-';
+  return `${cents > 0 ? '+' : ''}${Math.round(cents)}¢`;
+};
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const LineShoppingView: React.FC<LineShoppingViewProps> = ({
+  matches,
+  selectedMarket,
+  bookmakers,
+  selectedBooks,
+  consensusConfig
+}) => {
+  /* ++++++++++ HOOKS ++++++++++ */
+  const { oddsFormat } = useOddsFormat();
+  const { myBooks, toggleMyBook } = useMyBooks();
+
+  /* ++++++++++ STATE ++++++++++ */
+  const [myBooksOnly, setMyBooksOnly] = useState<boolean>(true);
+  const [beatingMarketOnly, setBeatingMarketOnly] = useState<boolean>(false);
+
+  const shoppingBooks = useMemo(
+    () => (myBooksOnly && myBooks.length > 0 ? new Set(myBooks) : selectedBooks),
+    [myBooksOnly, myBooks, selectedBooks]
+  );
+
+  const rows = useMemo<ShoppingRow[]>(() => {
+    if (!SHOPPING_MARKETS.includes(selectedMarket)) return [];
+
+    return matches.flatMap(match => {
+      const marketBookmakers = match.bookmakers.filter(bookmaker => selectedBooks.has(bookmaker.key));
+      const shoppingBookmakers = match.bookmakers.filter(bookmaker => shoppingBooks.has(bookmaker.key));
+
+      // Fair prices come from the whole market, not just the books the user can bet at
+      const pointConsensus = ConsensusLineService.calculatePointConsensus(
+        marketBookmakers,
+        selectedMarket,
+        match.home_team,
+        match.away_team,
+        match.sport,
+        consensusConfig
+      );
+      const sides = pointConsensus?.outcomeNames ?? ConsensusLineService.getMarketOutcomeNames(
+        marketBookmakers,
+        selectedMarket,
+        match.home_team,
+        match.away_team
+      );
+      const consensus = pointConsensus ? null : ConsensusLineService.calculateConsensus(
+        marketBookmakers,
+        selectedMarket,
+        sides,
+        consensusConfig
+      );
+
+      const lines = findBestPrices(
+        shoppingBookmakers,
+        selectedMarket,
+        sides,
+        outcome => pointConsensus
+          ? ConsensusLineService.getPointFairProbability(pointConsensus, outcome)
+          : consensus?.fairProbabilities[sides.indexOf(outcome.name)] ?? null,
+        marketBookmakers
+      );
+
+      return lines
+        .filter(line => !beatingMarketOnly || line.beatMarketCents > 0)
+        .map(line => ({ id: `${match.id}-${line.outcomeName}-${line.point ?? ''}`, match, line }));
+    });
+  }, [matches, selectedMarket, selectedBooks, shoppingBooks, consensusConfig, beatingMarketOnly]);
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <Box className="p-4 mb-4 bg-gray-50 rounded-lg space-y-4">
+      <Box className="flex flex-wrap justify-between items-center gap-4">
+        <Typography variant="h6" fontWeight="bold">
+          Line Shopping
+        </Typography>
+        <Box className="flex flex-wrap gap-2 items-center">
+          <FormControlLabel
+            control={<Switch checked={myBooksOnly} onChange={() => setMyBooksOnly(!myBooksOnly)} color="primary" />}
+            label="My Books Only"
+            disabled={myBooks.length === 0}
+          />
+          <FormControlLabel
+            control={<Switch checked={beatingMarketOnly} onChange={() => setBeatingMarketOnly(!beatingMarketOnly)} color="primary" />}
+            label="Beating Market Only"
+          />
+        </Box>
+      </Box>
+
+      <Box>
+        <Typography variant="body2" color="text.secondary" className="mb-2">
+          Books I have accounts with:
+        </Typography>
+        <Box className="flex flex-wrap gap-2">
+          {bookmakers.map((bookmaker) => (
+            <Chip
+              key={bookmaker.key}
+              label={bookmaker.title}
+              size="small"
+              color={myBooks.includes(bookmaker.key) ? 'primary' : 'default'}
+              variant={myBooks.includes(bookmaker.key) ? 'filled' : 'outlined'}
+              onClick={() => toggleMyBook(bookmaker.key)}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      {!SHOPPING_MARKETS.includes(selectedMarket) ? (
+        <Typography variant="body2" color="text.secondary">
+          Line shopping covers moneylines, spreads and totals.
+        </Typography>
+      ) : rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No prices to shop. Try selecting more books.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Game</TableCell>
+              <TableCell>Outcome</TableCell>
+              <TableCell align="right">Best Price</TableCell>
+              <TableCell>Book</TableCell>
+              <TableCell align="right">2nd Best</TableCell>
+              <TableCell align="right">Gap to 2nd</TableCell>
+              <TableCell align="right">Fair Odds</TableCell>
+              <TableCell align="right">vs Consensus</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(({ id, match, line }) => (
+              <TableRow key={id}>
+                <TableCell>
+                  <div className="text-sm text-gray-500">{match.sportTitle}</div>
+                  <Link to={`/match/${match.sport}/${match.id}`} className="text-blue-600 hover:underline">
+                    {match.home_team} vs {match.away_team}
+                  </Link>
+                </TableCell>
+                <TableCell>{line.outcomeName}{formatPoint(selectedMarket, line.point)}</TableCell>
+                <TableCell align="right">
+                  <strong>{formatAmericanOdds(line.best.price, oddsFormat)}</strong>
+                </TableCell>
+                <TableCell>{line.bestBooks.join(', ')}</TableCell>
+                <TableCell align="right">
+                  {line.secondBest
+                    ? `${formatAmericanOdds(line.secondBest.price, oddsFormat)} (${line.secondBest.bookmakerTitle})`
+                    : '-'}
+                </TableCell>
+                <TableCell align="right">{formatCents(line.gapToSecondCents)}</TableCell>
+                <TableCell align="right">
+                  {line.fairOdds !== null ? formatAmericanOdds(Math.round(line.fairOdds), oddsFormat) : '-'}
+                </TableCell>
+                <TableCell
+                  align="right"
+                  className={line.gapToConsensusCents !== null && line.gapToConsensusCents > 0 ? 'text-green-600' : ''}
+                >
+                  {formatCents(line.gapToConsensusCents)}
+                </TableCell>
+                <TableCell>
+                  {line.beatMarketCents > 0 && (
+                    <Chip
+                      label={`Beat the market by ${Math.round(line.beatMarketCents)}¢`}
+                      size="small"
+                      color="success"
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default LineShoppingView;
@@ -0,0 +1,242 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useMemo, useState } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import { Box, Chip, MenuItem, TextField, Typography } from '@mui/material';
+
+/* ++++++++++ SERVICES ++++++++++ */
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+import { LineMovementEvent, LineMovementService } from '../../services/lineMovement';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { detectReverseLineMovement, detectSteamMoves } from '../../utils/lineMovement';
+import { americanToProbability, formatAmericanOdds } from '../../utils/oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface LineMovementChartProps {
+  event: LineMovementEvent; // Latest odds, already recorded; a new object means new history
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const MARKET_OPTIONS = [
+  { key: 'h2h', label: 'Moneyline' },
+  { key: 'spreads', label: 'Spread' },
+  { key: 'totals', label: 'Totals' }
+];
+
+const BOOK_COLORS = ['#200589', '#e91e63', '#009688', '#ff9800', '#3f51b5', '#8bc34a', '#795548', '#00bcd4', '#9c27b0', '#607d8b'];
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 260;
+const CHART_PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+const MAX_RECENT_MOVES = 8;
+
+/* ++++++++++ HELPERS ++++++++++ */
+const formatPoint = (point?: number): string => {
+  if (point === undefined) return '';
+  return ` ${point > 0 ? '+' : ''}${point}`;
+};
+
+const formatTime = (timestamp: string | Date): string => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+};
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const LineMovementChart: React.FC<LineMovementChartProps> = ({ event }) => {
+  /* ++++++++++ HOOKS ++++++++++ */
+  const { oddsFormat } = useOddsFormat();
+
+  /* ++++++++++ STATE ++++++++++ */
+  const [marketKey, setMarketKey] = useState<string>('h2h');
+  const [selectedOutcome, setSelectedOutcome] = useState<string>('');
+
+  const history = useMemo(() => LineMovementService.getEventHistory(event.id), [event]);
+
+  const marketHistory = useMemo(
+    () => history.filter(series => series.marketKey === marketKey),
+    [history, marketKey]
+  );
+  const outcomeNames = useMemo(
+    () => [...new Set(marketHistory.map(series => series.outcomeName))],
+    [marketHistory]
+  );
+  const outcomeName = outcomeNames.includes(selectedOutcome) ? selectedOutcome : outcomeNames[0] ?? '';
+  const outcomeHistory = marketHistory.filter(series => series.outcomeName === outcomeName && series.points.length > 0);
+
+  const steamMoves = useMemo(() => detectSteamMoves(history), [history]);
+  const reverseMoves = useMemo(() => detectReverseLineMovement(history), [history]);
+  const recentMoves = useMemo(
+    () => LineMovementService.getMovements(marketHistory).slice(0, MAX_RECENT_MOVES),
+    [marketHistory]
+  );
+
+  /* ++++++++++ SCALES ++++++++++ */
+  const times = outcomeHistory.flatMap(series => series.points.map(point => new Date(point.timestamp).getTime()));
+  const probabilities = outcomeHistory.flatMap(series => series.points.map(point => americanToProbability(point.price)));
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(Date.now(), ...times);
+  const minProbability = Math.min(...probabilities) - 0.01;
+  const maxProbability = Math.max(...probabilities) + 0.01;
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (time: number) => CHART_PADDING.left + (maxTime > minTime ? ((time - minTime) / (maxTime - minTime)) * plotWidth : plotWidth / 2);
+  const y = (probability: number) => CHART_PADDING.top + (1 - (probability - minProbability) / (maxProbability - minProbability)) * plotHeight;
+
+  // Quotes hold until they change, so each series is drawn as steps out to the latest fetch
+  const getStepPath = (points: { timestamp: string; price: number }[]): string => {
+    const coordinates = points.flatMap((point, index) => {
+      const current = [x(new Date(point.timestamp).getTime()), y(americanToProbability(point.price))];
+      const nextTime = index < points.length - 1 ? new Date(points[index + 1].timestamp).getTime() : maxTime;
+      return [current, [x(nextTime), current[1]]];
+    });
+    return coordinates.map(([px, py], index) => `${index === 0 ? 'M' : 'L'}${px.toFixed(1)},${py.toFixed(1)}`).join(' ');
+  };
+
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(fraction => minProbability + fraction * (maxProbability - minProbability));
+  const bookTitles = Object.fromEntries(history.map(series => [series.id, `${series.bookmakerTitle} ${series.outcomeName}`]));
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <div className="mb-8">
+      <Box className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-2xl font-bold">Line Movement</h2>
+        <Box className="flex gap-2">
+          <TextField
+            select
+            label="Market"
+            size="small"
+            value={marketKey}
+            onChange={(e) => setMarketKey(e.target.value)}
+            sx={{ width: '160px' }}
+          >
+            {MARKET_OPTIONS.map((option) => (
+              <MenuItem key={option.key} value={option.key}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Outcome"
+            size="small"
+            value={outcomeName}
+            onChange={(e) => setSelectedOutcome(e.target.value)}
+            disabled={outcomeNames.length === 0}
+            sx={{ width: '200px' }}
+          >
+            {outcomeNames.map((name) => (
+              <MenuItem key={name} value={name}>
+                {name}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+      </Box>
+
+      {outcomeHistory.length === 0 ? (
+        <p className="text-gray-500">
+          No line history recorded for this market yet. Prices are recorded every time odds refresh.
+        </p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} width="100%" role="img" aria-label="Line movement chart">
+            {yTicks.map((tick) => (
+              <g key={tick}>
+                <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+                <text x={CHART_PADDING.left - 6} y={y(tick) + 4} fontSize="11" textAnchor="end" fill="#6b7280">
+                  {(tick * 100).toFixed(1)}%
+                </text>
+              </g>
+            ))}
+            <text x={CHART_PADDING.left} y={CHART_HEIGHT - 8} fontSize="11" fill="#6b7280">
+              {formatTime(new Date(minTime))}
+            </text>
+            <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 8} fontSize="11" textAnchor="end" fill="#6b7280">
+              {formatTime(new Date(maxTime))}
+            </text>
+
+            {outcomeHistory.map((series, index) => {
+              const color = BOOK_COLORS[index % BOOK_COLORS.length];
+              return (
+                <g key={series.id}>
+                  <path d={getStepPath(series.points)} fill="none" stroke={color} strokeWidth={2} />
+                  {series.points.map((point) => (
+                    <circle
+                      key={point.timestamp}
+                      cx={x(new Date(point.timestamp).getTime())}
+                      cy={y(americanToProbability(point.price))}
+                      r={3}
+                      fill={color}
+                    >
+                      <title>
+                        {`${series.bookmakerTitle}: ${formatAmericanOdds(point.price, oddsFormat)}${formatPoint(point.point)} at ${formatTime(point.timestamp)}`}
+                      </title>
+                    </circle>
+                  ))}
+                </g>
+              );
+            })}
+          </svg>
+
+          <Box className="flex flex-wrap gap-3 mt-2">
+            {outcomeHistory.map((series, index) => {
+              const latest = series.points[series.points.length - 1];
+              return (
+                <Box key={series.id} className="flex items-center gap-1">
+                  <span style={{ width: 12, height: 12, borderRadius: 2, backgroundColor: BOOK_COLORS[index % BOOK_COLORS.length], display: 'inline-block' }} />
+                  <Typography variant="caption">
+                    {series.bookmakerTitle} {formatAmericanOdds(latest.price, oddsFormat)}{formatPoint(latest.point)}
+                  </Typography>
+                </Box>
+              );
+            })}
+          </Box>
+        </>
+      )}
+
+      {(steamMoves.length > 0 || reverseMoves.length > 0) && (
+        <Box className="flex flex-col gap-2 mt-4">
+          {steamMoves.map((steam) => (
+            <Box key={steam.id} className="flex flex-wrap items-center gap-2">
+              <Chip label="Steam" color="error" size="small" />
+              <Typography variant="body2">
+                {steam.outcomeName}{steam.description ? ` (${steam.description})` : ''} {steam.marketKey} moved{' '}
+                {steam.direction === 'toward' ? 'toward' : 'away from'} it at {steam.books.length} books
+                ({steam.books.join(', ')}) between {formatTime(steam.startedAt)} and {formatTime(steam.endedAt)}
+              </Typography>
+            </Box>
+          ))}
+          {reverseMoves.map((movement) => (
+            <Box key={movement.id} className="flex flex-wrap items-center gap-2">
+              <Chip label="Reverse Line Movement" color="warning" size="small" />
+              <Typography variant="body2">
+                {movement.marketKey}: {movement.booksAgainstPublic} books moved toward {movement.sharpSide} against{' '}
+                {movement.publicSide}
+                {movement.assumedPublic ? ' (assumed public side)' : ` (${Math.round(movement.publicShare! * 100)}% of bets)`}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {recentMoves.length > 0 && (
+        <Box className="mt-4">
+          <Typography variant="subtitle2" fontWeight="bold">
+            Latest Moves
+          </Typography>
+          {recentMoves.map((move) => (
+            <Typography key={`${move.propId}-${move.timestamp.getTime()}`} variant="body2" color="text.secondary">
+              {formatTime(move.timestamp)} · {bookTitles[move.propId]}:{' '}
+              {formatAmericanOdds(move.oldOdds, oddsFormat)}{formatPoint(move.oldLine || undefined)} →{' '}
+              {formatAmericanOdds(move.newOdds, oddsFormat)}{formatPoint(move.newLine || undefined)}{' '}
+              ({move.changePercent >= 0 ? '+' : ''}{move.changePercent.toFixed(1)} pts)
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </div>
+  );
+};
+
+export default LineMovementChart;
@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useParams, Link } from 'react-router-dom';
 import { useUserAwareApi } from '../../hooks/useUserAwareApi';
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+import OddsFormatSelector from '../OddsFormat/OddsFormatSelector';
+import MiddlesFinder from '../Arbitrage/MiddlesFinder';
+import LineMovementChart from './LineMovementChart';
 // import { PlayerProps } from '../Player Props/PlayerProps';
 import { ArrowLeft, DollarSign } from 'lucide-react';
 import {
@@ -10,7 +14,11 @@ import {
   GridCellParams,
 } from '@mui/x-data-grid';
 import { createTheme, ThemeProvider } from '@mui/material/styles';
-import { TextField, Switch, FormControlLabel, Button } from '@mui/material';
+import { TextField, Switch, FormControlLabel, Button, MenuItem } from '@mui/material';
+import { DevigMethod, DEFAULT_DEVIG_METHOD, DEVIG_METHODS } from '../../utils/devig';
+import { ConsensusConfig, ConsensusLineService, DEFAULT_SHARP_WEIGHT } from '../../services/consensusLine';
+import { LineMovementService } from '../../services/lineMovement';
+import { americanToDecimal, decimalToProbability, formatAmericanOdds } from '../../utils/oddsConversion';
 
 interface MatchDetailsPageProps {
   bankroll: number;
@@ -19,18 +27,6 @@ interface MatchDetailsPageProps {
 
 // Odds Calculation Functions
 
-const americanToDecimal = (americanOdds: number): number => {
-  if (americanOdds > 0) {
-    return (americanOdds / 100) + 1;
-  } else {
-    return (100 / Math.abs(americanOdds)) + 1;
-  }
-};
-
-const calculateImpliedProbability = (decimalOdds: number): number => {
-  return 1 / decimalOdds;
-};
-
 const calculateKellyCriterion = (
   decimalOdds: number,
   estimatedProbability: number
@@ -109,6 +105,7 @@ interface Market {
 interface Bookmaker {
   key: string;
   title: string;
+  last_update?: string;
   markets: Market[];
 }
 
@@ -125,16 +122,17 @@ interface MatchDetails {
 interface BookmakerCellData {
   odds: number;
   impliedProbability: number;
-  probDifference: number;
-  kellyFraction: number;
-  recommendedBet: number;
+  // Unset when no book is left to build a consensus from, so there is no fair price to judge against
+  probDifference?: number;
+  kellyFraction?: number;
+  recommendedBet?: number;
   point?: number;
 }
 
 interface GridRow {
   id: string;
   team: string;
-  estimatedProbability: number;
+  estimatedProbability?: number; // Unset when there is no consensus
   [bookmakerKey: string]: string | number | BookmakerCellData | undefined;
 }
 
@@ -154,7 +152,10 @@ const MarketTable: React.FC<{
   title: string;
   bankroll: number;
   showOnlyKellyBets: boolean;
-}> = ({ details, marketType, title, bankroll, showOnlyKellyBets }) => {
+  consensusConfig: Partial<ConsensusConfig>;
+}> = ({ details, marketType, title, bankroll, showOnlyKellyBets, consensusConfig }) => {
+  const { oddsFormat } = useOddsFormat();
+
   const validBookmakers = details.bookmakers.filter(
     bookmaker =>
       bookmaker.markets.some(
@@ -176,48 +177,43 @@ const MarketTable: React.FC<{
     );
   }
 
-  const calculateTeamProbabilities = (): { homeProb: number; awayProb: number } => {
-    const homeProbabilities: number[] = [];
-    const awayProbabilities: number[] = [];
+  // Spreads and totals are devigged per point, so a -3 and a -3.5 are never compared directly
+  const pointConsensus = ConsensusLineService.calculatePointConsensus(
+    validBookmakers,
+    marketType,
+    details.home_team,
+    details.away_team,
+    details.sport_key,
+    consensusConfig
+  );
 
-    validBookmakers.forEach(bookmaker => {
-      const marketData = bookmaker.markets.find((m: Market) => m.key === marketType);
-      if (marketData) {
-        const homeOutcome = marketData.outcomes.find((o: Outcome) => o.name === details.home_team);
-        const awayOutcome = marketData.outcomes.find((o: Outcome) => o.name === details.away_team);
-
-        if (homeOutcome?.price && awayOutcome?.price) {
-          const homeDecimalOdds = americanToDecimal(homeOutcome.price);
-          const awayDecimalOdds = americanToDecimal(awayOutcome.price);
-
-          const homeImpliedProb = calculateImpliedProbability(homeDecimalOdds);
-          const awayImpliedProb = calculateImpliedProbability(awayDecimalOdds);
-
-          const total = homeImpliedProb + awayImpliedProb;
-          if (total > 0) {
-            homeProbabilities.push(homeImpliedProb / total);
-            awayProbabilities.push(awayImpliedProb / total);
-          }
-        }
-      }
-    });
+  // One row per outcome, so three-way markets get a Draw row
+  const sides = pointConsensus?.outcomeNames ?? ConsensusLineService.getMarketOutcomeNames(
+    validBookmakers,
+    marketType,
+    details.home_team,
+    details.away_team
+  );
 
-    const avgHomeProb = homeProbabilities.length > 0
-      ? homeProbabilities.reduce((a, b) => a + b, 0) / homeProbabilities.length
-      : 0;
-    const avgAwayProb = awayProbabilities.length > 0
-      ? awayProbabilities.reduce((a, b) => a + b, 0) / awayProbabilities.length
-      : 0;
+  // Weighted no-vig consensus across every book quoting this market
+  const consensus = pointConsensus?.lines[0] ?? ConsensusLineService.calculateConsensus(
+    validBookmakers,
+    marketType,
+    sides,
+    consensusConfig
+  );
 
-    return { homeProb: avgHomeProb, awayProb: avgAwayProb };
+  // Point markets label each row with the consensus line its probability is for
+  const formatSide = (index: number): string => {
+    const point = pointConsensus?.lines[0].points?.[index];
+    if (point === undefined) return sides[index];
+    return `${sides[index]} ${marketType === 'spreads' && point > 0 ? '+' : ''}${point}`;
   };
 
-  const { homeProb, awayProb } = calculateTeamProbabilities();
-
-  function createRow(team: string, estimatedProb: number): GridRow {
+  function createRow(team: string, label: string, estimatedProb: number | undefined): GridRow {
     const row: GridRow = {
       id: team,
-      team,
+      team: label,
       estimatedProbability: estimatedProb,
     };
   
@@ -225,10 +221,18 @@ const MarketTable: React.FC<{
       const marketData = bookmaker.markets.find(m => m.key === marketType);
       const outcome = marketData?.outcomes.find(o => o.name === team);
       if (outcome) {
+        // Each book is judged against the fair price at its own point
+        const fairProb = pointConsensus
+          ? ConsensusLineService.getPointFairProbability(pointConsensus, outcome) ?? estimatedProb
+          : estimatedProb;
         const decimalOdds = americanToDecimal(outcome.price);
-        const impliedProb = calculateImpliedProbability(decimalOdds);
-        const probDifference = estimatedProb - impliedProb;
-        const kellyFraction = calculateKellyCriterion(decimalOdds, estimatedProb);
+        const impliedProb = decimalToProbability(decimalOdds);
+        if (fairProb === undefined) {
+          row[bookmaker.key] = { odds: outcome.price, impliedProbability: impliedProb, point: outcome.point };
+          return;
+        }
+        const probDifference = fairProb - impliedProb;
+        const kellyFraction = calculateKellyCriterion(decimalOdds, fairProb);
         const recommendedBet = kellyFraction * bankroll;
   
         const cellData: BookmakerCellData = {
@@ -250,10 +254,9 @@ const MarketTable: React.FC<{
   }
   
 
-  const rows: GridRow[] = [
-    createRow(details.home_team, homeProb),
-    createRow(details.away_team, awayProb),
-  ];
+  const rows: GridRow[] = sides.map((side, index) =>
+    createRow(side, formatSide(index), consensus?.fairProbabilities[index])
+  );
 
   const filteredRows = rows.filter(row => {
     if (!showOnlyKellyBets) return true;
@@ -275,11 +278,11 @@ const MarketTable: React.FC<{
       headerName: 'Est. Prob.',
       width: 100,
       valueFormatter: (params: GridCellParams) => {
-        if (params.value === undefined) return '';
+        if (params.value === undefined) return 'No consensus';
         return `${(params.value as number * 100).toFixed(1)}%`;
       },
       renderCell: (params: GridRenderCellParams<GridRow, number>) => {
-        if (params.value === undefined) return null;
+        if (params.value === undefined) return <div className="text-xs text-gray-500">No consensus</div>;
         return (
           <div className="font-semibold">
             {(params.value * 100).toFixed(1)}%
@@ -304,8 +307,8 @@ const MarketTable: React.FC<{
           point,
         } = data;
 
-        const isValueBet = probDifference > 0;
-        const isKellyBet = kellyFraction > 0;
+        const isValueBet = (probDifference ?? 0) > 0;
+        const isKellyBet = (kellyFraction ?? 0) > 0;
 
         return (
           <div className={`
@@ -314,28 +317,28 @@ const MarketTable: React.FC<{
           `}>
             <div className={`
               text-xs
-              ${probDifference > 0 ? 'text-green-600' : 'text-red-600'}
+              ${isValueBet ? 'text-green-600' : 'text-red-600'}
             `}>
-              {probDifference !== 0 &&
+              {probDifference !== undefined && probDifference !== 0 &&
                 `${probDifference > 0 ? '⬆' : '⬇'} ${Math.abs(probDifference * 100).toFixed(1)}%`
               }
             </div>
             <div className="text-lg font-medium">
-              {odds > 0 ? `+${odds}` : odds}
+              {formatAmericanOdds(odds, oddsFormat)}
             </div>
             <div className="text-xs text-gray-500">
               {(impliedProbability * 100).toFixed(1)}%
             </div>
-            {marketType === 'spreads' && point !== undefined && (
+            {(marketType === 'spreads' || marketType === 'totals') && point !== undefined && (
               <div className="text-sm text-gray-400">
-                {point > 0 ? '+' : ''}{point}
+                {marketType === 'spreads' && point > 0 ? '+' : ''}{point}
               </div>
             )}
             {bankroll && isKellyBet && (
               <div className="text-xs text-green-600 font-bold">
-                ${recommendedBet.toFixed(0)}
+                ${(recommendedBet ?? 0).toFixed(0)}
                 <div className="text-gray-500">
-                  ({(kellyFraction * 100).toFixed(1)}%)
+                  ({((kellyFraction ?? 0) * 100).toFixed(1)}%)
                 </div>
               </div>
             )}
@@ -355,7 +358,6 @@ const MarketTable: React.FC<{
             columns={columns}
             getRowHeight={() => 'auto'}
             getEstimatedRowHeight={() => 200}
-            pageSizeOptions={[2]}
             hideFooter
             disableRowSelectionOnClick
             sx={{
@@ -408,9 +410,17 @@ const MarketTable: React.FC<{
 
 const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankroll }) => {
   const { sportKey, matchId } = useParams<{ sportKey: string; matchId: string }>();
-  const { fetchOdds } = useUserAwareApi();
+  const { fetchOdds, fetchEventOdds } = useUserAwareApi();
 
   const [showOnlyKellyBets, setShowOnlyKellyBets] = useState<boolean>(false);
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>(DEFAULT_DEVIG_METHOD);
+  const [sharpOnly, setSharpOnly] = useState<boolean>(false);
+  const [sharpWeight, setSharpWeight] = useState<number>(DEFAULT_SHARP_WEIGHT);
+
+  const consensusConfig = useMemo<Partial<ConsensusConfig>>(
+    () => ({ devigMethod, sharpOnly, bookWeights: ConsensusLineService.getSharpBookWeights(sharpWeight) }),
+    [devigMethod, sharpOnly, sharpWeight]
+  );
 
   const { data: matchDetails, isLoading, error } = useQuery({
     queryKey: ['matchDetails', sportKey, matchId],
@@ -422,6 +432,7 @@ const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankro
         if (!match) {
           throw new Error('Match not found');
         }
+        LineMovementService.record([match]);
         return match;
       } catch (error) {
         console.error('Error fetching match details:', error);
@@ -429,6 +440,15 @@ const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankro
       }
     },
     enabled: !!sportKey && !!matchId,
+    refetchInterval: 60000,
+  });
+
+  // Hockey moneylines include overtime, so the 60-minute three-way line is fetched separately
+  const hasRegulationLines = !!sportKey?.startsWith('icehockey');
+  const { data: regulationOdds } = useQuery({
+    queryKey: ['matchDetails', sportKey, matchId, 'h2h_3_way'],
+    queryFn: () => fetchEventOdds(sportKey!, matchId!, 'us', ['h2h_3_way']),
+    enabled: hasRegulationLines && !!matchId,
   });
 
   if (isLoading) {
@@ -448,6 +468,7 @@ const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankro
   }
 
   const details = matchDetails as MatchDetails;
+  const regulationDetails = regulationOdds as MatchDetails | undefined;
 
   return (
     <div className="min-h-screen p-8 bg-white">
@@ -476,6 +497,40 @@ const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankro
         />
       </div>
 
+      {/* Devig Method */}
+      <div style={{ display: 'flex', justifyContent: 'center', marginBottom: '16px' }}>
+        <TextField
+          select
+          label="Devig Method"
+          variant="outlined"
+          value={devigMethod}
+          onChange={(e) => setDevigMethod(e.target.value as DevigMethod)}
+          sx={{ width: '200px' }}
+        >
+          {DEVIG_METHODS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <FormControlLabel
+          control={<Switch checked={sharpOnly} onChange={() => setSharpOnly(!sharpOnly)} color="primary" />}
+          label="Sharp Books Only"
+          sx={{ marginLeft: '16px' }}
+        />
+        <TextField
+          label="Sharp Book Weight"
+          type="number"
+          variant="outlined"
+          value={sharpWeight}
+          onChange={(e) => setSharpWeight(Math.max(parseFloat(e.target.value) || 0, 0))}
+          helperText="Other books count once"
+          inputProps={{ min: 0, step: 0.5 }}
+          sx={{ width: '160px', marginRight: '16px' }}
+        />
+        <OddsFormatSelector />
+      </div>
+
       {/* Player Props Navigation */}
       <div style={{ display: 'flex', justifyContent: 'center', marginBottom: '24px' }}>
         <Button
@@ -501,6 +556,7 @@ const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankro
           title="Moneyline"
           bankroll={bankroll}
           showOnlyKellyBets={showOnlyKellyBets}
+          consensusConfig={consensusConfig}
         />
 
         <MarketTable
@@ -509,8 +565,32 @@ const MatchDetailsPage: React.FC<MatchDetailsPageProps> = ({ bankroll, setBankro
           title="Spread"
           bankroll={bankroll}
           showOnlyKellyBets={showOnlyKellyBets}
+          consensusConfig={consensusConfig}
         />
 
+        <MarketTable
+          details={details}
+          marketType="totals"
+          title="Totals"
+          bankroll={bankroll}
+          showOnlyKellyBets={showOnlyKellyBets}
+          consensusConfig={consensusConfig}
+        />
+
+        {hasRegulationLines && regulationDetails && (
+          <MarketTable
+            details={regulationDetails}
+            marketType="h2h_3_way"
+            title="Regulation (3-Way)"
+            bankroll={bankroll}
+            showOnlyKellyBets={showOnlyKellyBets}
+            consensusConfig={consensusConfig}
+          />
+        )}
+
+        <LineMovementChart event={details} />
+
+        <MiddlesFinder event={{ ...details, sport: details.sport_key }} />
 
         {/* <PlayerProps sportKey={sportKey!} matchId={matchId!} /> */}
 
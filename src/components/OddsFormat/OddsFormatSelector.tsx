@@ -0,0 +1,31 @@
+import React from 'react';
+import { TextField, MenuItem } from '@mui/material';
+
+/* ++++++++++ HOOKS ++++++++++ */
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { OddsFormat, ODDS_FORMATS } from '../../utils/oddsConversion';
+
+const OddsFormatSelector: React.FC = () => {
+  const { oddsFormat, setOddsFormat } = useOddsFormat();
+
+  return (
+    <TextField
+      select
+      label="Odds Format"
+      variant="outlined"
+      value={oddsFormat}
+      onChange={(e) => setOddsFormat(e.target.value as OddsFormat)}
+      sx={{ width: '200px' }}
+    >
+      {ODDS_FORMATS.map((option) => (
+        <MenuItem key={option.value} value={option.value}>
+          {option.label} ({option.example})
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+};
+
+export default OddsFormatSelector;
@@ -11,11 +11,26 @@ import {
   GridRenderCellParams,
   GridCellParams,
 } from '@mui/x-data-grid';
-import { TextField, Button, Switch, FormControlLabel } from '@mui/material';
+import { TextField, Button, Switch, FormControlLabel, MenuItem } from '@mui/material';
 import { createTheme, ThemeProvider } from '@mui/material/styles';
 
 /* ++++++++++ SERVICES ++++++++++ */
 import { useUserAwareApi } from '../hooks/useUserAwareApi';
+import { useOddsFormat } from '../hooks/useOddsFormat';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { DevigMethod, DEFAULT_DEVIG_METHOD, DEVIG_METHODS } from '../utils/devig';
+import { ConsensusConfig, ConsensusLineService, DEFAULT_SHARP_WEIGHT } from '../services/consensusLine';
+import { LineMovementService } from '../services/lineMovement';
+import { americanToDecimal, decimalToProbability, formatAmericanOdds } from '../utils/oddsConversion';
+import { MAX_PARLAY_LEGS, ParlayLeg, getParlayLegId } from '../utils/parlay';
+
+/* ++++++++++ COMPONENTS ++++++++++ */
+import OddsFormatSelector from './OddsFormat/OddsFormatSelector';
+import ArbitrageScanner from './Arbitrage/ArbitrageScanner';
+import BookHoldRankings from './Hold/BookHoldRankings';
+import LineShoppingView from './LineShopping/LineShoppingView';
+import ParlayCalculator from './Parlay/ParlayCalculator';
 
 
 /* ++++++++++ TYPES ++++++++++ */
@@ -36,12 +51,14 @@ interface MarketOption {
 
 interface Market {
   key: string;
+  last_update?: string;
   outcomes: Outcome[];
 }
 
 interface BookmakerData {
   key: string;
   title: string;
+  last_update?: string;
   markets: Market[];
 }
 
@@ -67,9 +84,10 @@ interface Match {
 interface BookmakerCellData {
   odds: number;
   impliedProbability: number;
-  probDifference: number;
-  kellyFraction: number;
-  recommendedBet: number;
+  // Unset when no book is left to build a consensus from, so there is no fair price to judge against
+  probDifference?: number;
+  kellyFraction?: number;
+  recommendedBet?: number;
   point?: number;
 }
 
@@ -81,7 +99,8 @@ interface GridRow {
   sportTitle?: string;
   matchName: string;
   team: string;
-  estimatedProbability: number;
+  outcome: string; // Outcome name the books quote, without the point
+  estimatedProbability?: number; // Unset when there is no consensus
   [bookmakerKey: string]: BookmakerCellData | string | number | undefined;
 }
 
@@ -99,6 +118,8 @@ interface OddsDataGridProps {
   ALL_SPORTS: Sport[];
   showOnlyKellyBets: boolean;
   evFilterThreshold: number;
+  consensusConfig: Partial<ConsensusConfig>;
+  onSelectPrice?: (leg: ParlayLeg) => void;
 }
 
 /* ++++++++++ CONSTANTS ++++++++++ */
@@ -189,18 +210,6 @@ const theme = createTheme({
 
 
 /* ++++++++++ UTILITIES ++++++++++ */
-const americanToDecimal = (americanOdds: number): number => {
-  if (americanOdds > 0) {
-    return (americanOdds / 100) + 1;
-  } else {
-    return (100 / Math.abs(americanOdds)) + 1;
-  }
-};
-
-const calculateImpliedProbability = (decimalOdds: number): number => {
-  return 1 / decimalOdds;
-};
-
 const calculateKellyCriterion = (
   decimalOdds: number, 
   estimatedProbability: number
@@ -264,53 +273,47 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
   popularBookmakers,
   ALL_SPORTS,
   showOnlyKellyBets,
-  evFilterThreshold
+  evFilterThreshold,
+  consensusConfig,
+  onSelectPrice
 }) => {
+  const { oddsFormat } = useOddsFormat();
+
   const rows: GridRow[] = useMemo(() => {
     const allRows = matches.flatMap((match: Match, index: number) => {
       const filteredBookmakers = match.bookmakers
         .filter((bookmaker: BookmakerData) => selectedBooks.has(bookmaker.key));
 
-      const calculateTeamProbabilities = (homeTeam: string, awayTeam: string): { homeProb: number; awayProb: number } => {
-        const homeProbabilities: number[] = [];
-        const awayProbabilities: number[] = [];
-
-        filteredBookmakers.forEach(bookmaker => {
-          const marketData = bookmaker.markets.find((m: Market) => m.key === selectedMarket);
-          if (marketData) {
-            const homeOutcome = marketData.outcomes.find((o: Outcome) => o.name === homeTeam);
-            const awayOutcome = marketData.outcomes.find((o: Outcome) => o.name === awayTeam);
-
-            if (homeOutcome?.price && awayOutcome?.price) {
-              const homeDecimalOdds = americanToDecimal(homeOutcome.price);
-              const awayDecimalOdds = americanToDecimal(awayOutcome.price);
-              
-              const homeImpliedProb = calculateImpliedProbability(homeDecimalOdds);
-              const awayImpliedProb = calculateImpliedProbability(awayDecimalOdds);
-              
-              const total = homeImpliedProb + awayImpliedProb;
-              if (total > 0) {
-                homeProbabilities.push(homeImpliedProb / total);
-                awayProbabilities.push(awayImpliedProb / total);
-              }
-            }
-          }
-        });
-
-        const avgHomeProb = homeProbabilities.length > 0 
-          ? homeProbabilities.reduce((a, b) => a + b, 0) / homeProbabilities.length 
-          : 0;
-        const avgAwayProb = awayProbabilities.length > 0 
-          ? awayProbabilities.reduce((a, b) => a + b, 0) / awayProbabilities.length 
-          : 0;
-
-        return { homeProb: avgHomeProb, awayProb: avgAwayProb };
-      };
-
-      const { homeProb, awayProb } = calculateTeamProbabilities(match.home_team, match.away_team);
+      /* ++++++++++ FAIR PROBABILITIES ++++++++++ */
+      // Spreads and totals are devigged per point, so a -3 and a -3.5 are never compared directly
+      const pointConsensus = ConsensusLineService.calculatePointConsensus(
+        filteredBookmakers,
+        selectedMarket,
+        match.home_team,
+        match.away_team,
+        match.sport,
+        consensusConfig
+      );
+
+      // One row per outcome, so three-way markets get a Draw row
+      const sides = pointConsensus?.outcomeNames ?? ConsensusLineService.getMarketOutcomeNames(
+        filteredBookmakers,
+        selectedMarket,
+        match.home_team,
+        match.away_team
+      );
+
+      // Weighted no-vig consensus across the selected books
+      const consensus = pointConsensus?.lines[0] ?? ConsensusLineService.calculateConsensus(
+        filteredBookmakers,
+        selectedMarket,
+        sides,
+        consensusConfig
+      );
+      const mainPoints = pointConsensus?.lines[0].points;
 
       /* ++++++++++ CREATE BOOKMAKER DATA ++++++++++ */
-      const createBookmakerData = (team: string, estimatedProb: number): Record<string, BookmakerCellData> => {
+      const createBookmakerData = (team: string, estimatedProb: number | undefined): Record<string, BookmakerCellData> => {
         const bookmakerData: Record<string, BookmakerCellData> = {};
         
         filteredBookmakers.forEach((bookmaker) => {
@@ -318,10 +321,18 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
           const outcome = marketData?.outcomes.find(o => o.name === team);
           
           if (outcome?.price) {
+            // Each book is judged against the fair price at its own point
+            const fairProb = pointConsensus
+              ? ConsensusLineService.getPointFairProbability(pointConsensus, outcome) ?? estimatedProb
+              : estimatedProb;
             const decimalOdds = americanToDecimal(outcome.price);
-            const impliedProb = calculateImpliedProbability(decimalOdds);
-            const probDifference = estimatedProb - impliedProb;
-            const kellyFraction = calculateKellyCriterion(decimalOdds, estimatedProb);
+            const impliedProb = decimalToProbability(decimalOdds);
+            if (fairProb === undefined) {
+              bookmakerData[bookmaker.key] = { odds: outcome.price, impliedProbability: impliedProb, point: outcome.point };
+              return;
+            }
+            const probDifference = fairProb - impliedProb;
+            const kellyFraction = calculateKellyCriterion(decimalOdds, fairProb);
             const recommendedBet = kellyFraction * (bankroll || 0);
 
             bookmakerData[bookmaker.key] = {
@@ -338,35 +349,28 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
         return bookmakerData;
       };
 
-      const homeData = createBookmakerData(match.home_team, homeProb);
-      const awayData = createBookmakerData(match.away_team, awayProb);
-
-      // Create rows as before
-      const homeRow = {
-        id: `${match.id}-home`,
-        matchId: match.id,
-        matchIndex: index,
-        sport: match.sport || '',
-        sportTitle: ALL_SPORTS.find(sport => sport.key === match.sport)?.title,
-        matchName: `${match.home_team} vs ${match.away_team}`,
-        team: match.home_team,
-        estimatedProbability: homeProb,
-        ...homeData
-      };
-
-      const awayRow = {
-        id: `${match.id}-away`,
-        matchId: match.id,
-        matchIndex: index,
-        sport: match.sport || '',
-        sportTitle: ALL_SPORTS.find(sport => sport.key === match.sport)?.title,
-        matchName: `${match.home_team} vs ${match.away_team}`,
-        team: match.away_team,
-        estimatedProbability: awayProb,
-        ...awayData
+      // Point markets label each row with the consensus line its probability is for
+      const formatSide = (index: number): string => {
+        const point = mainPoints?.[index];
+        if (point === undefined) return sides[index];
+        return `${sides[index]} ${selectedMarket === 'spreads' && point > 0 ? '+' : ''}${point}`;
       };
 
-      return [homeRow, awayRow];
+      return sides.map((side, sideIndex) => {
+        const estimatedProb = consensus?.fairProbabilities[sideIndex];
+        return {
+          id: `${match.id}-${sideIndex}`,
+          matchId: match.id,
+          matchIndex: index,
+          sport: match.sport || '',
+          sportTitle: ALL_SPORTS.find(sport => sport.key === match.sport)?.title,
+          matchName: `${match.home_team} vs ${match.away_team}`,
+          team: formatSide(sideIndex),
+          outcome: side,
+          estimatedProbability: estimatedProb,
+          ...createBookmakerData(side, estimatedProb)
+        };
+      });
     });
 
     const getBookmakerData = (row: GridRow, key: string): BookmakerCellData | undefined => {
@@ -390,6 +394,8 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
       return bookmakerKeys.some(key => {
         const data = getBookmakerData(row, key);
         if (data) {
+          // With no consensus there is no EV to filter on, so the row stays to say so
+          if (data.probDifference === undefined) return true;
           const evPercent = data.probDifference * 100;
           const meetsEvThreshold = evPercent >= evFilterThreshold;
           const meetsKellyBets = !showOnlyKellyBets || (data.kellyFraction !== undefined && data.kellyFraction > 0);
@@ -398,7 +404,7 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
         return false;
       });
     });
-  }, [matches, selectedBooks, selectedMarket, bankroll, showOnlyKellyBets, evFilterThreshold, ALL_SPORTS]);
+  }, [matches, selectedBooks, selectedMarket, bankroll, showOnlyKellyBets, evFilterThreshold, consensusConfig, ALL_SPORTS]);
   // Create columns for the DataGrid
   const columns = useMemo(() => {
     const baseColumns = [
@@ -428,11 +434,11 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
         headerName: 'Est. Prob.',
         width: 80,
         valueFormatter: (params: GridCellParams) => {
-          if (params.value === undefined) return '';
+          if (params.value === undefined) return 'No consensus';
           return `${(params.value as number * 100).toFixed(1)}%`;
         },
         renderCell: (params: GridRenderCellParams<GridRow, number>) => {
-          if (params.value === undefined) return null;
+          if (params.value === undefined) return <div className="text-xs text-gray-500">No consensus</div>;
           return (
             <div className="font-semibold">
               {(params.value * 100).toFixed(1)}%
@@ -461,8 +467,8 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
             point
           } = data;
 
-          const isValueBet = probDifference > 0;
-          const isKellyBet = kellyFraction > 0;
+          const isValueBet = (probDifference ?? 0) > 0;
+          const isKellyBet = (kellyFraction ?? 0) > 0;
 
           return (
             <div className={`
@@ -471,28 +477,28 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
             `}>
               <div className={`
                 text-xs
-                ${probDifference > 0 ? 'text-green-600' : 'text-red-600'}
+                ${isValueBet ? 'text-green-600' : 'text-red-600'}
               `}>
-                {probDifference !== 0 && 
+                {probDifference !== undefined && probDifference !== 0 &&
                   `${probDifference > 0 ? '⬆' : '⬇'} ${Math.abs(probDifference * 100).toFixed(1)}%`
                 }
               </div>
               <div className="text-lg font-medium">
-                {odds > 0 ? `+${odds}` : odds}
+                {formatAmericanOdds(odds, oddsFormat)}
               </div>
               <div className="text-xs text-gray-500">
                 {(impliedProbability * 100).toFixed(1)}%
               </div>
-              {selectedMarket === 'spreads' && point !== undefined && (
+              {(selectedMarket === 'spreads' || selectedMarket === 'totals') && point !== undefined && (
                 <div className="text-sm text-gray-400">
-                  {point > 0 ? '+' : ''}{point}
+                  {selectedMarket === 'spreads' && point > 0 ? '+' : ''}{point}
                 </div>
               )}
               {bankroll && isKellyBet && (
                 <div className="text-xs text-green-600 font-bold">
-                  ${recommendedBet.toFixed(0)}
+                  ${(recommendedBet ?? 0).toFixed(0)}
                   <div className="text-gray-500">
-                    ({(kellyFraction * 100).toFixed(1)}%)
+                    ({((kellyFraction ?? 0) * 100).toFixed(1)}%)
                   </div>
                 </div>
               )}
@@ -502,7 +508,7 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
       }));
 
     return [...baseColumns, ...bookmakerColumns];
-  }, [selectedMarket, selectedBooks, bankroll, popularBookmakers]);
+  }, [selectedMarket, selectedBooks, bankroll, popularBookmakers, oddsFormat]);
 
   // Render the DataGrid
   return (
@@ -512,6 +518,26 @@ const OddsDataGrid: React.FC<OddsDataGridProps> = ({
         columns={columns}
         density="comfortable"
         disableRowSelectionOnClick
+        onCellClick={(params: GridCellParams<GridRow>) => {
+          const bookmaker = popularBookmakers.find(b => b.key === params.field);
+          const data = params.row[params.field] as BookmakerCellData | undefined;
+          // A price with no consensus has no fair probability to add to a parlay
+          if (!onSelectPrice || !bookmaker || !data || data.probDifference === undefined) return;
+
+          // The cell's fair probability is the consensus at the book's own point
+          onSelectPrice({
+            id: getParlayLegId(params.row.matchId, selectedMarket, params.row.outcome, data.point, bookmaker.key),
+            eventId: params.row.matchId,
+            eventName: params.row.matchName,
+            marketKey: selectedMarket,
+            outcomeName: params.row.outcome,
+            point: data.point,
+            bookmakerKey: bookmaker.key,
+            bookmakerTitle: bookmaker.title,
+            price: data.odds,
+            fairProbability: data.impliedProbability + data.probDifference
+          });
+        }}
         getRowHeight={() => 'auto'}
         getEstimatedRowHeight={() => 200}
         initialState={{
@@ -584,6 +610,25 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [showOnlyKellyBets, setShowOnlyKellyBets] = useState<boolean>(false);
   const [evFilterThreshold, setEvFilterThreshold] = useState<number>(0);
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>(DEFAULT_DEVIG_METHOD);
+  const [sharpOnly, setSharpOnly] = useState<boolean>(false);
+  const [sharpWeight, setSharpWeight] = useState<number>(DEFAULT_SHARP_WEIGHT);
+  const [showArbitrage, setShowArbitrage] = useState<boolean>(false);
+  const [showHoldRankings, setShowHoldRankings] = useState<boolean>(false);
+  const [showLineShopping, setShowLineShopping] = useState<boolean>(false);
+  const [showParlayBuilder, setShowParlayBuilder] = useState<boolean>(false);
+  const [parlayLegs, setParlayLegs] = useState<ParlayLeg[]>([]);
+
+  const consensusConfig = useMemo<Partial<ConsensusConfig>>(
+    () => ({ devigMethod, sharpOnly, bookWeights: ConsensusLineService.getSharpBookWeights(sharpWeight) }),
+    [devigMethod, sharpOnly, sharpWeight]
+  );
+
+  // Stable between renders, so the scanner only re-saves its history when the sport changes
+  const arbitrageSports = useMemo(
+    () => ALL_SPORTS.filter(sport => sport.key === selectedSport),
+    [selectedSport]
+  );
 
   /* ++++++++++ REFS ++++++++++ */
   const fixedTableRef = useRef<HTMLDivElement>(null);
@@ -600,13 +645,14 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
   const sportsQueries = useQueries({
     queries: ALL_SPORTS.map(sport => ({
       queryKey: ['odds', sport.key, selectedMarket, Array.from(selectedBooks)],
-      queryFn: () => fetchOdds(sport.key, selectedMarket).then(data => 
-        data.map((match: Match) => ({
+      queryFn: () => fetchOdds(sport.key, 'us', selectedMarket).then(data => {
+        LineMovementService.record(data);
+        return data.map((match: Match) => ({
           ...match,
           sport: sport.key,
           sportTitle: sport.title
-        }))
-      ),
+        }));
+      }),
       enabled: !selectedSport || selectedSport === sport.key,
     }))
   });
@@ -665,6 +711,23 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
     );
   };
 
+  // Clicking a price adds it, clicking it again removes it, and another book's price for the same pick replaces it
+  const handleSelectPrice = (leg: ParlayLeg) => {
+    setParlayLegs((prev) => {
+      if (prev.some(existing => existing.id === leg.id)) {
+        return prev.filter(existing => existing.id !== leg.id);
+      }
+      const samePick = (existing: ParlayLeg) => existing.eventId === leg.eventId
+        && existing.marketKey === leg.marketKey
+        && existing.outcomeName === leg.outcomeName
+        && existing.point === leg.point;
+      if (prev.some(samePick)) {
+        return prev.map(existing => (samePick(existing) ? leg : existing));
+      }
+      return prev.length >= MAX_PARLAY_LEGS ? prev : [...prev, leg];
+    });
+  };
+
   const isAllSelected = selectedBooks.size === popularBookmakers.length;
   const filteredMatches = filterMatches(allOdds);
 
@@ -785,6 +848,22 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
           control={<Switch checked={showOnlyKellyBets} onChange={handleToggleKellyBets} color="primary" />}
           label="Show Only Kelly Bets"
         />
+        <FormControlLabel
+          control={<Switch checked={showArbitrage} onChange={() => setShowArbitrage(!showArbitrage)} color="primary" />}
+          label="Arbitrage Scanner"
+        />
+        <FormControlLabel
+          control={<Switch checked={showHoldRankings} onChange={() => setShowHoldRankings(!showHoldRankings)} color="primary" />}
+          label="Book Hold Rankings"
+        />
+        <FormControlLabel
+          control={<Switch checked={showLineShopping} onChange={() => setShowLineShopping(!showLineShopping)} color="primary" />}
+          label="Line Shopping"
+        />
+        <FormControlLabel
+          control={<Switch checked={showParlayBuilder} onChange={() => setShowParlayBuilder(!showParlayBuilder)} color="primary" />}
+          label="Parlay Builder"
+        />
       </div>
 
       {/* EV% Filter */}
@@ -818,6 +897,40 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
         />
       </div>
 
+      {/* Devig Method */}
+      <div style={{ display: 'flex', justifyContent: 'center', marginBottom: '16px' }}>
+        <TextField
+          select
+          label="Devig Method"
+          variant="outlined"
+          value={devigMethod}
+          onChange={(e) => setDevigMethod(e.target.value as DevigMethod)}
+          sx={{ width: '200px' }}
+        >
+          {DEVIG_METHODS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <FormControlLabel
+          control={<Switch checked={sharpOnly} onChange={() => setSharpOnly(!sharpOnly)} color="primary" />}
+          label="Sharp Books Only"
+          sx={{ marginLeft: '16px' }}
+        />
+        <TextField
+          label="Sharp Book Weight"
+          type="number"
+          variant="outlined"
+          value={sharpWeight}
+          onChange={(e) => setSharpWeight(Math.max(parseFloat(e.target.value) || 0, 0))}
+          helperText="Other books count once"
+          inputProps={{ min: 0, step: 0.5 }}
+          sx={{ width: '160px', marginRight: '16px' }}
+        />
+        <OddsFormatSelector />
+      </div>
+
       {/* Sports List */}
       <div
         style={{
@@ -848,7 +961,6 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
               {sport.title}
             </Button>
           ))}
-          {/*}
           <Button
             onClick={() => handleSportClick('soccer')}
             style={{
@@ -859,7 +971,6 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
           >
             Soccer
           </Button>
-          */}
         </div>
       </div>
 
@@ -940,6 +1051,45 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
           ))}
         </div>
 
+        {/* Arbitrage Scanner */}
+        {showArbitrage && (
+          <ArbitrageScanner
+            sports={arbitrageSports}
+            selectedBooks={selectedBooks}
+          />
+        )}
+
+        {showHoldRankings && (
+          <BookHoldRankings
+            sports={ALL_SPORTS}
+            lastUpdated={Math.max(0, ...sportsQueries.map(query => query.dataUpdatedAt))}
+          />
+        )}
+
+        {showLineShopping && (
+          <LineShoppingView
+            matches={filteredMatches}
+            selectedMarket={selectedMarket}
+            bookmakers={popularBookmakers}
+            selectedBooks={selectedBooks}
+            consensusConfig={consensusConfig}
+          />
+        )}
+
+        {showParlayBuilder && (
+          parlayLegs.length > 0 ? (
+            <ParlayCalculator
+              legs={parlayLegs}
+              onRemoveLeg={(legId) => setParlayLegs(prev => prev.filter(leg => leg.id !== legId))}
+              onClear={() => setParlayLegs([])}
+            />
+          ) : (
+            <p className="text-center text-gray-500 mb-4">
+              Click any book's price below to add it to a parlay.
+            </p>
+          )
+        )}
+
         {/* Loading State */}
         {isLoading && <p className="text-center">Loading odds...</p>}
 
@@ -954,6 +1104,8 @@ const OddsPage: React.FC<OddsPageProps> = ({ bankroll, setBankroll }) => {
           ALL_SPORTS={ALL_SPORTS}
           showOnlyKellyBets={showOnlyKellyBets}
           evFilterThreshold={evFilterThreshold}
+          consensusConfig={consensusConfig}
+          onSelectPrice={showParlayBuilder ? handleSelectPrice : undefined}
         />
       )}
         
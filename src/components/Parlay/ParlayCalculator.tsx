@@ -0,0 +1,242 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useMemo, useState } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ SERVICES ++++++++++ */
+import { useOddsFormat } from '../../hooks/useOddsFormat';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import { formatAmericanOdds } from '../../utils/oddsConversion';
+import {
+  ParlayLeg,
+  ParlayResult,
+  RoundRobinResult,
+  calculateParlay,
+  calculateRoundRobin,
+  getCorrelationWarnings
+} from '../../utils/parlay';
+
+/* ++++++++++ TYPES ++++++++++ */
+type ParlayMode = 'parlay' | 'roundRobin';
+
+interface ParlayCalculatorProps {
+  legs: ParlayLeg[];
+  onRemoveLeg: (legId: string) => void;
+  onClear: () => void;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const MAX_DISPLAYED_PARLAYS = 50;
+
+/* ++++++++++ HELPERS ++++++++++ */
+const formatMoney = (value: number): string => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatPercent = (probability: number): string => `${(probability * 100).toFixed(1)}%`;
+
+const formatLeg = (leg: ParlayLeg): string => {
+  if (leg.point === undefined) return leg.outcomeName;
+  return `${leg.outcomeName} ${leg.marketKey === 'spreads' && leg.point > 0 ? '+' : ''}${leg.point}`;
+};
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const ParlayCalculator: React.FC<ParlayCalculatorProps> = ({ legs, onRemoveLeg, onClear }) => {
+  /* ++++++++++ HOOKS ++++++++++ */
+  const { oddsFormat } = useOddsFormat();
+
+  /* ++++++++++ STATE ++++++++++ */
+  const [mode, setMode] = useState<ParlayMode>('parlay');
+  const [stake, setStake] = useState<number>(10);
+  const [selectedSizes, setSelectedSizes] = useState<number[]>([2]);
+
+  const availableSizes = Array.from({ length: Math.max(0, legs.length - 1) }, (_, index) => index + 2);
+  const sizes = useMemo(
+    () => selectedSizes.filter(size => size <= legs.length),
+    [selectedSizes, legs.length]
+  );
+
+  const toggleSize = (size: number) => {
+    setSelectedSizes(prev => (prev.includes(size) ? prev.filter(s => s !== size) : [...prev, size]));
+  };
+
+  const warnings = useMemo(() => getCorrelationWarnings(legs), [legs]);
+
+  const { parlay, roundRobin, error } = useMemo((): { parlay?: ParlayResult; roundRobin?: RoundRobinResult; error?: string } => {
+    try {
+      if (mode === 'parlay') {
+        return legs.length < 2 ? { error: 'Click at least two prices to build a parlay' } : { parlay: calculateParlay(legs, stake) };
+      }
+      if (sizes.length === 0) return { error: 'Choose at least one round robin size' };
+      return { roundRobin: calculateRoundRobin(legs, sizes, stake) };
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }, [mode, legs, stake, sizes]);
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <Box className="p-4 mb-4 bg-gray-50 rounded-lg space-y-4">
+      <Box className="flex flex-wrap justify-between items-center gap-4">
+        <Typography variant="h6" fontWeight="bold">
+          Parlay Calculator ({legs.length} {legs.length === 1 ? 'leg' : 'legs'})
+        </Typography>
+        <Box className="flex flex-wrap gap-2 items-center">
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            size="small"
+            onChange={(_, value: ParlayMode | null) => value && setMode(value)}
+          >
+            <ToggleButton value="parlay">Parlay</ToggleButton>
+            <ToggleButton value="roundRobin">Round Robin</ToggleButton>
+          </ToggleButtonGroup>
+          <TextField
+            label={mode === 'parlay' ? 'Stake ($)' : 'Stake per Parlay ($)'}
+            type="number"
+            value={stake}
+            onChange={(e) => setStake(Math.max(0, parseFloat(e.target.value) || 0))}
+            size="small"
+            sx={{ width: 150 }}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          <Button variant="outlined" size="small" onClick={onClear}>
+            Clear
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Legs */}
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Game</TableCell>
+            <TableCell>Pick</TableCell>
+            <TableCell>Book</TableCell>
+            <TableCell align="right">Odds</TableCell>
+            <TableCell align="right">Fair Prob.</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {legs.map((leg) => (
+            <TableRow key={leg.id}>
+              <TableCell>{leg.eventName}</TableCell>
+              <TableCell>{formatLeg(leg)}</TableCell>
+              <TableCell>{leg.bookmakerTitle ?? leg.bookmakerKey}</TableCell>
+              <TableCell align="right">{formatAmericanOdds(leg.price, oddsFormat)}</TableCell>
+              <TableCell align="right">{formatPercent(leg.fairProbability)}</TableCell>
+              <TableCell>
+                <Button size="small" onClick={() => onRemoveLeg(leg.id)}>
+                  Remove
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {warnings.map((warning) => (
+        <Alert key={`${warning.kind}-${warning.eventId}-${warning.legIds.join(',')}`} severity={warning.kind === 'conflicting' ? 'error' : 'warning'}>
+          {warning.message}
+        </Alert>
+      ))}
+
+      {mode === 'roundRobin' && (
+        <Box className="flex flex-wrap gap-2 items-center">
+          <Typography variant="body2">Sizes:</Typography>
+          {availableSizes.map((size) => (
+            <Chip
+              key={size}
+              label={`By ${size}s`}
+              size="small"
+              color={sizes.includes(size) ? 'primary' : 'default'}
+              variant={sizes.includes(size) ? 'filled' : 'outlined'}
+              onClick={() => toggleSize(size)}
+            />
+          ))}
+        </Box>
+      )}
+
+      {error && (
+        <Typography variant="body2" color="text.secondary">
+          {error}
+        </Typography>
+      )}
+
+      {parlay && (
+        <Box className="flex flex-wrap gap-6">
+          <Typography variant="body2">
+            Combined odds: <strong>{formatAmericanOdds(Math.round(parlay.americanOdds), oddsFormat)}</strong>
+          </Typography>
+          <Typography variant="body2">
+            Implied: {formatPercent(parlay.impliedProbability)} · True: <strong>{formatPercent(parlay.trueProbability)}</strong>
+          </Typography>
+          <Typography variant="body2">Payout: {formatMoney(parlay.payout)}</Typography>
+          <Typography variant="body2" color={parlay.expectedValue >= 0 ? 'success.main' : 'error.main'}>
+            EV: {formatMoney(parlay.expectedValue)} ({parlay.evPercentage >= 0 ? '+' : ''}{parlay.evPercentage.toFixed(1)}%)
+          </Typography>
+        </Box>
+      )}
+
+      {roundRobin && (
+        <>
+          <Box className="flex flex-wrap gap-6">
+            <Typography variant="body2">
+              Parlays: <strong>{roundRobin.parlays.length}</strong>
+              {roundRobin.skippedParlays > 0 && ` (${roundRobin.skippedParlays} skipped with conflicting legs)`}
+            </Typography>
+            <Typography variant="body2">Total stake: {formatMoney(roundRobin.totalStake)}</Typography>
+            <Typography variant="body2">Max payout: {formatMoney(roundRobin.maxPayout)}</Typography>
+            <Typography variant="body2" color={roundRobin.totalExpectedValue >= 0 ? 'success.main' : 'error.main'}>
+              Total EV: {formatMoney(roundRobin.totalExpectedValue)} ({roundRobin.roiPercentage >= 0 ? '+' : ''}{roundRobin.roiPercentage.toFixed(1)}%)
+            </Typography>
+          </Box>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Legs</TableCell>
+                <TableCell align="right">Odds</TableCell>
+                <TableCell align="right">True Prob.</TableCell>
+                <TableCell align="right">Payout</TableCell>
+                <TableCell align="right">EV</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {roundRobin.parlays.slice(0, MAX_DISPLAYED_PARLAYS).map((combination) => (
+                <TableRow key={combination.legs.map(leg => leg.id).join(',')}>
+                  <TableCell>{combination.legs.map(formatLeg).join(' + ')}</TableCell>
+                  <TableCell align="right">{formatAmericanOdds(Math.round(combination.americanOdds), oddsFormat)}</TableCell>
+                  <TableCell align="right">{formatPercent(combination.trueProbability)}</TableCell>
+                  <TableCell align="right">{formatMoney(combination.payout)}</TableCell>
+                  <TableCell align="right">{formatMoney(combination.expectedValue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {roundRobin.parlays.length > MAX_DISPLAYED_PARLAYS && (
+            <Typography variant="body2" color="text.secondary">
+              Showing {MAX_DISPLAYED_PARLAYS} of {roundRobin.parlays.length} parlays; totals cover all of them.
+            </Typography>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ParlayCalculator;
@@ -0,0 +1,263 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useState, useMemo, useEffect } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import {
+  PropEVData,
+  FANTASY_PLATFORMS,
+  DFS_ENTRY_TYPE_LABELS,
+  formatEVPercentage,
+  formatHitRate,
+  getEVColor,
+  getPropsPlatform
+} from '../../utils/evCalculations';
+import {
+  DFSEntryResult,
+  EntryCorrelationComparison,
+  buildCorrelationMatrix,
+  compareEntryCorrelation,
+  getSupportedLegCounts
+} from '../../utils/dfsEntry';
+import { hasCorrelation } from '../../utils/correlation';
+import { DFSEntryType } from '../../services/api';
+import { dataAutomationClient } from '../../services/dataAutomationClient';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface DFSEntryCalculatorProps {
+  legs: PropEVData[];
+  onClear: () => void;
+}
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const DFSEntryCalculator: React.FC<DFSEntryCalculatorProps> = ({ legs, onClear }) => {
+  /* ++++++++++ STATE ++++++++++ */
+  const [platform, setPlatform] = useState<string>(() => getPropsPlatform(legs));
+  const [entryType, setEntryType] = useState<DFSEntryType>('power');
+  const [stake, setStake] = useState<number>(10);
+  const [voidedLegIds, setVoidedLegIds] = useState<string[]>([]);
+
+  // Drop voids for legs that left the entry so they cannot carry over to legs added later
+  useEffect(() => {
+    setVoidedLegIds(prev => {
+      const kept = prev.filter(id => legs.some(leg => leg.id === id));
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [legs]);
+
+  // Price the entry on the platform its legs are quoted on
+  const legsPlatform = getPropsPlatform(legs);
+  useEffect(() => {
+    setPlatform(legsPlatform);
+    const available = FANTASY_PLATFORMS.find(p => p.key === legsPlatform)?.entryTypes ?? ['power'];
+    setEntryType(prev => available.includes(prev) ? prev : 'power');
+  }, [legsPlatform]);
+
+  const platformConfig = FANTASY_PLATFORMS.find(p => p.key === platform);
+  const entryTypes = platformConfig?.entryTypes ?? ['power'];
+
+  /* ++++++++++ EVENT HANDLERS ++++++++++ */
+  const handlePlatformChange = (value: string) => {
+    setPlatform(value);
+    const available = FANTASY_PLATFORMS.find(p => p.key === value)?.entryTypes ?? ['power'];
+    if (!available.includes(entryType)) {
+      setEntryType('power');
+    }
+  };
+
+  const toggleVoided = (legId: string) => {
+    setVoidedLegIds(prev => prev.includes(legId) ? prev.filter(id => id !== legId) : [...prev, legId]);
+  };
+
+  /* ++++++++++ ENTRY EV ++++++++++ */
+  // Without loaded estimates the correlated column would only repeat the independent one
+  const correlationsLoaded = dataAutomationClient.hasLegCorrelations();
+
+  const correlationMatrix = useMemo(() => {
+    return buildCorrelationMatrix(legs, (legA, legB) => dataAutomationClient.getLegCorrelation(legA, legB));
+  }, [legs]);
+
+  const { comparison, error } = useMemo((): { comparison?: EntryCorrelationComparison; error?: string } => {
+    if (legs.length < 2) {
+      return { error: 'Select at least two props to build an entry' };
+    }
+    try {
+      return {
+        comparison: compareEntryCorrelation(legs, correlationMatrix, { platform, entryType, stake, voidedLegIds })
+      };
+    } catch (err) {
+      const supported = getSupportedLegCounts(platform, entryType).join(', ');
+      return { error: `${(err as Error).message} (supported: ${supported} legs)` };
+    }
+  }, [legs, correlationMatrix, platform, entryType, stake, voidedLegIds]);
+
+  const result = comparison?.correlated;
+
+  const summaryRows: { label: string; render: (entry: DFSEntryResult) => React.ReactNode }[] = [
+    {
+      label: 'Entry ROI',
+      render: (entry) => (
+        <Chip
+          label={formatEVPercentage(entry.roiPercentage)}
+          size="small"
+          sx={{ backgroundColor: getEVColor(entry.roiPercentage), color: 'white', fontWeight: 'bold' }}
+        />
+      )
+    },
+    {
+      label: 'Expected Value',
+      render: (entry) => `${entry.expectedValue >= 0 ? '+' : '-'}$${Math.abs(entry.expectedValue).toFixed(2)}`
+    },
+    {
+      label: 'Expected Payout',
+      render: (entry) => `$${(entry.expectedPayout * stake).toFixed(2)}`
+    },
+    {
+      label: 'Chance of Profit',
+      render: (entry) => formatHitRate(entry.probabilityOfProfit)
+    }
+  ];
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <Box className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <Box className="flex justify-between items-center">
+        <Typography variant="h6" fontWeight="bold">
+          Entry Calculator ({legs.length} {legs.length === 1 ? 'leg' : 'legs'})
+        </Typography>
+        <Box className="flex gap-2">
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Entry Platform</InputLabel>
+            <Select
+              value={platform}
+              label="Entry Platform"
+              onChange={(e) => handlePlatformChange(e.target.value)}
+            >
+              {FANTASY_PLATFORMS.map((option) => (
+                <MenuItem key={option.key} value={option.key}>
+                  {option.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel>Entry Type</InputLabel>
+            <Select
+              value={entryType}
+              label="Entry Type"
+              onChange={(e) => setEntryType(e.target.value as DFSEntryType)}
+            >
+              {entryTypes.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {DFS_ENTRY_TYPE_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="Stake ($)"
+            type="number"
+            value={stake}
+            onChange={(e) => setStake(Math.max(0, parseFloat(e.target.value) || 0))}
+            size="small"
+            sx={{ width: 110 }}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          <Button variant="outlined" size="small" onClick={onClear}>
+            Clear
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Legs - click a leg to mark it voided */}
+      <Box className="flex flex-wrap gap-2">
+        {legs.map((leg) => {
+          const voided = voidedLegIds.includes(leg.id);
+          return (
+            <Chip
+              key={leg.id}
+              label={`${leg.playerName} ${leg.line || ''} (${formatHitRate(leg.hitRate)})${voided ? ' - void' : ''}`}
+              size="small"
+              variant={voided ? 'outlined' : 'filled'}
+              onClick={() => toggleVoided(leg.id)}
+              sx={voided ? { textDecoration: 'line-through' } : undefined}
+            />
+          );
+        })}
+      </Box>
+
+      {error && (
+        <Typography variant="body2" color="text.secondary">
+          {error}
+        </Typography>
+      )}
+
+      {result && (
+        <>
+          <Table size="small" sx={{ maxWidth: 520 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                <TableCell>Independent</TableCell>
+                {correlationsLoaded && <TableCell>Correlated</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {summaryRows.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell>{row.render(comparison!.independent)}</TableCell>
+                  {correlationsLoaded && <TableCell>{row.render(comparison!.correlated)}</TableCell>}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Typography variant="body2" color="text.secondary">
+            Break-even per leg: {formatHitRate(result.breakEvenLegProbability)}
+            {correlationsLoaded && !hasCorrelation(correlationMatrix) && ' · No same-game correlation history for these legs'}
+          </Typography>
+
+          {result.pushDistribution[0] < 1 && (
+            <Typography variant="body2" color="text.secondary">
+              Chance of at least one push: {formatHitRate(1 - result.pushDistribution[0])} · A pushed leg is removed and the entry pays at the smaller size
+            </Typography>
+          )}
+
+          <Box className="flex flex-wrap gap-2">
+            {result.hitDistribution.map((probability, hits) => (
+              <Chip
+                key={hits}
+                label={`${hits}/${result.legCount - result.voidedLegs} hit: ${formatHitRate(probability)}${
+                  result.payoutTable[hits] > 0 ? ` → ${result.payoutTable[hits]}x` : ''
+                }`}
+                size="small"
+                variant={result.payoutTable[hits] > 0 ? 'filled' : 'outlined'}
+                color={result.payoutTable[hits] > 1 ? 'success' : 'default'}
+              />
+            ))}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default DFSEntryCalculator;
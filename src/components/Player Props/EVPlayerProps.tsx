@@ -8,6 +8,7 @@ import {
   DataGrid, 
   GridColDef, 
   GridRenderCellParams,
+  GridRowSelectionModel,
   GridSortModel 
 } from '@mui/x-data-grid';
 import { 
@@ -28,25 +29,41 @@ import {
 import { SelectChangeEvent } from '@mui/material/Select';
 
 /* ++++++++++ SERVICES ++++++++++ */
-import { DFS_PLATFORMS } from '../../services/api';
+import { DFS_PLATFORMS, DFSEntryType, getAltLineType, getLegPayoutModifier } from '../../services/api';
 import { useUserAwareApi } from '../../hooks/useUserAwareApi';
 import { useAuth } from '../../authorization/AuthContext';
+import { useOddsFormat } from '../../hooks/useOddsFormat';
 
 /* ++++++++++ UTILITIES ++++++++++ */
 import {
   PropEVData,
+  PropProbabilitySource,
   EVFilterOptions,
   calculatePropEVFromData,
   filterPropsByEV,
   sortPropsByEV,
   formatEVPercentage,
+  formatEdge,
   formatHitRate,
   formatImpliedProbability,
+  formatPayoutModifier,
+  getOutcomeProbabilities,
+  DFS_ENTRY_TYPE_LABELS,
+  PROP_PROBABILITY_SOURCE_LABELS,
   getEVColor,
   getConfidenceColor,
   FANTASY_PLATFORMS
 } from '../../utils/evCalculations';
+import { formatAmericanOdds } from '../../utils/oddsConversion';
+import { DevigMethod, DEFAULT_DEVIG_METHOD, DEVIG_METHODS } from '../../utils/devig';
+import { HitRateSource, HIT_RATE_SOURCE_LABELS } from '../../utils/recencyWeighting';
+import { getLegSide } from '../../utils/correlation';
 import { dataAutomationClient } from '../../services/dataAutomationClient';
+import { PropFairValueService } from '../../services/propFairValue';
+import { PerformanceAnalyticsService } from '../../services/performanceAnalyticsClient';
+import OddsFormatSelector from '../OddsFormat/OddsFormatSelector';
+import DFSEntryCalculator from './DFSEntryCalculator';
+import SlipBuilder from './SlipBuilder';
 
 /* ++++++++++ TYPES ++++++++++ */
 interface EVPlayerPropsProps {
@@ -61,6 +78,8 @@ interface DFSOutcome {
   description: string;
   price: number;
   point?: number;
+  multiplier?: number; // Per-pick payout multiplier, when the platform quotes one
+  team?: string; // Player's team, when the feed quotes it
 }
 
 interface DFSMarket {
@@ -101,6 +120,7 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
   /* ++++++++++ HOOKS ++++++++++ */
   const { user } = useAuth();
   const { fetchDFSProps } = useUserAwareApi();
+  const { oddsFormat } = useOddsFormat();
   /* ++++++++++ STATE ++++++++++ */
   const [filters, setFilters] = useState<Partial<EVFilterOptions>>({
     minEV: 0,
@@ -112,7 +132,14 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
     { field: 'evPercentage', sort: 'desc' }
   ]);
   const [legCount, setLegCount] = useState<number>(3);
+  const [entryType, setEntryType] = useState<DFSEntryType>('power');
+  const [hitRateSource, setHitRateSource] = useState<HitRateSource>('flat');
+  const [probabilitySource, setProbabilitySource] = useState<PropProbabilitySource>('market');
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>(DEFAULT_DEVIG_METHOD);
   const [autoRefresh, setAutoRefresh] = useState<boolean>(false);
+  const [selectedLegIds, setSelectedLegIds] = useState<GridRowSelectionModel>([]);
+  const [isTracking, setIsTracking] = useState<boolean>(false);
+  const [trackStatus, setTrackStatus] = useState<string | null>(null);
 
   /* ++++++++++ DATA FETCHING ++++++++++ */
   const { data: dfsData, isLoading, refetch } = useQuery({
@@ -134,22 +161,53 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
     const props: PropEVData[] = [];
     const processedSet = new Set<string>();
 
+    // Sportsbook consensus for every player and line quoted on both sides
+    const fairValues = PropFairValueService.buildFairValues(dfsData.bookmakers as DFSBookmaker[], { devigMethod });
+
     for (const bookmaker of dfsData.bookmakers as DFSBookmaker[]) {
       for (const market of bookmaker.markets) {
         for (const outcome of market.outcomes) {
-          const key = `${outcome.description}-${market.key}-${bookmaker.key}-${outcome.point || 0}`;
+          const key = `${outcome.description}-${market.key}-${bookmaker.key}-${outcome.point || 0}-${outcome.name}`;
           
           if (!processedSet.has(key)) {
             processedSet.add(key);
             
             try {
-              // Get hit rate from data automation client
-              const hitRate = dataAutomationClient.getHitRate(
+              // Get hit rate from data automation client. It is P(over | no push), and the
+              // Under takes the rest, 1 - P(over) - P(push) of all results
+              const overHitRate = dataAutomationClient.getHitRate(
+                outcome.description,
+                market.key,
+                outcome.point || 0,
+                hitRateSource
+              );
+              const hitRate = getLegSide(outcome.name) === 'under' ? 1 - overHitRate : overHitRate;
+              const pushProbability = dataAutomationClient.getPushProbability(
                 outcome.description,
                 market.key,
                 outcome.point || 0
               );
+              // Scored from the hit rate's credible interval, so thin samples read as low confidence
+              const confidence = dataAutomationClient.getHitRateConfidence(
+                outcome.description,
+                market.key,
+                outcome.point || 0,
+                hitRateSource
+              );
               
+              // Other side of the same player/line, used to devig the market price
+              const opposingOutcome = market.outcomes.find(o =>
+                o !== outcome && o.description === outcome.description && o.point === outcome.point
+              );
+
+              const marketFair = PropFairValueService.getFairProbability(
+                fairValues,
+                outcome.description,
+                market.key,
+                outcome.point || 0,
+                outcome.name
+              );
+
               // Create base prop with hit rate
               const baseProp: PropEVData = {
                 id: key,
@@ -157,22 +215,36 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
                 propType: market.key,
                 line: outcome.point || 0,
                 odds: outcome.price,
+                opposingOdds: opposingOutcome?.price,
+                fairProbability: marketFair?.probability,
+                fairBookCount: marketFair?.bookCount,
                 platform: bookmaker.key,
+                gameId: matchId,
+                commenceTime: dfsData.commence_time,
+                selection: outcome.name,
+                team: outcome.team,
+                altLineType: getAltLineType(market.key, outcome.multiplier),
+                payoutModifier: getLegPayoutModifier(market.key, outcome.multiplier),
                 hitRate,
+                pushProbability,
                 impliedProbability: 0,
                 evPercentage: 0,
                 isPositiveEV: false,
-                confidence: 'low' as const
+                confidence
               };
               
               // Calculate EV and other metrics
-              const evData = calculatePropEVFromData(baseProp, legCount);
+              const evData = calculatePropEVFromData(baseProp, legCount, devigMethod, entryType, probabilitySource);
               
               const prop: PropEVData = {
                 ...baseProp,
+                impliedProbability: evData.impliedProbability,
+                fairProbability: evData.fairProbability,
+                marketEdge: evData.marketEdge,
+                edge: evData.edge,
+                expectedProfit: evData.expectedProfit,
                 evPercentage: evData.evPercentage,
-                isPositiveEV: evData.isPositiveEV,
-                confidence: evData.confidence
+                isPositiveEV: evData.isPositiveEV
               };
               
               props.push(prop);
@@ -185,7 +257,7 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
     }
 
     return props;
-  }, [dfsData, legCount]);
+  }, [dfsData, legCount, entryType, hitRateSource, probabilitySource, devigMethod, matchId]);
 
   /* ++++++++++ FILTERED AND SORTED DATA ++++++++++ */
   const filteredAndSortedProps = useMemo(() => {
@@ -205,6 +277,11 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
     }));
   }, [filteredAndSortedProps]);
 
+  /* ++++++++++ ENTRY LEGS ++++++++++ */
+  const selectedLegs = useMemo(() => {
+    return processedProps.filter(prop => selectedLegIds.includes(prop.id));
+  }, [processedProps, selectedLegIds]);
+
   /* ++++++++++ GRID COLUMNS ++++++++++ */
   const columns: GridColDef[] = [
     {
@@ -227,6 +304,26 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
         </Typography>
       ),
     },
+    {
+      field: 'altLineType',
+      headerName: 'Line Type',
+      width: 130,
+      renderCell: (params: GridRenderCellParams) => {
+        if (!params.value || params.value === 'standard') {
+          return <Typography variant="body2" color="text.secondary">Standard</Typography>;
+        }
+        // Alt lines that still beat their (modified) break-even are the ones worth a look
+        const hasEdge = (params.row.edge ?? 0) > 0;
+        return (
+          <Chip
+            label={`${params.value.charAt(0).toUpperCase()}${params.value.slice(1)} ${formatPayoutModifier(params.row.payoutModifier ?? 1)}`}
+            size="small"
+            color={hasEdge ? 'success' : 'default'}
+            variant={hasEdge ? 'filled' : 'outlined'}
+          />
+        );
+      },
+    },
     {
       field: 'evPercentage',
       headerName: 'EV%',
@@ -244,6 +341,20 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
         />
       ),
     },
+    {
+      field: 'edge',
+      headerName: 'Edge',
+      width: 100,
+      type: 'number',
+      renderCell: (params: GridRenderCellParams) => (
+        <Typography 
+          variant="body2"
+          color={params.value > 0 ? 'success.main' : 'error.main'}
+        >
+          {params.value !== undefined ? formatEdge(params.value) : '-'}
+        </Typography>
+      ),
+    },
     {
       field: 'hitRate',
       headerName: 'Hit Rate',
@@ -259,9 +370,47 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
         </Typography>
       ),
     },
+    {
+      field: 'pushProbability',
+      headerName: 'Win / Push / Lose',
+      width: 170,
+      renderCell: (params: GridRenderCellParams) => {
+        // Only whole-number lines can push; half-point lines show two outcomes
+        const { win, push, loss } = getOutcomeProbabilities(params.row);
+        return (
+          <Typography variant="body2" color="text.secondary">
+            {push > 0
+              ? `${formatHitRate(win)} / ${formatHitRate(push)} / ${formatHitRate(loss)}`
+              : `${formatHitRate(win)} / ${formatHitRate(loss)}`}
+          </Typography>
+        );
+      },
+    },
+    {
+      field: 'marketEdge',
+      headerName: 'Market Fair',
+      width: 130,
+      type: 'number',
+      renderCell: (params: GridRenderCellParams) => {
+        // Sportsbook no-vig probability against this leg's break-even
+        if (params.row.fairProbability === undefined) {
+          return <Typography variant="body2" color="text.secondary">-</Typography>;
+        }
+        return (
+          <Box>
+            <Typography variant="body2" color={params.value > 0 ? 'success.main' : 'error.main'}>
+              {formatHitRate(params.row.fairProbability)} ({formatEdge(params.value)})
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {params.row.fairBookCount ? `${params.row.fairBookCount} book${params.row.fairBookCount === 1 ? '' : 's'}` : 'This quote'}
+            </Typography>
+          </Box>
+        );
+      },
+    },
     {
       field: 'impliedProbability',
-      headerName: 'Implied Prob',
+      headerName: 'Break-even',
       width: 120,
       type: 'number',
       renderCell: (params: GridRenderCellParams) => (
@@ -306,7 +455,7 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
       type: 'number',
       renderCell: (params: GridRenderCellParams) => (
         <Typography variant="body2" fontFamily="monospace">
-          {params.value > 0 ? `+${params.value}` : params.value}
+          {formatAmericanOdds(params.value, oddsFormat)}
         </Typography>
       ),
     }
@@ -326,6 +475,39 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
     refetch();
   };
 
+  // Records the selected legs as bets, with what captureClosingLines needs to grade their CLV
+  const handleTrackBets = async () => {
+    if (!user) return;
+    const trackable = selectedLegs.filter(leg => leg.gameId && leg.selection && leg.commenceTime);
+
+    setIsTracking(true);
+    setTrackStatus(null);
+    try {
+      const analytics = PerformanceAnalyticsService.getInstance();
+      await Promise.all(trackable.map(leg => analytics.recordBet(user.id, {
+        playerName: leg.playerName,
+        propType: leg.propType,
+        line: leg.line,
+        odds: leg.odds,
+        platform: leg.platform,
+        sport: sportKey,
+        gameId: leg.gameId!,
+        selection: leg.selection!,
+        commenceTime: leg.commenceTime!,
+        predictedEv: leg.expectedProfit ?? 0,
+        confidence: leg.confidence
+      })));
+      const skipped = selectedLegs.length - trackable.length;
+      setTrackStatus(`Tracking ${trackable.length} ${trackable.length === 1 ? 'bet' : 'bets'}${
+        skipped > 0 ? `; ${skipped} skipped with no event start time` : ''
+      }`);
+    } catch (err) {
+      setTrackStatus(`Failed to track bets: ${(err as Error).message}`);
+    } finally {
+      setIsTracking(false);
+    }
+  };
+
   /* ++++++++++ LOADING STATE ++++++++++ */
   if (!matchId) {
     return (
@@ -385,6 +567,14 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
             >
               Refresh Data
             </Button>
+            <Button
+              variant="outlined"
+              onClick={handleTrackBets}
+              size="small"
+              disabled={selectedLegs.length === 0 || isTracking}
+            >
+              {isTracking ? 'Tracking...' : `Track Selected (${selectedLegs.length})`}
+            </Button>
             <FormControlLabel
               control={
                 <Switch
@@ -395,11 +585,18 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
               }
               label="Auto Refresh"
             />
+            <OddsFormatSelector />
           </Box>
         </Box>
 
+        {trackStatus && (
+          <Typography variant="body2" color="text.secondary">
+            {trackStatus}
+          </Typography>
+        )}
+
         {/* Filters */}
-        <Box className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
+        <Box className="grid grid-cols-1 md:grid-cols-7 gap-4 p-4 bg-gray-50 rounded-lg">
           <TextField
             label="Min EV%"
             type="number"
@@ -451,12 +648,72 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
             onChange={(e) => setLegCount(parseInt(e.target.value) || 3)}
             size="small"
             inputProps={{ min: 2, max: 6 }}
-            helperText="For platform multipliers"
+            helperText="For per-prop EV; tick props to price a full entry"
           />
+
+          <FormControl size="small">
+            <InputLabel>Entry Type</InputLabel>
+            <Select
+              value={entryType}
+              label="Entry Type"
+              onChange={(e) => setEntryType(e.target.value as DFSEntryType)}
+            >
+              {(Object.keys(DFS_ENTRY_TYPE_LABELS) as DFSEntryType[]).map((type) => (
+                <MenuItem key={type} value={type}>
+                  {DFS_ENTRY_TYPE_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small">
+            <InputLabel>Hit Rate</InputLabel>
+            <Select
+              value={hitRateSource}
+              label="Hit Rate"
+              onChange={(e) => setHitRateSource(e.target.value as HitRateSource)}
+            >
+              {(Object.keys(HIT_RATE_SOURCE_LABELS) as HitRateSource[]).map((source) => (
+                <MenuItem key={source} value={source}>
+                  {HIT_RATE_SOURCE_LABELS[source]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small">
+            <InputLabel>Price With</InputLabel>
+            <Select
+              value={probabilitySource}
+              label="Price With"
+              onChange={(e) => setProbabilitySource(e.target.value as PropProbabilitySource)}
+            >
+              {(Object.keys(PROP_PROBABILITY_SOURCE_LABELS) as PropProbabilitySource[]).map((source) => (
+                <MenuItem key={source} value={source}>
+                  {PROP_PROBABILITY_SOURCE_LABELS[source]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small">
+            <InputLabel>Devig Method</InputLabel>
+            <Select
+              value={devigMethod}
+              label="Devig Method"
+              onChange={(e) => setDevigMethod(e.target.value as DevigMethod)}
+            >
+              {DEVIG_METHODS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
         </Box>
 
         {/* Summary Stats */}
-        <Box className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Box className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <Box className="bg-green-50 p-4 rounded-lg">
             <Typography variant="h6" color="success.main">
               {filteredAndSortedProps.filter(p => p.isPositiveEV).length}
@@ -481,6 +738,14 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
               High Confidence
             </Typography>
           </Box>
+          <Box className="bg-green-50 p-4 rounded-lg">
+            <Typography variant="h6" color="success.main">
+              {filteredAndSortedProps.filter(p => p.altLineType && p.altLineType !== 'standard' && (p.edge ?? 0) > 0).length}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Alt Lines with Edge
+            </Typography>
+          </Box>
           <Box className="bg-purple-50 p-4 rounded-lg">
             <Typography variant="h6" color="secondary.main">
               {Math.max(...filteredAndSortedProps.map(p => p.evPercentage), 0).toFixed(1)}%
@@ -491,6 +756,20 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
           </Box>
         </Box>
 
+        {/* Slip Builder */}
+        <SlipBuilder
+          pool={filteredAndSortedProps}
+          onUseSlip={setSelectedLegIds}
+        />
+
+        {/* Entry Calculator */}
+        {selectedLegs.length > 0 && (
+          <DFSEntryCalculator
+            legs={selectedLegs}
+            onClear={() => setSelectedLegIds([])}
+          />
+        )}
+
         {/* Data Grid */}
         <Box style={{ height: 600, width: '100%' }}>
           <DataGrid
@@ -502,6 +781,10 @@ const EVPlayerProps: React.FC<EVPlayerPropsProps> = ({
             initialState={{
               pagination: { paginationModel: { pageSize: 25 } },
             }}
+            checkboxSelection
+            rowSelectionModel={selectedLegIds}
+            onRowSelectionModelChange={setSelectedLegIds}
+            keepNonExistentRowsSelected
             disableRowSelectionOnClick
             sx={{
               '& .MuiDataGrid-row:hover': {
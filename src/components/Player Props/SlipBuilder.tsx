@@ -0,0 +1,220 @@
+/* ++++++++++ IMPORTS ++++++++++ */
+import React, { useEffect, useState } from 'react';
+
+/* ++++++++++ MATERIAL-UI ++++++++++ */
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+
+/* ++++++++++ UTILITIES ++++++++++ */
+import {
+  PropEVData,
+  FANTASY_PLATFORMS,
+  DFS_ENTRY_TYPE_LABELS,
+  formatEVPercentage,
+  formatHitRate,
+  getEVColor,
+  getPropsPlatform
+} from '../../utils/evCalculations';
+import { RankedSlip, SlipObjective, buildOptimalSlips, getTeamRuleShortfall } from '../../utils/slipBuilder';
+import { DFSEntryType } from '../../services/api';
+import { dataAutomationClient } from '../../services/dataAutomationClient';
+
+/* ++++++++++ TYPES ++++++++++ */
+interface SlipBuilderProps {
+  pool: PropEVData[];
+  onUseSlip: (legIds: string[]) => void;
+}
+
+/* ++++++++++ COMPONENT ++++++++++ */
+const SlipBuilder: React.FC<SlipBuilderProps> = ({ pool, onUseSlip }) => {
+  /* ++++++++++ STATE ++++++++++ */
+  const [platform, setPlatform] = useState<string>(() => getPropsPlatform(pool));
+  const [entryType, setEntryType] = useState<DFSEntryType>('power');
+  const [objective, setObjective] = useState<SlipObjective>('ev');
+  const [minLegs, setMinLegs] = useState<number>(2);
+  const [maxLegs, setMaxLegs] = useState<number>(6);
+  const [maxLegsPerGame, setMaxLegsPerGame] = useState<number | null>(null);
+  const [mustIncludePlayers, setMustIncludePlayers] = useState<string[]>([]);
+  const [slips, setSlips] = useState<RankedSlip[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the platform the props are on once they load or change
+  const poolPlatform = getPropsPlatform(pool);
+  useEffect(() => {
+    setPlatform(poolPlatform);
+    const available = FANTASY_PLATFORMS.find(p => p.key === poolPlatform)?.entryTypes ?? ['power'];
+    setEntryType(prev => available.includes(prev) ? prev : 'power');
+  }, [poolPlatform]);
+
+  const entryTypes = FANTASY_PLATFORMS.find(p => p.key === platform)?.entryTypes ?? ['power'];
+  const platformPool = pool.filter(prop => prop.platform === platform);
+  const playerNames = [...new Set(platformPool.map(prop => prop.playerName))].sort();
+  const teamRuleShortfall = getTeamRuleShortfall(pool, platform);
+
+  /* ++++++++++ EVENT HANDLERS ++++++++++ */
+  const handlePlatformChange = (value: string) => {
+    setPlatform(value);
+    const available = FANTASY_PLATFORMS.find(p => p.key === value)?.entryTypes ?? ['power'];
+    if (!available.includes(entryType)) {
+      setEntryType('power');
+    }
+  };
+
+  const handleBuild = () => {
+    try {
+      const built = buildOptimalSlips(pool, {
+        platform,
+        entryType,
+        objective,
+        minLegs,
+        maxLegs,
+        maxLegsPerGame,
+        mustIncludePlayers,
+        getCorrelation: (legA, legB) => dataAutomationClient.getLegCorrelation(legA, legB)
+      });
+      setSlips(built);
+      setError(built.length > 0 ? null : teamRuleShortfall ?? 'No slip meets the platform rules');
+    } catch (err) {
+      setSlips([]);
+      setError((err as Error).message);
+    }
+  };
+
+  /* ++++++++++ RENDER ++++++++++ */
+  return (
+    <Box className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <Typography variant="h6" fontWeight="bold">
+        Slip Builder
+      </Typography>
+
+      <Box className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <FormControl size="small">
+          <InputLabel>Platform</InputLabel>
+          <Select value={platform} label="Platform" onChange={(e) => handlePlatformChange(e.target.value)}>
+            {FANTASY_PLATFORMS.map((option) => (
+              <MenuItem key={option.key} value={option.key}>
+                {option.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small">
+          <InputLabel>Entry Type</InputLabel>
+          <Select value={entryType} label="Entry Type" onChange={(e) => setEntryType(e.target.value as DFSEntryType)}>
+            {entryTypes.map((type) => (
+              <MenuItem key={type} value={type}>
+                {DFS_ENTRY_TYPE_LABELS[type]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small">
+          <InputLabel>Optimise For</InputLabel>
+          <Select value={objective} label="Optimise For" onChange={(e) => setObjective(e.target.value as SlipObjective)}>
+            <MenuItem value="ev">Expected Value</MenuItem>
+            <MenuItem value="probabilityOfProfit">Chance of Profit</MenuItem>
+          </Select>
+        </FormControl>
+        <Box className="flex gap-2">
+          <TextField
+            label="Min Legs"
+            type="number"
+            value={minLegs}
+            onChange={(e) => setMinLegs(parseInt(e.target.value) || 2)}
+            size="small"
+            inputProps={{ min: 2, max: 6 }}
+          />
+          <TextField
+            label="Max Legs"
+            type="number"
+            value={maxLegs}
+            onChange={(e) => setMaxLegs(parseInt(e.target.value) || 6)}
+            size="small"
+            inputProps={{ min: 2, max: 6 }}
+          />
+        </Box>
+        <TextField
+          label="Max Legs per Game"
+          type="number"
+          value={maxLegsPerGame ?? ''}
+          onChange={(e) => setMaxLegsPerGame(e.target.value ? parseInt(e.target.value) : null)}
+          size="small"
+          inputProps={{ min: 1 }}
+          helperText="Leave empty for no limit"
+        />
+        <Autocomplete
+          multiple
+          size="small"
+          options={playerNames}
+          value={mustIncludePlayers}
+          onChange={(_, value) => setMustIncludePlayers(value)}
+          renderInput={(params) => <TextField {...params} label="Must Include Players" />}
+          className="md:col-span-2"
+        />
+        <Button variant="contained" onClick={handleBuild} disabled={platformPool.length < 2}>
+          Build Slips
+        </Button>
+      </Box>
+
+      {teamRuleShortfall && !error && (
+        <Typography variant="body2" color="text.secondary">
+          {teamRuleShortfall}
+        </Typography>
+      )}
+
+      {error && (
+        <Typography variant="body2" color="error">
+          {error}
+        </Typography>
+      )}
+
+      {slips.map((slip) => (
+        <Box key={slip.rank} className="p-3 bg-white rounded-lg space-y-2">
+          <Box className="flex justify-between items-center">
+            <Box className="flex items-center gap-2">
+              <Typography variant="body1" fontWeight="bold">#{slip.rank}</Typography>
+              <Chip
+                label={formatEVPercentage(slip.result.roiPercentage)}
+                size="small"
+                sx={{ backgroundColor: getEVColor(slip.result.roiPercentage), color: 'white', fontWeight: 'bold' }}
+              />
+              <Typography variant="body2" color="text.secondary">
+                Chance of profit {formatHitRate(slip.result.probabilityOfProfit)}
+                {slip.correlatedResult?.correlated &&
+                  ` · Correlated ${formatEVPercentage(slip.correlatedResult.roiPercentage)}`}
+              </Typography>
+            </Box>
+            <Button size="small" onClick={() => onUseSlip(slip.legs.map(leg => leg.id))}>
+              Open in Calculator
+            </Button>
+          </Box>
+          <Box className="flex flex-wrap gap-2">
+            {slip.legs.map((leg) => (
+              <Chip
+                key={leg.id}
+                label={`${leg.playerName} ${leg.propType.replace('player_', '').replace('_', ' ')} ${leg.line || ''} (${formatHitRate(leg.hitRate)})`}
+                size="small"
+                variant="outlined"
+              />
+            ))}
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            Hits: {slip.result.hitDistribution.map((probability, hits) => `${hits} ${formatHitRate(probability)}`).join(' · ')}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default SlipBuilder;
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'oddsly_my_books';
+const CHANGE_EVENT = 'oddsly-my-books-change';
+
+const getStoredBooks = (): string[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Custom hook that keeps the books the user has accounts with in sync across components
+export const useMyBooks = () => {
+  const [myBooks, setMyBooksState] = useState<string[]>(getStoredBooks);
+
+  useEffect(() => {
+    const syncMyBooks = () => setMyBooksState(getStoredBooks());
+
+    window.addEventListener(CHANGE_EVENT, syncMyBooks);
+    window.addEventListener('storage', syncMyBooks);
+
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, syncMyBooks);
+      window.removeEventListener('storage', syncMyBooks);
+    };
+  }, []);
+
+  const setMyBooks = useCallback((books: string[]) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(books));
+    } catch (error) {
+      console.warn('Failed to save my books:', error);
+    }
+    setMyBooksState(books);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  const toggleMyBook = useCallback((bookmakerKey: string) => {
+    const current = getStoredBooks();
+    setMyBooks(current.includes(bookmakerKey)
+      ? current.filter(key => key !== bookmakerKey)
+      : [...current, bookmakerKey]);
+  }, [setMyBooks]);
+
+  return { myBooks, setMyBooks, toggleMyBook };
+};
+
+export default useMyBooks;
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { OddsFormat, DEFAULT_ODDS_FORMAT, isOddsFormat } from '../utils/oddsConversion';
+
+const STORAGE_KEY = 'oddsly_odds_format';
+const CHANGE_EVENT = 'oddsly-odds-format-change';
+
+const getStoredOddsFormat = (): OddsFormat => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && isOddsFormat(stored) ? stored : DEFAULT_ODDS_FORMAT;
+  } catch {
+    return DEFAULT_ODDS_FORMAT;
+  }
+};
+
+// Custom hook that keeps the user's preferred odds format in sync across components
+export const useOddsFormat = () => {
+  const [oddsFormat, setOddsFormatState] = useState<OddsFormat>(getStoredOddsFormat);
+
+  useEffect(() => {
+    const syncOddsFormat = () => setOddsFormatState(getStoredOddsFormat());
+
+    window.addEventListener(CHANGE_EVENT, syncOddsFormat);
+    window.addEventListener('storage', syncOddsFormat);
+
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, syncOddsFormat);
+      window.removeEventListener('storage', syncOddsFormat);
+    };
+  }, []);
+
+  const setOddsFormat = useCallback((format: OddsFormat) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, format);
+    } catch (error) {
+      console.warn('Failed to save odds format:', error);
+    }
+    setOddsFormatState(format);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return { oddsFormat, setOddsFormat };
+};
+
+export default useOddsFormat;
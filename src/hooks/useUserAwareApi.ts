@@ -1,6 +1,7 @@
 import { useCallback } from 'react';
 import { useAuth } from '../authorization/AuthContext';
 import UserAwareApiService from '../services/userAwareApi';
+import { HoldAnalyticsService } from '../services/holdAnalytics';
 
 // Custom hook that provides user-aware API functions
 export const useUserAwareApi = () => {
@@ -44,6 +45,9 @@ export const useUserAwareApi = () => {
       user?.oddsApiKey,
       user?.apiKeyActive
     );
+
+    // Every fetch feeds the per-book hold history
+    HoldAnalyticsService.record(result);
     
     // Track usage if using personal key
     if (user?.apiKeyActive && user?.oddsApiKey && user?.id) {
@@ -66,6 +70,8 @@ export const useUserAwareApi = () => {
       user?.oddsApiKey,
       user?.apiKeyActive
     );
+
+    HoldAnalyticsService.record(Array.isArray(result) ? result : [result]);
     
     // Track usage if using personal key
     if (user?.apiKeyActive && user?.oddsApiKey && user?.id) {
@@ -103,6 +109,30 @@ export const useUserAwareApi = () => {
     return result;
   }, [user]);
 
+  // Fetch every requested market for one event with user's API key
+  const fetchEventOdds = useCallback(async (
+    sport: string,
+    eventId: string,
+    regions: string = 'us,us2',
+    markets: string[]
+  ) => {
+    const result = await UserAwareApiService.fetchEventOdds(
+      sport,
+      eventId,
+      regions,
+      markets,
+      user?.oddsApiKey,
+      user?.apiKeyActive
+    );
+    
+    // Track usage if using personal key
+    if (user?.apiKeyActive && user?.oddsApiKey && user?.id) {
+      await UserAwareApiService.trackApiUsage(user.id, user.oddsApiKey, user.apiKeyActive);
+    }
+    
+    return result;
+  }, [user]);
+
   // Validate user's API key
   const validateApiKey = useCallback(async (apiKey: string) => {
     return await UserAwareApiService.validateApiKey(apiKey);
@@ -117,6 +147,7 @@ export const useUserAwareApi = () => {
     fetchOdds,
     fetchPlayerProps,
     fetchDFSProps,
+    fetchEventOdds,
     validateApiKey,
     
     // Utility functions
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { americanToProbability } from '../utils/oddsConversion';
+import type { HitRateSource } from '../utils/recencyWeighting';
 
 const API_BASE_URL = 'https://api.the-odds-api.com/v4';
 const API_KEY = import.meta.env.VITE_ODDS_API_KEY;
@@ -15,29 +17,95 @@ const DFS_PLATFORMS = {
   PICK6: 'us_dfs.pick6'
 } as const;
 
-// Platform-specific payout multipliers for EV calculations
-const PLATFORM_MULTIPLIERS = {
+// DFS entry types: power pays only when every leg hits, flex and insured also pay on near misses
+type DFSEntryType = 'power' | 'flex' | 'insured';
+
+// Payout multiplier keyed by number of legs hit; hit counts not listed pay nothing
+type PayoutSchedule = Record<number, number>;
+
+interface PlatformPayoutSchema {
+  entries: Partial<Record<DFSEntryType, Record<number, PayoutSchedule>>>; // Entry type -> leg count -> schedule
+  voidFallback: Partial<Record<DFSEntryType, DFSEntryType>>; // Entry type used when a void shrinks an entry below the sizes its type offers
+  minLegs: number; // Entries that shrink below this many legs are refunded
+}
+
+// Payouts by legs hit for every entry type each platform offers
+const PLATFORM_PAYOUTS: Record<string, PlatformPayoutSchema> = {
   [DFS_PLATFORMS.PRIZEPICKS]: {
-    '2-leg': 3.0,
-    '3-leg': 5.0,
-    '4-leg': 10.0,
-    '5-leg': 20.0,
-    '6-leg': 50.0
+    entries: {
+      power: {
+        2: { 2: 3.0 },
+        3: { 3: 5.0 },
+        4: { 4: 10.0 },
+        5: { 5: 20.0 },
+        6: { 6: 50.0 }
+      },
+      flex: {
+        3: { 3: 2.25, 2: 1.25 },
+        4: { 4: 5.0, 3: 1.5 },
+        5: { 5: 10.0, 4: 2.0, 3: 0.4 },
+        6: { 6: 25.0, 5: 2.0, 4: 0.4 }
+      }
+    },
+    voidFallback: { flex: 'power' },
+    minLegs: 2
   },
   [DFS_PLATFORMS.UNDERDOG]: {
-    '2-leg': 3.0,
-    '3-leg': 6.0,
-    '4-leg': 12.0,
-    '5-leg': 25.0
+    entries: {
+      power: {
+        2: { 2: 3.0 },
+        3: { 3: 6.0 },
+        4: { 4: 12.0 },
+        5: { 5: 25.0 }
+      },
+      insured: {
+        3: { 3: 3.0, 2: 1.0 },
+        4: { 4: 6.0, 3: 1.5 },
+        5: { 5: 10.0, 4: 2.5 }
+      }
+    },
+    voidFallback: { insured: 'power' },
+    minLegs: 2
   },
   [DFS_PLATFORMS.PICK6]: {
-    '2-leg': 3.0,
-    '3-leg': 6.0,
-    '4-leg': 12.0,
-    '5-leg': 25.0,
-    '6-leg': 50.0
+    entries: {
+      power: {
+        2: { 2: 3.0 },
+        3: { 3: 6.0 },
+        4: { 4: 12.0 },
+        5: { 5: 25.0 },
+        6: { 6: 50.0 }
+      }
+    },
+    voidFallback: {},
+    minLegs: 2
   }
-} as const;
+};
+
+// Slip construction rules each platform enforces on an entry
+interface PlatformEntryRules {
+  minDistinctTeams: number; // Legs must come from at least this many teams
+  allowDuplicatePlayers: boolean; // Whether one player may appear in more than one leg
+}
+
+const PLATFORM_ENTRY_RULES: Record<string, PlatformEntryRules> = {
+  [DFS_PLATFORMS.PRIZEPICKS]: { minDistinctTeams: 2, allowDuplicatePlayers: false },
+  [DFS_PLATFORMS.UNDERDOG]: { minDistinctTeams: 2, allowDuplicatePlayers: false },
+  [DFS_PLATFORMS.PICK6]: { minDistinctTeams: 1, allowDuplicatePlayers: false }
+};
+
+// Platform-specific all-or-nothing payout multipliers keyed by 'N-leg', derived from the power schedules
+const PLATFORM_MULTIPLIERS: Record<string, Record<string, number>> = Object.fromEntries(
+  Object.entries(PLATFORM_PAYOUTS).map(([platform, schema]) => [
+    platform,
+    Object.fromEntries(
+      Object.entries(schema.entries.power ?? {}).map(([legCount, schedule]) => [
+        `${legCount}-leg`,
+        schedule[Number(legCount)]
+      ])
+    )
+  ])
+);
 
 // EV Calculation Constants
 const EV_THRESHOLD = 0.565; // 56.5% minimum hit rate for +EV
@@ -413,6 +481,18 @@ const LEGACY_ALTERNATE_MARKETS = [
   'player_assists_goblin'
 ] as const;
 
+// Alternate-line leg types: demons are harder lines that pay more, goblins easier lines that pay less,
+// boosts are per-pick multipliers quoted by the platform (Underdog higher/lower)
+type AltLineType = 'standard' | 'demon' | 'goblin' | 'boost';
+
+// Per-leg entry payout modifier used when the feed does not quote one
+const ALT_LINE_PAYOUT_MODIFIERS: Record<AltLineType, number> = {
+  standard: 1.0,
+  demon: 1.5,
+  goblin: 0.75,
+  boost: 1.0
+};
+
 // Define the type using the values
 // type PlayerPropMarket = (typeof PLAYER_PROP_MARKETS)[number];
 
@@ -616,33 +696,146 @@ export const fetchDFSProps = async (
 };
 
 // EV Calculation Utilities
+export interface ExpectedReturn {
+  trueProbability: number; // Win probability when the bet does not push
+  pushProbability: number; // Probability the stake is returned
+  decimalPayout: number; // Total return per $1 staked, stake included
+  breakEvenProbability: number; // Win probability at which the bet returns exactly the stake
+  edge: number; // trueProbability - breakEvenProbability
+  expectedProfit: number; // Expected profit per $1 staked
+  roiPercentage: number; // expectedProfit as a percentage of stake
+}
+
 export const calculateImpliedProbability = (odds: number): number => {
-  if (odds > 0) {
-    return 100 / (odds + 100);
-  } else {
-    return Math.abs(odds) / (Math.abs(odds) + 100);
-  }
+  return americanToProbability(odds);
 };
 
-export const calculatePlatformImpliedProbability = (
+export const getAltLineType = (marketKey: string, quotedMultiplier?: number): AltLineType => {
+  if (marketKey.endsWith('_demon')) return 'demon';
+  if (marketKey.endsWith('_goblin')) return 'goblin';
+  if (quotedMultiplier !== undefined && quotedMultiplier !== 1) return 'boost';
+  return 'standard';
+};
+
+/**
+ * Factor a leg applies to the whole entry payout. A multiplier quoted by the
+ * platform wins; otherwise demons and goblins use ALT_LINE_PAYOUT_MODIFIERS.
+ */
+export const getLegPayoutModifier = (marketKey: string, quotedMultiplier?: number): number => {
+  if (quotedMultiplier !== undefined && quotedMultiplier > 0) return quotedMultiplier;
+  return ALT_LINE_PAYOUT_MODIFIERS[getAltLineType(marketKey)];
+};
+
+// Total entry payout multiplier for an all-or-nothing DFS entry
+export const calculatePlatformPayout = (
   platform: string,
   legCount: number
-): number => {
+): number | null => {
   const multiplier = PLATFORM_MULTIPLIERS[platform as keyof typeof PLATFORM_MULTIPLIERS];
-  if (!multiplier) return 0.5; // Default 50% if platform not found
+  if (!multiplier) return null;
   
   const legKey = `${legCount}-leg` as keyof typeof multiplier;
-  const payout = multiplier[legKey] || 3.0; // Default to 3x if leg count not found
+  return multiplier[legKey] || 3.0; // Default to 3x if leg count not found
+};
+
+/**
+ * Payout table for an entry, where table[k] is the total payout per $1 when exactly k of the
+ * legs that were neither voided nor pushed hit. Voided legs drop out of the entry: it is re-priced
+ * at the smaller size, switching to the platform's fallback entry type when the original type is
+ * not offered there, and refunded when fewer than minLegs remain. Pushed legs drop out the same
+ * way, so the entry pays the smaller entry's own table. Returns null when the entry is not offered.
+ */
+export const getPlatformPayoutTable = (
+  platform: string,
+  legCount: number,
+  entryType: DFSEntryType = 'power',
+  voidedLegs: number = 0,
+  pushedLegs: number = 0
+): number[] | null => {
+  const schema = PLATFORM_PAYOUTS[platform];
+  if (!schema?.entries[entryType]?.[legCount]) return null;
+
+  const activeLegs = legCount - voidedLegs - pushedLegs;
+  if (activeLegs < schema.minLegs) {
+    return new Array(Math.max(activeLegs, 0) + 1).fill(1);
+  }
+
+  let resolvedType: DFSEntryType | undefined = entryType;
+  while (resolvedType && !schema.entries[resolvedType]?.[activeLegs]) {
+    resolvedType = schema.voidFallback[resolvedType];
+  }
+  if (!resolvedType) return null;
+
+  const schedule = schema.entries[resolvedType]![activeLegs];
+  return Array.from({ length: activeLegs + 1 }, (_, hits) => schedule[hits] ?? 0);
+};
+
+export const getPlatformEntryTypes = (platform: string): DFSEntryType[] => {
+  return Object.keys(PLATFORM_PAYOUTS[platform]?.entries ?? {}) as DFSEntryType[];
+};
+
+export const calculatePlatformImpliedProbability = (
+  platform: string,
+  legCount: number
+): number => {
+  const payout = calculatePlatformPayout(platform, legCount);
+  if (!payout) return 0.5; // Default 50% if platform not found
   
-  // Calculate implied probability per leg: 1 / (payout ^ (1/legCount))
+  // Per-leg break-even assuming identical legs: 1 / (payout ^ (1/legCount))
+  // Use calculateEntryEV in utils/dfsEntry to price a real slip leg by leg
   return 1 / Math.pow(payout, 1 / legCount);
 };
 
+// Expected profit per $1 staked, where impliedProbability is the break-even probability of the payout
 export const calculateEV = (
   hitRate: number,
   impliedProbability: number
 ): number => {
-  return hitRate - impliedProbability;
+  if (impliedProbability <= 0) return 0;
+  return hitRate / impliedProbability - 1;
+};
+
+// A push returns the stake, so it scales profit without moving the break-even probability
+export const calculateExpectedReturn = (
+  trueProbability: number,
+  decimalPayout: number,
+  pushProbability: number = 0
+): ExpectedReturn => {
+  const breakEvenProbability = decimalPayout > 0 ? 1 / decimalPayout : 1;
+  const expectedProfit = (1 - pushProbability) * (trueProbability * decimalPayout - 1);
+
+  return {
+    trueProbability,
+    pushProbability,
+    decimalPayout,
+    breakEvenProbability,
+    edge: trueProbability - breakEvenProbability,
+    expectedProfit,
+    roiPercentage: expectedProfit * 100
+  };
+};
+
+// Expected return of a single sportsbook bet at American odds
+export const calculateSportsbookExpectedReturn = (
+  trueProbability: number,
+  americanOdds: number,
+  pushProbability: number = 0
+): ExpectedReturn => {
+  return calculateExpectedReturn(trueProbability, 1 / calculateImpliedProbability(americanOdds), pushProbability);
+};
+
+// Per-leg expected return of a DFS leg, using the leg's share (Nth root) of the entry multiplier
+export const calculatePlatformExpectedReturn = (
+  trueProbability: number,
+  platform: string,
+  legCount: number,
+  pushProbability: number = 0
+): ExpectedReturn => {
+  return calculateExpectedReturn(
+    trueProbability,
+    1 / calculatePlatformImpliedProbability(platform, legCount),
+    pushProbability
+  );
 };
 
 export const isPositiveEV = (
@@ -659,58 +852,33 @@ export const getHistoricalHitRate = async (
   propType: string,
   line: number,
   sportKey: string = 'basketball_nba',
-  gameCount: number = 20
+  source: HitRateSource = 'flat'
 ): Promise<number> => {
   try {
     // Import DataService dynamically to avoid circular dependencies
     const { DataService } = await import('./dataService');
     
-    // Calculate line range for similar props (±0.5)
-    const lineRange = {
-      min: line - 0.5,
-      max: line + 0.5
-    };
-    
-    // Get hit rate calculation from database
-    const hitRateData = await DataService.calculateHitRate(
-      playerName,
-      propType,
-      lineRange,
-      sportKey,
-      90 // Look back 90 days
-    );
-    
-    if (hitRateData && hitRateData.gameCount >= 5) {
-      return hitRateData.hitRate;
-    }
-    
-    // Fallback: Get historical props directly if no calculated hit rate
-    const historicalProps = await DataService.getHistoricalProps({
-      playerName,
-      propType,
-      sport: sportKey,
-      limit: gameCount
-    });
-    
-    if (historicalProps.length >= 5) {
-      const hits = historicalProps.filter(prop => prop.hit === true).length;
-      return hits / historicalProps.length;
-    }
-    
-    // Return default if insufficient data
-    return DEFAULT_HIT_RATE;
+    // Posterior hit rate: the player's record (or fitted stat distribution) shrunk toward
+    // the sport and prop type prior, so thin samples no longer read as 0% or 100%
+    const shrunk = await DataService.getShrunkHitRate(playerName, propType, line, sportKey, source);
+    return shrunk.posteriorMean;
   } catch (error) {
     console.error('Error fetching historical hit rate:', error);
     return DEFAULT_HIT_RATE;
   }
 };
 
+export type { DFSEntryType, PayoutSchedule, PlatformPayoutSchema, PlatformEntryRules, AltLineType };
+
 // Export constants for use in components
 export { 
   DFS_PLATFORMS, 
+  PLATFORM_PAYOUTS,
+  PLATFORM_ENTRY_RULES,
   PLATFORM_MULTIPLIERS, 
   EV_THRESHOLD, 
   ALTERNATE_MARKETS, 
+  ALT_LINE_PAYOUT_MODIFIERS,
   LEGACY_ALTERNATE_MARKETS,
   SPORT_MARKETS,
   PLAYER_PROP_MARKETS
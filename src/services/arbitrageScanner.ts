@@ -0,0 +1,111 @@
+/* ++++++++++ ARBITRAGE SCANNER SERVICE ++++++++++ */
+import {
+  ArbEvent,
+  ArbMarketType,
+  ArbitrageOpportunity,
+  ArbitrageOptions,
+  findEventArbitrage
+} from '../utils/arbitrage';
+
+/* ++++++++++ TYPES ++++++++++ */
+// What one scan looked at; only arbs it could have found are closed when missing
+export interface ArbScanScope {
+  sports: string[]; // Sports whose game lines were scanned
+  propEventIds: string[]; // Events whose player props were scanned
+  books: string[]; // Books the scan took quotes from
+}
+
+interface FirstSeenEntry {
+  firstSeen: string; // ISO timestamp
+  sport?: string;
+  eventId: string;
+  marketType: ArbMarketType;
+  books: string[]; // Books on the arb's legs
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const FIRST_SEEN_STORAGE_KEY = 'oddsly_arb_first_seen';
+
+// Arbitrage Scanner Service
+export class ArbitrageScannerService {
+  /**
+   * Scan events for arbs, most profitable first. Each arb keeps the time it was first
+   * seen, as last saved by recordFirstSeen.
+   */
+  static scan(
+    events: ArbEvent[],
+    options: Partial<ArbitrageOptions> = {},
+    now: Date = new Date()
+  ): ArbitrageOpportunity[] {
+    const opportunities = events
+      .flatMap(event => findEventArbitrage(event, options, now))
+      .sort((a, b) => b.profitPercentage - a.profitPercentage);
+
+    const previouslySeen = this.loadFirstSeen();
+    for (const opportunity of opportunities) {
+      opportunity.firstSeen = previouslySeen[opportunity.id]?.firstSeen ?? opportunity.firstSeen;
+    }
+
+    return opportunities;
+  }
+
+  /**
+   * Save when the open arbs were first seen. Pass every open arb the scan found, before
+   * display filters. A stored arb missing from the list has closed and is forgotten, but
+   * only when the scan covered its sport or event and every book on its legs.
+   */
+  static recordFirstSeen(opportunities: ArbitrageOpportunity[], scope: ArbScanScope): void {
+    const firstSeen = this.loadFirstSeen();
+    const openIds = new Set(opportunities.map(opportunity => opportunity.id));
+    for (const [id, entry] of Object.entries(firstSeen)) {
+      if (!openIds.has(id) && this.isInScope(entry, scope)) delete firstSeen[id];
+    }
+
+    for (const opportunity of opportunities) {
+      firstSeen[opportunity.id] = {
+        firstSeen: opportunity.firstSeen,
+        sport: opportunity.sport,
+        eventId: opportunity.eventId,
+        marketType: opportunity.marketType,
+        books: [...new Set(opportunity.legs.map(leg => leg.bookmakerKey))]
+      };
+    }
+    this.saveFirstSeen(firstSeen);
+  }
+
+  private static isInScope(entry: FirstSeenEntry, scope: ArbScanScope): boolean {
+    const scanned = entry.marketType === 'player_props'
+      ? scope.propEventIds.includes(entry.eventId)
+      : entry.sport !== undefined && scope.sports.includes(entry.sport);
+    return scanned && entry.books.every(book => scope.books.includes(book));
+  }
+
+  static clearHistory(): void {
+    try {
+      localStorage.removeItem(FIRST_SEEN_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to clear arbitrage history:', error);
+    }
+  }
+
+  private static loadFirstSeen(): Record<string, FirstSeenEntry> {
+    try {
+      const stored = localStorage.getItem(FIRST_SEEN_STORAGE_KEY);
+      const parsed: Record<string, FirstSeenEntry | string> = stored ? JSON.parse(stored) : {};
+      // Entries saved before scopes were recorded are plain timestamps and cannot be pruned
+      return Object.fromEntries(
+        Object.entries(parsed).filter((entry): entry is [string, FirstSeenEntry] => typeof entry[1] === 'object')
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  private static saveFirstSeen(firstSeen: Record<string, FirstSeenEntry>): void {
+    try {
+      localStorage.setItem(FIRST_SEEN_STORAGE_KEY, JSON.stringify(firstSeen));
+    } catch (error) {
+      console.warn('Failed to save arbitrage history:', error);
+    }
+  }
+}
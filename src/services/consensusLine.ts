@@ -0,0 +1,298 @@
+/* ++++++++++ CONSENSUS LINE SERVICE ++++++++++ */
+import { DevigMethod, DEFAULT_DEVIG_METHOD, devigAmericanOdds } from '../utils/devig';
+import {
+  ScoreKind,
+  calculateCoverProbability,
+  getOutcomeThreshold,
+  getScoreKind,
+  solveExpectedScore
+} from '../utils/scoreDistribution';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface ConsensusOutcome {
+  name: string;
+  price: number;
+  point?: number;
+}
+
+export interface ConsensusMarket {
+  key: string;
+  last_update?: string;
+  outcomes: ConsensusOutcome[];
+}
+
+export interface ConsensusBookmaker {
+  key: string;
+  title?: string;
+  last_update?: string;
+  markets: ConsensusMarket[];
+}
+
+export interface ConsensusConfig {
+  bookWeights: Record<string, number>; // Per-book weight, books not listed use defaultWeight
+  defaultWeight: number;
+  sharpBooks: string[];
+  sharpOnly: boolean; // Ignore every book not in sharpBooks
+  maxQuoteAgeMinutes: number | null; // Quotes this far behind the freshest book are stale (null = keep all)
+  devigMethod: DevigMethod;
+}
+
+export interface ConsensusContribution {
+  bookmakerKey: string;
+  weight: number;
+  lastUpdate?: string;
+  fairProbabilities: number[];
+}
+
+export interface ConsensusExclusion {
+  bookmakerKey: string;
+  reason: 'not_sharp' | 'stale' | 'missing_outcomes' | 'zero_weight';
+}
+
+export interface ConsensusLine {
+  marketKey: string;
+  outcomeNames: string[];
+  points?: number[]; // Same order as outcomeNames, set for spreads and totals
+  fairProbabilities: number[]; // Same order as outcomeNames
+  totalWeight: number;
+  contributions: ConsensusContribution[];
+  exclusions: ConsensusExclusion[];
+}
+
+export interface PointConsensus {
+  marketKey: string;
+  kind: ScoreKind;
+  sportKey?: string;
+  homeTeam: string;
+  awayTeam: string;
+  outcomeNames: string[]; // Home then away for spreads, Over then Under for totals
+  lines: ConsensusLine[]; // One per point the books quote, most weight first
+  expectedScore: number; // Weighted home margin or total implied by every line
+  totalWeight: number;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+// Market-making books whose prices move first and carry the least recreational bias
+export const DEFAULT_SHARP_BOOKS = ['pinnacle', 'circasports', 'betonlineag', 'lowvig', 'betanysports'];
+
+// How many ordinary books one sharp book counts as
+export const DEFAULT_SHARP_WEIGHT = 3;
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+  bookWeights: Object.fromEntries(DEFAULT_SHARP_BOOKS.map(key => [key, DEFAULT_SHARP_WEIGHT])),
+  defaultWeight: 1,
+  sharpBooks: DEFAULT_SHARP_BOOKS,
+  sharpOnly: false,
+  maxQuoteAgeMinutes: 15,
+  devigMethod: DEFAULT_DEVIG_METHOD
+};
+
+// Consensus Line Service
+export class ConsensusLineService {
+  /**
+   * Build a weighted no-vig fair line for one market across bookmakers.
+   * Returns null when no book survives the sharp and staleness filters.
+   */
+  static calculateConsensus(
+    bookmakers: ConsensusBookmaker[],
+    marketKey: string,
+    outcomeNames: string[],
+    config: Partial<ConsensusConfig> = {},
+    points?: number[]
+  ): ConsensusLine | null {
+    const settings: ConsensusConfig = { ...DEFAULT_CONSENSUS_CONFIG, ...config };
+    const contributions: ConsensusContribution[] = [];
+    const exclusions: ConsensusExclusion[] = [];
+
+    const quotes = bookmakers.map(bookmaker => ({
+      bookmaker,
+      market: bookmaker.markets.find(m => m.key === marketKey),
+    }));
+
+    // Only books the sharp filter keeps set the freshest time, so an excluded book cannot make the rest stale
+    const isEligible = (bookmakerKey: string) => !settings.sharpOnly || settings.sharpBooks.includes(bookmakerKey);
+    const freshestUpdate = Math.max(
+      ...quotes
+        .filter(({ bookmaker, market }) => market && isEligible(bookmaker.key))
+        .map(({ bookmaker, market }) => this.getQuoteTime(bookmaker, market) ?? -Infinity)
+    );
+
+    for (const { bookmaker, market } of quotes) {
+      if (!market) continue;
+
+      if (!isEligible(bookmaker.key)) {
+        exclusions.push({ bookmakerKey: bookmaker.key, reason: 'not_sharp' });
+        continue;
+      }
+
+      if (this.isStale(this.getQuoteTime(bookmaker, market), freshestUpdate, settings.maxQuoteAgeMinutes)) {
+        exclusions.push({ bookmakerKey: bookmaker.key, reason: 'stale' });
+        continue;
+      }
+
+      // With points given, a book only counts when it quotes every outcome at those points
+      const prices = outcomeNames.map((name, index) => market.outcomes.find(o =>
+        o.name === name && (points === undefined || o.point === points[index])
+      )?.price);
+      if (prices.some(price => !price)) {
+        exclusions.push({ bookmakerKey: bookmaker.key, reason: 'missing_outcomes' });
+        continue;
+      }
+
+      const weight = this.getBookWeight(bookmaker.key, settings);
+      if (weight <= 0) {
+        exclusions.push({ bookmakerKey: bookmaker.key, reason: 'zero_weight' });
+        continue;
+      }
+
+      const { fairProbabilities } = devigAmericanOdds(prices as number[], settings.devigMethod);
+      contributions.push({
+        bookmakerKey: bookmaker.key,
+        weight,
+        lastUpdate: market.last_update ?? bookmaker.last_update,
+        fairProbabilities
+      });
+    }
+
+    if (contributions.length === 0) {
+      return null;
+    }
+
+    const totalWeight = contributions.reduce((sum, c) => sum + c.weight, 0);
+    const fairProbabilities = outcomeNames.map((_, index) =>
+      contributions.reduce((sum, c) => sum + c.fairProbabilities[index] * c.weight, 0) / totalWeight
+    );
+
+    return {
+      marketKey,
+      outcomeNames,
+      points,
+      fairProbabilities,
+      totalWeight,
+      contributions,
+      exclusions
+    };
+  }
+
+  /**
+   * Outcomes a market settles on, in display order: home, away, then anything else
+   * the books quote (a Draw on soccer or regulation-time lines). Totals are Over, Under.
+   */
+  static getMarketOutcomeNames(
+    bookmakers: ConsensusBookmaker[],
+    marketKey: string,
+    homeTeam: string,
+    awayTeam: string
+  ): string[] {
+    if (getScoreKind(marketKey) === 'total') return ['Over', 'Under'];
+
+    const others = new Set<string>();
+    for (const bookmaker of bookmakers) {
+      const market = bookmaker.markets.find(m => m.key === marketKey);
+      market?.outcomes.forEach(outcome => {
+        if (outcome.name !== homeTeam && outcome.name !== awayTeam) others.add(outcome.name);
+      });
+    }
+    return [homeTeam, awayTeam, ...others];
+  }
+
+  /**
+   * Consensus for a spread or total, devigged separately at each point the books quote.
+   * Lines at different points are combined through the score distribution, so a fair
+   * price is available at any point. Returns null for other markets or with no quotes.
+   */
+  static calculatePointConsensus(
+    bookmakers: ConsensusBookmaker[],
+    marketKey: string,
+    homeTeam: string,
+    awayTeam: string,
+    sportKey?: string,
+    config: Partial<ConsensusConfig> = {}
+  ): PointConsensus | null {
+    const kind = getScoreKind(marketKey);
+    if (!kind) return null;
+
+    const outcomeNames = kind === 'total' ? ['Over', 'Under'] : [homeTeam, awayTeam];
+    const pointKeys = new Map<string, number[]>();
+    for (const bookmaker of bookmakers) {
+      const market = bookmaker.markets.find(m => m.key === marketKey);
+      const points = outcomeNames.map(name => market?.outcomes.find(o => o.name === name)?.point);
+      if (points.every((point): point is number => point !== undefined)) {
+        pointKeys.set(points.join('|'), points);
+      }
+    }
+
+    const lines = [...pointKeys.values()]
+      .map(points => this.calculateConsensus(bookmakers, marketKey, outcomeNames, config, points))
+      .filter((line): line is ConsensusLine => line !== null)
+      .sort((a, b) => b.totalWeight - a.totalWeight);
+    if (lines.length === 0) return null;
+
+    // Each line implies an expected score; weight them like the books behind them
+    const totalWeight = lines.reduce((sum, line) => sum + line.totalWeight, 0);
+    const expectedScore = lines.reduce((sum, line) => {
+      const leg = getOutcomeThreshold(kind, { name: outcomeNames[0], point: line.points![0] }, homeTeam, awayTeam)!;
+      return sum + solveExpectedScore(sportKey, kind, leg, line.fairProbabilities[0]) * line.totalWeight;
+    }, 0) / totalWeight;
+
+    return { marketKey, kind, sportKey, homeTeam, awayTeam, outcomeNames, lines, expectedScore, totalWeight };
+  }
+
+  /**
+   * Fair chance an outcome wins (given no push) at its own point. Uses the books quoting
+   * that exact point when there are any, otherwise moves the consensus along the score
+   * distribution, which accounts for key numbers the point crosses.
+   */
+  static getPointFairProbability(consensus: PointConsensus, outcome: ConsensusOutcome): number | null {
+    const index = consensus.outcomeNames.indexOf(outcome.name);
+    if (index === -1 || outcome.point === undefined) return null;
+
+    const exact = consensus.lines.find(line => line.points![index] === outcome.point);
+    if (exact) return exact.fairProbabilities[index];
+
+    const leg = getOutcomeThreshold(consensus.kind, outcome, consensus.homeTeam, consensus.awayTeam);
+    if (!leg) return null;
+    return calculateCoverProbability(consensus.sportKey, consensus.kind, consensus.expectedScore, leg);
+  }
+
+  /**
+   * Weight for a single book under the given config
+   */
+  static getBookWeight(bookmakerKey: string, config: Partial<ConsensusConfig> = {}): number {
+    const settings: ConsensusConfig = { ...DEFAULT_CONSENSUS_CONFIG, ...config };
+    return settings.bookWeights[bookmakerKey] ?? settings.defaultWeight;
+  }
+
+  /**
+   * Book weights that count each sharp book as sharpWeight ordinary books
+   */
+  static getSharpBookWeights(sharpWeight: number, sharpBooks: string[] = DEFAULT_SHARP_BOOKS): Record<string, number> {
+    return Object.fromEntries(sharpBooks.map(key => [key, sharpWeight]));
+  }
+
+  /**
+   * Whether a book is treated as sharp under the given config
+   */
+  static isSharpBook(bookmakerKey: string, config: Partial<ConsensusConfig> = {}): boolean {
+    const settings: ConsensusConfig = { ...DEFAULT_CONSENSUS_CONFIG, ...config };
+    return settings.sharpBooks.includes(bookmakerKey);
+  }
+
+  // Prefer the market's own timestamp, fall back to the bookmaker's
+  private static getQuoteTime(bookmaker: ConsensusBookmaker, market?: ConsensusMarket): number | undefined {
+    const timestamp = market?.last_update ?? bookmaker.last_update;
+    if (!timestamp) return undefined;
+    const time = new Date(timestamp).getTime();
+    return isNaN(time) ? undefined : time;
+  }
+
+  // Staleness is measured against the freshest quote in the market, not the wall clock
+  private static isStale(quoteTime: number | undefined, freshestUpdate: number, maxAgeMinutes: number | null): boolean {
+    if (maxAgeMinutes === null || quoteTime === undefined || !isFinite(freshestUpdate)) {
+      return false;
+    }
+    return freshestUpdate - quoteTime > maxAgeMinutes * 60 * 1000;
+  }
+}
+
+export default ConsensusLineService;
@@ -1,5 +1,6 @@
 /* ++++++++++ DATA AUTOMATION SERVICE ++++++++++ */
 import { fetchDFSProps } from './api';
+import { CLOSING_LINE_CAPTURE_INTERVAL_MINUTES } from '../utils/clv';
 
 // Data automation interfaces
 export interface AutomationConfig {
@@ -82,6 +83,7 @@ export class DataAutomationService {
   // private intervalId: NodeJS.Timeout | null = null;
   // private lastRunTime: Date | null = null;
   private refreshTimer: NodeJS.Timeout | null = null;
+  private closingLineTimer: NodeJS.Timeout | null = null;
   private isRefreshing: boolean = false;
 
   constructor() {
@@ -134,6 +136,11 @@ export class DataAutomationService {
       this.refreshAllData();
     }, intervalMs);
 
+    // On its own timer, as the refresh interval is far longer than the closing line window
+    this.closingLineTimer = setInterval(() => {
+      this.captureClosingLines();
+    }, CLOSING_LINE_CAPTURE_INTERVAL_MINUTES * 60 * 1000);
+
     console.log(`Data automation started - refreshing every ${this.automationConfig.intervalMinutes} minutes`);
   }
 
@@ -142,6 +149,10 @@ export class DataAutomationService {
       clearInterval(this.refreshTimer);
       this.refreshTimer = null;
     }
+    if (this.closingLineTimer) {
+      clearInterval(this.closingLineTimer);
+      this.closingLineTimer = null;
+    }
   }
 
   restartAutomation(): void {
@@ -182,6 +193,20 @@ export class DataAutomationService {
     }
   }
 
+  async captureClosingLines(): Promise<void> {
+    try {
+      // Import DataService dynamically so the database client stays out of the main bundle
+      const { DataService } = await import('./dataService');
+      const { updated, errors } = await DataService.captureClosingLines();
+      if (updated > 0) {
+        console.log(`Captured closing lines for ${updated} bets`);
+      }
+      errors.forEach(error => console.warn(error));
+    } catch (error) {
+      console.warn('Failed to capture closing lines:', error);
+    }
+  }
+
   private async refreshSportData(sport: string): Promise<void> {
     try {
       const data = await fetchDFSProps(sport, undefined, this.automationConfig.platforms, true);
@@ -1,5 +1,13 @@
 /* ++++++++++ CLIENT-SIDE DATA AUTOMATION SERVICE ++++++++++ */
 // This is a client-safe version of dataAutomation that doesn't import database dependencies
+import axios from 'axios';
+import { LegCorrelation, getCorrelationKey, getLegKey, getLegSide, orientCorrelation } from '../utils/correlation';
+import { LineProbabilities, PlayerStatSamples, calculatePropLineProbabilities } from '../utils/statDistribution';
+import { BetaPrior, DEFAULT_BETA_PRIOR, ShrunkHitRate, calculatePosteriorHitRate } from '../utils/bayesianShrinkage';
+import { ConfidenceInput, ConfidenceScoring } from '../utils/confidenceScoring';
+import { HitRateSource } from '../utils/recencyWeighting';
+import { getEnvVar } from '../utils/envValidation';
+import type { PropEVData } from '../utils/evCalculations';
 
 /* ++++++++++ TYPES ++++++++++ */
 interface AutomationConfig {
@@ -10,14 +18,19 @@ interface AutomationConfig {
   minGameSample: number;
 }
 
+type CorrelatedLeg = Pick<PropEVData, 'playerName' | 'propType' | 'selection'>;
+
 interface HitRateData {
   playerName: string;
   propType: string;
-  line: number;
+  lineRangeMin: number;
+  lineRangeMax: number;
   hitRate: number;
   gameCount: number;
-  lastUpdated: string;
-  confidence: 'high' | 'medium' | 'low';
+  weightedHitRate?: number;
+  effectiveGameCount?: number;
+  lastNHitRate?: number;
+  lastNGameCount?: number;
 }
 
 /* ++++++++++ CONSTANTS ++++++++++ */
@@ -32,14 +45,38 @@ const DEFAULT_CONFIG: AutomationConfig = {
 const STORAGE_KEYS = {
   HIT_RATES: 'oddsly_hit_rates_cache',
   LAST_REFRESH: 'oddsly_last_refresh',
+  CORRELATIONS: 'oddsly_leg_correlations_cache',
+  STAT_SAMPLES: 'oddsly_stat_samples_cache',
+  PRIORS: 'oddsly_hit_rate_priors_cache',
   CONFIG: 'oddsly_automation_config'
 };
 
+// What cached hit rates say beyond their sample: graded results from about a season,
+// with no per-player consistency measure; recency-weighted sources count as recent
+const HIT_RATE_CONFIDENCE_CONTEXT: Omit<ConfidenceInput, 'sampleSize' | 'hitRate' | 'credibleInterval'> = {
+  timeRange: 90,
+  dataQuality: 'HIGH',
+  consistency: 0.5,
+  recency: 0.5
+};
+
+// Backend routes serving DataService results; the browser never touches the database
+const BACKEND_URL = getEnvVar('VITE_BACKEND_URL', '/api');
+const DATA_ENDPOINTS = {
+  HIT_RATES: '/data/hit-rates', // DataService.getHitRates
+  CORRELATIONS: '/data/leg-correlations', // DataService.refreshLegCorrelations
+  STAT_SAMPLES: '/data/stat-samples', // DataService.getStatSamples
+  PRIORS: '/data/hit-rate-priors' // DataService.getHitRatePriors
+};
+
 /* ++++++++++ CLIENT-SIDE DATA AUTOMATION CLASS ++++++++++ */
 export class DataAutomationClientService {
   private config: AutomationConfig;
   private isRefreshing = false;
-  private hitRatesCache: Map<string, HitRateData> = new Map();
+  private hitRatesCache: Map<string, HitRateData[]> = new Map();
+  private correlationsCache: Map<string, LegCorrelation> = new Map();
+  private statSamplesCache: Map<string, number[]> = new Map();
+  private priorsCache: Map<string, BetaPrior> = new Map();
 
   constructor(config?: Partial<AutomationConfig>) {
     this.config = {
@@ -66,6 +103,21 @@ export class DataAutomationClientService {
         const data = JSON.parse(cached);
         this.hitRatesCache = new Map(Object.entries(data));
       }
+
+      const correlations = localStorage.getItem(STORAGE_KEYS.CORRELATIONS);
+      if (correlations) {
+        this.correlationsCache = new Map(Object.entries(JSON.parse(correlations)));
+      }
+
+      const statSamples = localStorage.getItem(STORAGE_KEYS.STAT_SAMPLES);
+      if (statSamples) {
+        this.statSamplesCache = new Map(Object.entries(JSON.parse(statSamples)));
+      }
+
+      const priors = localStorage.getItem(STORAGE_KEYS.PRIORS);
+      if (priors) {
+        this.priorsCache = new Map(Object.entries(JSON.parse(priors)));
+      }
     } catch (error) {
       console.warn('Failed to load cached hit rates:', error);
     }
@@ -77,17 +129,103 @@ export class DataAutomationClientService {
   
   /**
    * Get hit rate for a specific player/prop combination
-   * Returns cached data or default values
+   * Pushes count as neither, so this is P(hit | no push); see getPushProbability
    */
-  getHitRate(playerName: string, propType: string, line: number): number {
-    const key = `${playerName}_${propType}_${line}`;
-    const cached = this.hitRatesCache.get(key);
-    
-    if (cached) {
-      return cached.hitRate;
+  getHitRate(playerName: string, propType: string, line: number, source: HitRateSource = 'flat'): number {
+    return this.getShrunkHitRate(playerName, propType, line, source).posteriorMean;
+  }
+
+  /**
+   * Posterior hit rate and credible interval for a player/prop combination
+   * Prices the line from the player's stat distribution when results are cached,
+   * then falls back to cached hit rates; either is shrunk toward the prop type's prior.
+   * A 'weighted' or 'lastN' source uses the cached recency rate when there is one.
+   * With no data at all the posterior is the prior
+   */
+  getShrunkHitRate(playerName: string, propType: string, line: number, source: HitRateSource = 'flat'): ShrunkHitRate {
+    const prior = this.getHitRatePrior(propType);
+    const cached = this.findHitRate(playerName, propType, line);
+
+    const recent = cached && this.getRecencyHitRate(cached, source);
+    if (recent) {
+      return calculatePosteriorHitRate(recent.hitRate * recent.games, recent.games, prior);
+    }
+
+    const samples = this.statSamplesCache.get(`${playerName}_${propType}`);
+    const lineProbabilities = this.getLineProbabilities(playerName, propType, line);
+    if (samples && lineProbabilities) {
+      const { over, push } = lineProbabilities;
+      return calculatePosteriorHitRate(over * samples.length, (1 - push) * samples.length, prior);
     }
-    
-    // Return default hit rate based on prop type
+
+    if (cached && cached.gameCount > 0) {
+      return calculatePosteriorHitRate(cached.hitRate * cached.gameCount, cached.gameCount, prior);
+    }
+
+    return calculatePosteriorHitRate(0, 0, prior);
+  }
+
+  /**
+   * Confidence in a player/prop hit rate, scored from the width of its credible interval
+   */
+  getHitRateConfidence(
+    playerName: string,
+    propType: string,
+    line: number,
+    source: HitRateSource = 'flat'
+  ): 'high' | 'medium' | 'low' {
+    const posterior = this.getShrunkHitRate(playerName, propType, line, source);
+    const result = ConfidenceScoring.calculateFromPosterior(posterior, {
+      ...HIT_RATE_CONFIDENCE_CONTEXT,
+      recency: source === 'flat' ? HIT_RATE_CONFIDENCE_CONTEXT.recency : 1
+    });
+    return ConfidenceScoring.toPropConfidence(result.confidenceLevel);
+  }
+
+  // Cached hit rate whose line range covers the line, preferring the one with the most games
+  private findHitRate(playerName: string, propType: string, line: number): HitRateData | undefined {
+    return (this.hitRatesCache.get(`${playerName}_${propType}`) ?? [])
+      .filter(rate => rate.lineRangeMin <= line && rate.lineRangeMax >= line)
+      .sort((a, b) => b.gameCount - a.gameCount)[0];
+  }
+
+  /**
+   * Replace cached hit rates with the stored rates from DataService.getHitRates
+   */
+  setHitRates(hitRates: HitRateData[]): void {
+    this.hitRatesCache = new Map();
+    for (const rate of hitRates) {
+      const key = `${rate.playerName}_${rate.propType}`;
+      const rates = this.hitRatesCache.get(key) ?? [];
+      rates.push(rate);
+      this.hitRatesCache.set(key, rates);
+    }
+    try {
+      localStorage.setItem(STORAGE_KEYS.HIT_RATES, JSON.stringify(Object.fromEntries(this.hitRatesCache)));
+    } catch (error) {
+      console.warn('Failed to save hit rates:', error);
+    }
+  }
+
+  // Recency rate and the games it stands for; stat samples carry no dates, so this is cache-only
+  private getRecencyHitRate(cached: HitRateData, source: HitRateSource): { hitRate: number; games: number } | null {
+    if (source === 'weighted' && cached.weightedHitRate !== undefined && cached.effectiveGameCount) {
+      return { hitRate: cached.weightedHitRate, games: cached.effectiveGameCount };
+    }
+    if (source === 'lastN' && cached.lastNHitRate !== undefined && cached.lastNGameCount) {
+      return { hitRate: cached.lastNHitRate, games: cached.lastNGameCount };
+    }
+    return null;
+  }
+
+  /**
+   * Beta prior for a prop type: the cached fitted prior, or the default prior
+   * re-centred on the prop type's default hit rate
+   */
+  getHitRatePrior(propType: string): BetaPrior {
+    const cached = this.priorsCache.get(propType);
+    if (cached) return cached;
+
     const defaultRates: Record<string, number> = {
       'player_points': 0.52,
       'player_rebounds': 0.48,
@@ -98,8 +236,92 @@ export class DataAutomationClientService {
       'player_hits': 0.47,
       'player_strikeouts': 0.53
     };
-    
-    return defaultRates[propType] || 0.50;
+
+    const strength = DEFAULT_BETA_PRIOR.alpha + DEFAULT_BETA_PRIOR.beta;
+    const rate = defaultRates[propType] || 0.50;
+    return { alpha: rate * strength, beta: (1 - rate) * strength, observations: 0 };
+  }
+
+  /**
+   * Cache Beta priors per prop type, as fitted by DataService.getHitRatePriors
+   */
+  setHitRatePriors(priors: Record<string, BetaPrior>): void {
+    this.priorsCache = new Map(Object.entries(priors));
+    try {
+      localStorage.setItem(STORAGE_KEYS.PRIORS, JSON.stringify(priors));
+    } catch (error) {
+      console.warn('Failed to save hit rate priors:', error);
+    }
+  }
+
+  /**
+   * Get P(over), P(under) and P(push) for any line from the player's fitted stat distribution
+   * Returns null when too few results are cached
+   */
+  getLineProbabilities(playerName: string, propType: string, line: number): LineProbabilities | null {
+    const samples = this.statSamplesCache.get(`${playerName}_${propType}`);
+    if (!samples) return null;
+
+    const probabilities = calculatePropLineProbabilities(samples, propType, line);
+    if (!probabilities) return null;
+
+    const { over, under, push } = probabilities;
+    return { over, under, push };
+  }
+
+  /**
+   * Chance the result lands exactly on the line. Only whole-number lines on
+   * whole-number stats can push; 0 when the player's results are not cached
+   */
+  getPushProbability(playerName: string, propType: string, line: number): number {
+    return this.getLineProbabilities(playerName, propType, line)?.push ?? 0;
+  }
+
+  /**
+   * Replace cached stat results with the per-player results from DataService.getStatSamples
+   */
+  setStatSamples(statSamples: PlayerStatSamples[]): void {
+    this.statSamplesCache = new Map(
+      statSamples.map(({ playerName, propType, samples }) => [`${playerName}_${propType}`, samples])
+    );
+    try {
+      localStorage.setItem(STORAGE_KEYS.STAT_SAMPLES, JSON.stringify(Object.fromEntries(this.statSamplesCache)));
+    } catch (error) {
+      console.warn('Failed to save stat samples:', error);
+    }
+  }
+
+  /**
+   * Get the latent same-game correlation between two player props on the sides they take
+   * Returns 0 (independent) when no estimate is cached
+   */
+  getLegCorrelation(legA: CorrelatedLeg, legB: CorrelatedLeg): number {
+    const key = getCorrelationKey(getLegKey(legA.playerName, legA.propType), getLegKey(legB.playerName, legB.propType));
+    const correlation = this.correlationsCache.get(key)?.correlation ?? 0;
+    return orientCorrelation(correlation, getLegSide(legA.selection), getLegSide(legB.selection));
+  }
+
+  /**
+   * Replace cached correlations with estimates from DataService.calculateLegCorrelations
+   */
+  setLegCorrelations(correlations: LegCorrelation[]): void {
+    this.correlationsCache = new Map(correlations.map(correlation => [correlation.key, correlation]));
+    try {
+      localStorage.setItem(
+        STORAGE_KEYS.CORRELATIONS,
+        JSON.stringify(Object.fromEntries(this.correlationsCache))
+      );
+    } catch (error) {
+      console.warn('Failed to save leg correlations:', error);
+    }
+  }
+
+  /**
+   * Whether any correlation estimates are cached. Until they are, every pair reads as
+   * independent, so a correlated price would only repeat the independent one
+   */
+  hasLegCorrelations(): boolean {
+    return this.correlationsCache.size > 0;
   }
 
   /**
@@ -110,8 +332,7 @@ export class DataAutomationClientService {
   }
 
   /**
-   * Refresh all data - client-side version that calls API endpoints
-   * instead of directly accessing the database
+   * Refresh all data - fetches the estimates fitted by DataService on the backend into the local caches
    */
   async refreshAllData(): Promise<void> {
     if (this.isRefreshing) {
@@ -125,10 +346,11 @@ export class DataAutomationClientService {
     try {
       console.log('Starting client-side data refresh...');
       
-      // In a real implementation, this would call API endpoints
-      // For now, we'll simulate the refresh and update the timestamp
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      await this.refreshHitRates();
+      await this.refreshLegCorrelations();
+      await this.refreshStatSamples();
+      await this.refreshHitRatePriors();
+
       localStorage.setItem(STORAGE_KEYS.LAST_REFRESH, new Date().toISOString());
       
       const duration = Date.now() - startTime;
@@ -141,6 +363,58 @@ export class DataAutomationClientService {
     }
   }
 
+  // One request per configured sport; a sport that fails is skipped
+  private async fetchForSports<T>(endpoint: string, label: string): Promise<T[]> {
+    const results: T[] = [];
+    for (const sport of this.config.sports) {
+      try {
+        const response = await axios.get<T>(`${BACKEND_URL}${endpoint}`, {
+          params: { sport },
+          withCredentials: true
+        });
+        results.push(response.data);
+      } catch (error) {
+        console.warn(`Failed to refresh ${label} for ${sport}:`, error);
+      }
+    }
+    return results;
+  }
+
+  private async refreshHitRates(): Promise<void> {
+    const hitRates = (await this.fetchForSports<HitRateData[]>(DATA_ENDPOINTS.HIT_RATES, 'hit rates')).flat();
+    if (hitRates.length) {
+      this.setHitRates(hitRates);
+    }
+  }
+
+  private async refreshLegCorrelations(): Promise<void> {
+    const correlations = (await this.fetchForSports<LegCorrelation[]>(DATA_ENDPOINTS.CORRELATIONS, 'leg correlations')).flat();
+    if (correlations.length) {
+      this.setLegCorrelations(correlations);
+    }
+  }
+
+  private async refreshStatSamples(): Promise<void> {
+    const statSamples = (await this.fetchForSports<PlayerStatSamples[]>(DATA_ENDPOINTS.STAT_SAMPLES, 'stat samples')).flat();
+    if (statSamples.length) {
+      this.setStatSamples(statSamples);
+    }
+  }
+
+  // Prop types rarely repeat across sports; where one does, the first configured sport wins
+  private async refreshHitRatePriors(): Promise<void> {
+    const priors: Record<string, BetaPrior> = {};
+    for (const sportPriors of await this.fetchForSports<Record<string, BetaPrior>>(DATA_ENDPOINTS.PRIORS, 'hit rate priors')) {
+      for (const [propType, prior] of Object.entries(sportPriors)) {
+        priors[propType] ??= prior;
+      }
+    }
+
+    if (Object.keys(priors).length) {
+      this.setHitRatePriors(priors);
+    }
+  }
+
   /**
    * Update configuration
    */
@@ -176,7 +450,13 @@ export class DataAutomationClientService {
    */
   clearCache(): void {
     this.hitRatesCache.clear();
+    this.correlationsCache.clear();
+    this.statSamplesCache.clear();
+    this.priorsCache.clear();
     localStorage.removeItem(STORAGE_KEYS.HIT_RATES);
+    localStorage.removeItem(STORAGE_KEYS.CORRELATIONS);
+    localStorage.removeItem(STORAGE_KEYS.STAT_SAMPLES);
+    localStorage.removeItem(STORAGE_KEYS.PRIORS);
     localStorage.removeItem(STORAGE_KEYS.LAST_REFRESH);
   }
 }
@@ -1,5 +1,44 @@
 import { prisma } from './database';
 import { fetchDFSProps } from './api';
+import {
+  CorrelationEstimateOptions,
+  LegCorrelation,
+  estimateLegCorrelations
+} from '../utils/correlation';
+import {
+  BetaPrior,
+  DEFAULT_BETA_PRIOR,
+  MIN_PRIOR_OBSERVATIONS,
+  ShrunkHitRate,
+  calculatePosteriorHitRate,
+  estimateBetaPrior
+} from '../utils/bayesianShrinkage';
+import {
+  FittedDistribution,
+  LineProbabilities,
+  MIN_DISTRIBUTION_SAMPLES,
+  PlayerStatSamples,
+  calculateLineProbabilities,
+  fitStatDistribution,
+  getModelForPropType,
+  gradePropOutcome,
+  outcomeToHit,
+  resolvePropOutcome
+} from '../utils/statDistribution';
+import {
+  DatedHitResult,
+  HitRateSource,
+  RecencySettings,
+  calculateLastNHitRate,
+  calculateWeightedHitRate,
+  getRecencySettings
+} from '../utils/recencyWeighting';
+import {
+  CLOSING_LINE_WINDOW_MINUTES,
+  calculateClosingLineValue,
+  summarizeClosingLineValue
+} from '../utils/clv';
+import { PropBookmakerQuote, PropFairValueService } from './propFairValue';
 import type { 
   HistoricalProp, 
   HitRate, 
@@ -34,6 +73,11 @@ export interface HitRateCalculation {
   confidenceLevel: 'high' | 'medium' | 'low';
   standardError?: number;
   confidenceInterval?: { lower: number; upper: number };
+  weightedHitRate?: number;
+  effectiveGameCount?: number;
+  halfLifeDays?: number;
+  lastNHitRate?: number;
+  lastNGameCount?: number;
 }
 
 export interface EVCalculationResult {
@@ -59,10 +103,24 @@ export interface UserPerformanceMetrics {
   roi: number;
   currentStreak: number;
   longestWinStreak: number;
+  clvBets: number;
+  averageClv: number; // Closing no-vig probability minus break-even, the main skill signal
+  averageClvCents: number;
+  positiveClvRate: number;
 }
 
+interface HitRatePriors {
+  byPropType: Record<string, BetaPrior>;
+  sportWide: BetaPrior;
+  expiresAt: number;
+}
+
+const HIT_RATE_PRIOR_TTL_MS = 60 * 60 * 1000;
+
 // Data Service Class
 export class DataService {
+  private static hitRatePriorCache = new Map<string, HitRatePriors>();
+
   // ================================
   // HISTORICAL PROPS MANAGEMENT
   // ================================
@@ -76,13 +134,16 @@ export class DataService {
       throw new Error(`Invalid sport (${propData.sport}) or platform (${propData.platform})`);
     }
 
+    const outcome = resolvePropOutcome(propData.line, propData.actualResult, propData.hit);
+
     return prisma.historicalProp.create({
       data: {
         playerName: propData.playerName,
         propType: propData.propType,
         line: propData.line,
         actualResult: propData.actualResult,
-        hit: propData.hit,
+        hit: outcome ? outcomeToHit(outcome) : undefined,
+        outcome,
         gameDate: propData.gameDate || new Date(),
         sportId: sport.id,
         platformId: platform.id,
@@ -140,13 +201,14 @@ export class DataService {
       throw new Error('Historical prop not found');
     }
 
-    const hit = actualResult >= prop.line.toNumber();
+    const outcome = gradePropOutcome(actualResult, prop.line.toNumber());
 
     return prisma.historicalProp.update({
       where: { id },
       data: {
         actualResult,
-        hit,
+        hit: outcomeToHit(outcome),
+        outcome,
         updatedAt: new Date(),
       },
     });
@@ -161,11 +223,14 @@ export class DataService {
     propType: string,
     lineRange: { min: number; max: number },
     sportKey: string,
-    days: number = 90
+    days: number = 90,
+    recency: Partial<RecencySettings> = {}
   ): Promise<HitRateCalculation | null> {
     const sport = await this.getSportByKey(sportKey);
     if (!sport) return null;
 
+    const { halfLifeDays, lastNGames } = await this.getRecencySettings(sportKey, recency);
+
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
@@ -205,6 +270,10 @@ export class DataService {
       upper: Math.min(1, hitRate + marginOfError),
     };
 
+    // Recent form alongside the flat rate
+    const weighted = calculateWeightedHitRate(historicalData, halfLifeDays);
+    const lastN = calculateLastNHitRate(historicalData, lastNGames);
+
     return {
       playerName,
       propType,
@@ -215,6 +284,11 @@ export class DataService {
       confidenceLevel,
       standardError,
       confidenceInterval,
+      weightedHitRate: weighted?.hitRate,
+      effectiveGameCount: weighted?.effectiveGames,
+      halfLifeDays,
+      lastNHitRate: lastN?.hitRate,
+      lastNGameCount: lastN?.games,
     };
   }
 
@@ -241,6 +315,11 @@ export class DataService {
         confidenceLevel: hitRateData.confidenceLevel,
         standardError: hitRateData.standardError,
         confidenceInterval: hitRateData.confidenceInterval,
+        weightedHitRate: hitRateData.weightedHitRate,
+        effectiveGameCount: hitRateData.effectiveGameCount,
+        halfLifeDays: hitRateData.halfLifeDays,
+        lastNHitRate: hitRateData.lastNHitRate,
+        lastNGameCount: hitRateData.lastNGameCount,
         lastUpdated: new Date(),
       },
       create: {
@@ -255,6 +334,11 @@ export class DataService {
         season,
         standardError: hitRateData.standardError,
         confidenceInterval: hitRateData.confidenceInterval,
+        weightedHitRate: hitRateData.weightedHitRate,
+        effectiveGameCount: hitRateData.effectiveGameCount,
+        halfLifeDays: hitRateData.halfLifeDays,
+        lastNHitRate: hitRateData.lastNHitRate,
+        lastNGameCount: hitRateData.lastNGameCount,
       },
     });
   }
@@ -263,7 +347,8 @@ export class DataService {
     playerName: string,
     propType: string,
     line: number,
-    sportKey: string
+    sportKey: string,
+    source: HitRateSource = 'flat'
   ): Promise<number> {
     const sport = await this.getSportByKey(sportKey);
     if (!sport) return 0.5; // Default hit rate
@@ -282,7 +367,328 @@ export class DataService {
       },
     });
 
-    return hitRate?.hitRate.toNumber() || 0.5;
+    if (!hitRate) return 0.5;
+
+    // Rows saved before recency metrics existed only carry the flat rate
+    if (source === 'weighted' && hitRate.weightedHitRate !== null) return hitRate.weightedHitRate.toNumber();
+    if (source === 'lastN' && hitRate.lastNHitRate !== null) return hitRate.lastNHitRate.toNumber();
+    return hitRate.hitRate.toNumber();
+  }
+
+  // ================================
+  // RECENCY SETTINGS
+  // ================================
+
+  /**
+   * Half-life and last-N window for a sport: the built-in defaults, then any
+   * stored override, then per-call overrides.
+   */
+  static async getRecencySettings(
+    sportKey: string,
+    overrides: Partial<RecencySettings> = {}
+  ): Promise<RecencySettings> {
+    const stored: Partial<RecencySettings> = (await this.getSystemConfig(`recency_settings_${sportKey}`)) || {};
+    return getRecencySettings(sportKey, { ...stored, ...overrides });
+  }
+
+  static async saveRecencySettings(sportKey: string, settings: Partial<RecencySettings>): Promise<void> {
+    await this.setSystemConfig(`recency_settings_${sportKey}`, getRecencySettings(sportKey, settings), 'hit_rates');
+  }
+
+  // ================================
+  // STAT DISTRIBUTIONS
+  // ================================
+
+  /**
+   * Fit the player's stat distribution from settled actual results, regardless of the line
+   * each result was graded against. Returns null when there are too few results.
+   */
+  static async getStatDistribution(
+    playerName: string,
+    propType: string,
+    sportKey: string,
+    days: number = 365
+  ): Promise<FittedDistribution | null> {
+    const sport = await this.getSportByKey(sportKey);
+    if (!sport) return null;
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const historicalData = await prisma.historicalProp.findMany({
+      where: {
+        playerName: { equals: playerName, mode: 'insensitive' },
+        propType,
+        sportId: sport.id,
+        gameDate: { gte: startDate },
+        actualResult: { not: null },
+      },
+      select: { gameId: true, gameDate: true, actualResult: true },
+    });
+
+    const samples = this.getGameResults(historicalData);
+    return fitStatDistribution(samples, getModelForPropType(propType, samples));
+  }
+
+  /**
+   * Settled actual results for every player and prop type in a sport, for the client
+   * to fit distributions from. Players with fewer than MIN_DISTRIBUTION_SAMPLES games are left out.
+   */
+  static async getStatSamples(sportKey: string, days: number = 365): Promise<PlayerStatSamples[]> {
+    const sport = await this.getSportByKey(sportKey);
+    if (!sport) return [];
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const historicalData = await prisma.historicalProp.findMany({
+      where: {
+        sportId: sport.id,
+        gameDate: { gte: startDate },
+        actualResult: { not: null },
+      },
+      select: { playerName: true, propType: true, gameId: true, gameDate: true, actualResult: true },
+    });
+
+    const groups = new Map<string, typeof historicalData>();
+    for (const prop of historicalData) {
+      const key = `${prop.playerName}_${prop.propType}`;
+      const group = groups.get(key) ?? [];
+      group.push(prop);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()]
+      .map(props => ({
+        playerName: props[0].playerName,
+        propType: props[0].propType,
+        samples: this.getGameResults(props),
+      }))
+      .filter(entry => entry.samples.length >= MIN_DISTRIBUTION_SAMPLES);
+  }
+
+  // A game can be graded on several lines or platforms; its result only counts once
+  private static getGameResults(
+    props: { gameId: string | null; gameDate: Date; actualResult: { toNumber(): number } | null }[]
+  ): number[] {
+    const results = new Map<string, number>();
+    for (const prop of props) {
+      const gameKey = prop.gameId ?? prop.gameDate.toISOString();
+      if (!results.has(gameKey)) results.set(gameKey, prop.actualResult!.toNumber());
+    }
+    return [...results.values()];
+  }
+
+  static async getLineProbabilities(
+    playerName: string,
+    propType: string,
+    line: number,
+    sportKey: string
+  ): Promise<(LineProbabilities & { sampleSize: number }) | null> {
+    const distribution = await this.getStatDistribution(playerName, propType, sportKey);
+    return distribution
+      ? { ...calculateLineProbabilities(distribution, line), sampleSize: distribution.sampleSize }
+      : null;
+  }
+
+  // ================================
+  // HIT RATE SHRINKAGE
+  // ================================
+
+  /**
+   * Beta prior for a sport and prop type, fitted to every player's stored hit rate.
+   * Falls back to the whole sport, then to DEFAULT_BETA_PRIOR, when there are too few rows.
+   */
+  static async getHitRatePrior(sportKey: string, propType: string): Promise<BetaPrior> {
+    const { byPropType, sportWide } = await this.loadHitRatePriors(sportKey);
+    return byPropType[propType] ?? sportWide;
+  }
+
+  /**
+   * Beta prior for every prop type with stored hit rates in a sport, keyed by prop type
+   */
+  static async getHitRatePriors(sportKey: string): Promise<Record<string, BetaPrior>> {
+    return (await this.loadHitRatePriors(sportKey)).byPropType;
+  }
+
+  // Priors move slowly, so one fit per sport serves every prop priced within the TTL
+  private static async loadHitRatePriors(sportKey: string): Promise<HitRatePriors> {
+    const cached = this.hitRatePriorCache.get(sportKey);
+    if (cached && cached.expiresAt > Date.now()) return cached;
+
+    const sport = await this.getSportByKey(sportKey);
+    if (!sport) return { byPropType: {}, sportWide: DEFAULT_BETA_PRIOR, expiresAt: 0 };
+
+    const rows = await prisma.hitRate.findMany({
+      where: { sportId: sport.id },
+      select: { propType: true, hitRate: true, gameCount: true },
+    });
+    const observations: { propType: string; hitRate: number; gameCount: number }[] = rows.map(
+      (row: Pick<HitRate, 'propType' | 'hitRate' | 'gameCount'>) => ({
+        propType: row.propType,
+        hitRate: row.hitRate.toNumber(),
+        gameCount: row.gameCount,
+      })
+    );
+
+    const sportWide = estimateBetaPrior(observations);
+    const byPropType: Record<string, BetaPrior> = {};
+    for (const propType of new Set(observations.map(observation => observation.propType))) {
+      const propObservations = observations.filter(observation => observation.propType === propType);
+      byPropType[propType] = propObservations.length >= MIN_PRIOR_OBSERVATIONS
+        ? estimateBetaPrior(propObservations)
+        : sportWide;
+    }
+
+    const priors = { byPropType, sportWide, expiresAt: Date.now() + HIT_RATE_PRIOR_TTL_MS };
+    this.hitRatePriorCache.set(sportKey, priors);
+    return priors;
+  }
+
+  /**
+   * Posterior hit rate for a prop. The player's own evidence is the fitted stat distribution
+   * when there is one, otherwise graded props within ±0.5 of the line; with no games at all
+   * the answer is the prior mean. Pushes count as neither, so the rate is P(hit | no push).
+   * A 'weighted' or 'lastN' source uses the recent form of the graded props when there are any.
+   */
+  static async getShrunkHitRate(
+    playerName: string,
+    propType: string,
+    line: number,
+    sportKey: string,
+    source: HitRateSource = 'flat',
+    days: number = 90
+  ): Promise<ShrunkHitRate> {
+    const prior = await this.getHitRatePrior(sportKey, propType);
+
+    // Stat results carry no dates, so recent form can only come from graded props
+    if (source !== 'flat') {
+      const graded = await this.getGradedProps(playerName, propType, line, sportKey, days);
+      const { halfLifeDays, lastNGames } = await this.getRecencySettings(sportKey);
+      const weighted = source === 'weighted' ? calculateWeightedHitRate(graded, halfLifeDays) : null;
+      const lastN = source === 'lastN' ? calculateLastNHitRate(graded, lastNGames) : null;
+      const recent = weighted
+        ? { hitRate: weighted.hitRate, games: weighted.effectiveGames }
+        : lastN;
+      if (recent) {
+        return calculatePosteriorHitRate(recent.hitRate * recent.games, recent.games, prior);
+      }
+    }
+
+    const lineProbabilities = await this.getLineProbabilities(playerName, propType, line, sportKey);
+    if (lineProbabilities) {
+      const { over, push, sampleSize } = lineProbabilities;
+      return calculatePosteriorHitRate(over * sampleSize, (1 - push) * sampleSize, prior);
+    }
+
+    const graded = await this.getGradedProps(playerName, propType, line, sportKey, days);
+    const hits = graded.filter(prop => prop.hit).length;
+    return calculatePosteriorHitRate(hits, graded.length, prior);
+  }
+
+  // Graded props within ±0.5 of the line over the last `days`
+  private static async getGradedProps(
+    playerName: string,
+    propType: string,
+    line: number,
+    sportKey: string,
+    days: number
+  ): Promise<DatedHitResult[]> {
+    const sport = await this.getSportByKey(sportKey);
+    if (!sport) return [];
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    return prisma.historicalProp.findMany({
+      where: {
+        playerName: { equals: playerName, mode: 'insensitive' },
+        propType,
+        sportId: sport.id,
+        line: { gte: line - 0.5, lte: line + 0.5 },
+        gameDate: { gte: startDate },
+        hit: { not: null },
+      },
+      select: { gameId: true, gameDate: true, hit: true },
+    });
+  }
+
+  /**
+   * Every stored hit rate for a sport, with its recency metrics
+   */
+  static async getHitRates(sportKey: string): Promise<HitRateCalculation[]> {
+    const sport = await this.getSportByKey(sportKey);
+    if (!sport) return [];
+
+    const rows = await prisma.hitRate.findMany({ where: { sportId: sport.id } });
+    return rows.map((row: HitRate) => ({
+      playerName: row.playerName,
+      propType: row.propType,
+      lineRangeMin: row.lineRangeMin.toNumber(),
+      lineRangeMax: row.lineRangeMax.toNumber(),
+      hitRate: row.hitRate.toNumber(),
+      gameCount: row.gameCount,
+      confidenceLevel: row.confidenceLevel as HitRateCalculation['confidenceLevel'],
+      weightedHitRate: row.weightedHitRate?.toNumber(),
+      effectiveGameCount: row.effectiveGameCount?.toNumber(),
+      halfLifeDays: row.halfLifeDays ?? undefined,
+      lastNHitRate: row.lastNHitRate?.toNumber(),
+      lastNGameCount: row.lastNGameCount ?? undefined,
+    }));
+  }
+
+  // ================================
+  // LEG CORRELATIONS
+  // ================================
+
+  /**
+   * Estimate same-game correlations between player props from settled
+   * historical props that share a gameId.
+   */
+  static async calculateLegCorrelations(
+    sportKey: string,
+    days: number = 365,
+    options: Partial<CorrelationEstimateOptions> = {}
+  ): Promise<LegCorrelation[]> {
+    const sport = await this.getSportByKey(sportKey);
+    if (!sport) return [];
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const historicalData = await prisma.historicalProp.findMany({
+      where: {
+        sportId: sport.id,
+        gameId: { not: null },
+        gameDate: { gte: startDate },
+        hit: { not: null },
+      },
+      select: {
+        gameId: true,
+        playerName: true,
+        propType: true,
+        hit: true,
+      },
+    });
+
+    return estimateLegCorrelations(historicalData, options);
+  }
+
+  /**
+   * Re-estimate and store a sport's correlations, returning the new estimates
+   */
+  static async refreshLegCorrelations(sportKey: string): Promise<LegCorrelation[]> {
+    const correlations = await this.calculateLegCorrelations(sportKey);
+    await this.saveLegCorrelations(sportKey, correlations);
+    return correlations;
+  }
+
+  static async saveLegCorrelations(sportKey: string, correlations: LegCorrelation[]): Promise<void> {
+    await this.setSystemConfig(`leg_correlations_${sportKey}`, correlations, 'correlations');
+  }
+
+  static async getLegCorrelations(sportKey: string): Promise<LegCorrelation[]> {
+    return (await this.getSystemConfig(`leg_correlations_${sportKey}`)) || [];
   }
 
   // ================================
@@ -334,9 +740,15 @@ export class DataService {
   // USER BETS TRACKING
   // ================================
 
+  /**
+   * Record a bet. The event, side and start time are required so captureClosingLines can find it.
+   */
   static async recordBet(
     userId: string,
     propData: PropData & {
+      gameId: string;
+      selection: string;
+      commenceTime: Date;
       predictedEv: number;
       betAmount?: number;
       confidence?: string;
@@ -359,12 +771,96 @@ export class DataService {
         platformId: platform.id,
         odds: propData.odds,
         confidence: propData.confidence,
-        gameDate: propData.gameDate,
+        gameDate: propData.gameDate ?? propData.commenceTime,
         kellyFraction: propData.kellyFraction,
+        eventId: propData.gameId,
+        sportKey: propData.sport,
+        selection: propData.selection,
+        commenceTime: propData.commenceTime,
       },
     });
   }
 
+  /**
+   * Snapshot the market for every open bet whose event starts within the window.
+   * Each run overwrites the last, so the final run before the start holds the close.
+   */
+  static async captureClosingLines(
+    now: Date = new Date(),
+    windowMinutes: number = CLOSING_LINE_WINDOW_MINUTES
+  ): Promise<{ updated: number; errors: string[] }> {
+    const errors: string[] = [];
+    let updated = 0;
+
+    const bets = await prisma.userBet.findMany({
+      where: {
+        settledAt: null,
+        eventId: { not: null },
+        sportKey: { not: null },
+        commenceTime: {
+          gt: now,
+          lte: new Date(now.getTime() + windowMinutes * 60 * 1000),
+        },
+      },
+      include: { platform: true },
+    });
+
+    // One request per event covers every bet on it
+    const byEvent = new Map<string, typeof bets>();
+    for (const bet of bets) {
+      const key = `${bet.sportKey}|${bet.eventId}`;
+      byEvent.set(key, [...(byEvent.get(key) ?? []), bet]);
+    }
+
+    for (const eventBets of byEvent.values()) {
+      const { sportKey, eventId } = eventBets[0];
+      try {
+        const event = await fetchDFSProps(sportKey!, eventId!);
+        const bookmakers: PropBookmakerQuote[] = event?.bookmakers ?? [];
+        const fairValues = PropFairValueService.buildFairValues(bookmakers);
+
+        for (const bet of eventBets) {
+          const line = bet.line.toNumber();
+          const selection = bet.selection ?? 'Over';
+          const closingOdds = bookmakers
+            .find(bookmaker => bookmaker.key === bet.platform.key)
+            ?.markets.find(market => market.key === bet.propType)
+            ?.outcomes.find(outcome =>
+              outcome.description === bet.playerName &&
+              outcome.name === selection &&
+              (outcome.point ?? 0) === line
+            )?.price;
+          const fairValue = PropFairValueService.getFairProbability(
+            fairValues,
+            bet.playerName,
+            bet.propType,
+            line,
+            selection
+          );
+          const clv = bet.odds
+            ? calculateClosingLineValue(bet.odds, closingOdds, fairValue?.probability)
+            : { cents: null, probability: null };
+
+          await prisma.userBet.update({
+            where: { id: bet.id },
+            data: {
+              closingOdds: closingOdds ?? null,
+              closingFairProbability: fairValue?.probability ?? null,
+              clvCents: clv.cents,
+              clvProbability: clv.probability,
+              closingCapturedAt: now,
+            },
+          });
+          updated++;
+        }
+      } catch (error) {
+        errors.push(`Failed to capture closing lines for ${eventId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return { updated, errors };
+  }
+
   static async settleBet(
     betId: string,
     actualResult: number,
@@ -425,17 +921,23 @@ export class DataService {
     periodStart: Date,
     periodEnd: Date
   ): Promise<UserPerformanceMetrics> {
-    const bets = await prisma.userBet.findMany({
+    const periodBets = await prisma.userBet.findMany({
       where: {
         userId,
         betDate: {
           gte: periodStart,
           lte: periodEnd,
         },
-        settledAt: { not: null },
       },
     });
 
+    // CLV is known at the start of the event, so open bets count towards it too
+    const clv = summarizeClosingLineValue(periodBets.map(bet => ({
+      clvCents: bet.clvCents?.toNumber(),
+      clvProbability: bet.clvProbability?.toNumber(),
+    })));
+
+    const bets = periodBets.filter(bet => bet.settledAt !== null);
     const totalBets = bets.length;
     const winningBets = bets.filter(bet => bet.won).length;
     const winRate = totalBets > 0 ? winningBets / totalBets : 0;
@@ -473,6 +975,10 @@ export class DataService {
       roi,
       currentStreak,
       longestWinStreak,
+      clvBets: clv.betCount,
+      averageClv: clv.averageProbability,
+      averageClvCents: clv.averageCents,
+      positiveClvRate: clv.positiveRate,
     };
   }
 
@@ -682,12 +1188,22 @@ export async function calculateAndSaveHitRate(data: {
   return DataService.saveHitRate(hitRateData, sportKey, season);
 }
 
-export async function getHitRate(playerName: string, propType: string, line: number, sport: string = 'basketball_nba'): Promise<number> {
-  return DataService.getHitRate(playerName, propType, line, sport);
+export async function getHitRate(
+  playerName: string,
+  propType: string,
+  line: number,
+  sport: string = 'basketball_nba',
+  source: HitRateSource = 'flat'
+): Promise<number> {
+  return DataService.getHitRate(playerName, propType, line, sport, source);
 }
 
 export async function refreshDataAutomation(): Promise<{ success: boolean; propsCount: number; errors: string[] }> {
   return DataService.refreshPropsData();
 }
 
+export async function captureClosingLines(): Promise<{ updated: number; errors: string[] }> {
+  return DataService.captureClosingLines();
+}
+
 export default DataService;
\ No newline at end of file
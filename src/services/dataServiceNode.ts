@@ -6,6 +6,7 @@
 
 import { prisma } from './database';
 import { fetchDFSPropsNode } from './apiNode';
+import { gradePropOutcome, outcomeToHit, resolvePropOutcome } from '../utils/statDistribution';
 import type { 
   HistoricalProp, 
   Sport,
@@ -61,6 +62,10 @@ export interface UserPerformanceMetrics {
   roi: number;
   currentStreak: number;
   longestWinStreak: number;
+  clvBets: number;
+  averageClv: number;
+  averageClvCents: number;
+  positiveClvRate: number;
 }
 
 // Node.js Data Service Class
@@ -78,13 +83,16 @@ export class DataServiceNode {
       throw new Error(`Invalid sport (${propData.sport}) or platform (${propData.platform})`);
     }
 
+    const outcome = resolvePropOutcome(propData.line, propData.actualResult, propData.hit);
+
     return prisma.historicalProp.create({
       data: {
         playerName: propData.playerName,
         propType: propData.propType,
         line: propData.line,
         actualResult: propData.actualResult,
-        hit: propData.hit,
+        hit: outcome ? outcomeToHit(outcome) : undefined,
+        outcome,
         gameDate: propData.gameDate || new Date(),
         sportId: sport.id,
         platformId: platform.id,
@@ -142,13 +150,14 @@ export class DataServiceNode {
       throw new Error('Historical prop not found');
     }
 
-    const hit = actualResult >= prop.line.toNumber();
+    const outcome = gradePropOutcome(actualResult, prop.line.toNumber());
 
     return prisma.historicalProp.update({
       where: { id },
       data: {
         actualResult,
-        hit,
+        hit: outcomeToHit(outcome),
+        outcome,
         updatedAt: new Date(),
       },
     });
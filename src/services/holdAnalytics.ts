@@ -0,0 +1,175 @@
+/* ++++++++++ HOLD ANALYTICS SERVICE ++++++++++ */
+import { HoldEvent, calculateEventHolds } from '../utils/hold';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface HoldSnapshot {
+  timestamp: string;
+  hold: number;
+  marketCount: number;
+}
+
+export interface BookHoldHistory {
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  sport: string;
+  marketKey: string;
+  snapshots: HoldSnapshot[]; // Oldest first
+}
+
+export interface BookHoldRanking {
+  rank: number;
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  averageHold: number; // Over the rolling window, weighted by markets priced
+  latestHold: number;
+  marketCount: number; // Markets priced within the window
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const HOLD_HISTORY_STORAGE_KEY = 'oddsly_book_holds';
+
+export const HOLD_ROLLING_WINDOW_DAYS = 7;
+const HOLD_RETENTION_DAYS = 30;
+
+// Fetches closer together than this are merged into one snapshot
+const SNAPSHOT_INTERVAL_MINUTES = 15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Hold Analytics Service
+export class HoldAnalyticsService {
+  /**
+   * Add the hold every book charged in these events to its rolling history.
+   */
+  static record(events: HoldEvent[], now: Date = new Date()): void {
+    const history = this.load();
+
+    // Combine every event in this fetch into one hold per book, sport and market
+    const current = new Map<string, { history: BookHoldHistory; total: number; marketCount: number }>();
+    for (const sample of events.flatMap(event => calculateEventHolds(event))) {
+      const key = this.getHistoryKey(sample.sport, sample.marketKey, sample.bookmakerKey);
+      const entry = current.get(key) ?? {
+        history: history[key] ?? {
+          bookmakerKey: sample.bookmakerKey,
+          bookmakerTitle: sample.bookmakerTitle,
+          sport: sample.sport,
+          marketKey: sample.marketKey,
+          snapshots: []
+        },
+        total: 0,
+        marketCount: 0
+      };
+      entry.total += sample.hold * sample.marketCount;
+      entry.marketCount += sample.marketCount;
+      current.set(key, entry);
+    }
+
+    for (const [key, { history: bookHistory, total, marketCount }] of current) {
+      const last = bookHistory.snapshots[bookHistory.snapshots.length - 1];
+      const recent = last && now.getTime() - new Date(last.timestamp).getTime() < SNAPSHOT_INTERVAL_MINUTES * 60 * 1000;
+      const snapshot: HoldSnapshot = recent
+        ? {
+          timestamp: last.timestamp,
+          hold: (last.hold * last.marketCount + total) / (last.marketCount + marketCount),
+          marketCount: last.marketCount + marketCount
+        }
+        : { timestamp: now.toISOString(), hold: total / marketCount, marketCount };
+
+      history[key] = {
+        ...bookHistory,
+        snapshots: [...(recent ? bookHistory.snapshots.slice(0, -1) : bookHistory.snapshots), snapshot]
+      };
+    }
+
+    this.save(this.prune(history, now));
+  }
+
+  /**
+   * Books ranked by rolling average hold on one sport's market, cheapest first.
+   */
+  static getRankings(
+    sport: string,
+    marketKey: string,
+    now: Date = new Date(),
+    windowDays: number = HOLD_ROLLING_WINDOW_DAYS
+  ): BookHoldRanking[] {
+    const since = now.getTime() - windowDays * DAY_MS;
+    const rankings: Omit<BookHoldRanking, 'rank'>[] = [];
+
+    for (const bookHistory of Object.values(this.load())) {
+      if (bookHistory.sport !== sport || bookHistory.marketKey !== marketKey) continue;
+      const snapshots = bookHistory.snapshots.filter(snapshot => new Date(snapshot.timestamp).getTime() >= since);
+      if (snapshots.length === 0) continue;
+
+      const marketCount = snapshots.reduce((sum, snapshot) => sum + snapshot.marketCount, 0);
+      rankings.push({
+        bookmakerKey: bookHistory.bookmakerKey,
+        bookmakerTitle: bookHistory.bookmakerTitle,
+        averageHold: snapshots.reduce((sum, snapshot) => sum + snapshot.hold * snapshot.marketCount, 0) / marketCount,
+        latestHold: snapshots[snapshots.length - 1].hold,
+        marketCount
+      });
+    }
+
+    return rankings
+      .sort((a, b) => a.averageHold - b.averageHold)
+      .map((ranking, index) => ({ ...ranking, rank: index + 1 }));
+  }
+
+  /**
+   * Every sport and market with holds inside the rolling window, for choosing a ranking.
+   */
+  static getTrackedMarkets(
+    now: Date = new Date(),
+    windowDays: number = HOLD_ROLLING_WINDOW_DAYS
+  ): { sport: string; marketKey: string }[] {
+    const since = now.getTime() - windowDays * DAY_MS;
+    const markets = new Map<string, { sport: string; marketKey: string }>();
+    for (const { sport, marketKey, snapshots } of Object.values(this.load())) {
+      if (!snapshots.some(snapshot => new Date(snapshot.timestamp).getTime() >= since)) continue;
+      markets.set(`${sport}|${marketKey}`, { sport, marketKey });
+    }
+    return [...markets.values()];
+  }
+
+  static clearHistory(): void {
+    try {
+      localStorage.removeItem(HOLD_HISTORY_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to clear hold history:', error);
+    }
+  }
+
+  private static getHistoryKey(sport: string, marketKey: string, bookmakerKey: string): string {
+    return `${sport}|${marketKey}|${bookmakerKey}`;
+  }
+
+  private static prune(history: Record<string, BookHoldHistory>, now: Date): Record<string, BookHoldHistory> {
+    const since = now.getTime() - HOLD_RETENTION_DAYS * DAY_MS;
+    const pruned: Record<string, BookHoldHistory> = {};
+    for (const [key, bookHistory] of Object.entries(history)) {
+      const snapshots = bookHistory.snapshots.filter(snapshot => new Date(snapshot.timestamp).getTime() >= since);
+      if (snapshots.length > 0) pruned[key] = { ...bookHistory, snapshots };
+    }
+    return pruned;
+  }
+
+  private static load(): Record<string, BookHoldHistory> {
+    try {
+      const stored = localStorage.getItem(HOLD_HISTORY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static save(history: Record<string, BookHoldHistory>): void {
+    try {
+      localStorage.setItem(HOLD_HISTORY_STORAGE_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.warn('Failed to save hold history:', error);
+    }
+  }
+}
+
+export default HoldAnalyticsService;
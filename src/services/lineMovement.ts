@@ -0,0 +1,179 @@
+/* ++++++++++ LINE MOVEMENT SERVICE ++++++++++ */
+import type { LineMovementData } from './dataAutomation';
+import { LinePricePoint, LineSeries } from '../utils/lineMovement';
+import { americanToProbability } from '../utils/oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface LineMovementEvent {
+  id: string;
+  commence_time?: string;
+  bookmakers: {
+    key: string;
+    title?: string;
+    last_update?: string;
+    markets: {
+      key: string;
+      last_update?: string;
+      outcomes: { name: string; description?: string; price: number; point?: number }[];
+    }[];
+  }[];
+}
+
+export interface LineHistoryRetention {
+  hoursAfterStart: number; // Events are forgotten this long after they start
+  hoursWithoutStart: number; // Series with no start time are forgotten this long after their last change
+  maxPointsPerSeries: number;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const LINE_HISTORY_STORAGE_KEY = 'oddsly_line_history';
+
+export const DEFAULT_LINE_HISTORY_RETENTION: LineHistoryRetention = {
+  hoursAfterStart: 24,
+  hoursWithoutStart: 72,
+  maxPointsPerSeries: 200
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Line Movement Service
+export class LineMovementService {
+  /**
+   * Append every quote whose price or point changed since the last one recorded for
+   * its book, market and outcome, apply the retention policy, then check movement alerts.
+   */
+  static record(
+    events: LineMovementEvent[],
+    now: Date = new Date(),
+    retention: LineHistoryRetention = DEFAULT_LINE_HISTORY_RETENTION
+  ): void {
+    const history = this.load();
+
+    for (const event of events) {
+      for (const bookmaker of event.bookmakers) {
+        for (const market of bookmaker.markets) {
+          // Timestamp moves with the book's own update time so steam windows line up
+          const timestamp = market.last_update ?? bookmaker.last_update ?? now.toISOString();
+          for (const outcome of market.outcomes) {
+            if (!outcome.price) continue;
+            const id = this.getSeriesId(event.id, bookmaker.key, market.key, outcome.name, outcome.description);
+            const series: LineSeries = history[id] ?? {
+              id,
+              eventId: event.id,
+              bookmakerKey: bookmaker.key,
+              bookmakerTitle: bookmaker.title ?? bookmaker.key,
+              marketKey: market.key,
+              outcomeName: outcome.name,
+              description: outcome.description,
+              commenceTime: event.commence_time,
+              points: []
+            };
+
+            const last = series.points[series.points.length - 1];
+            if (last && last.price === outcome.price && last.point === outcome.point) continue;
+            if (last && new Date(timestamp) < new Date(last.timestamp)) continue;
+
+            const point: LinePricePoint = { timestamp, price: outcome.price, point: outcome.point };
+            series.points = [...series.points, point].slice(-retention.maxPointsPerSeries);
+            history[id] = series;
+          }
+        }
+      }
+    }
+
+    const pruned = this.prune(history, now, retention);
+    this.save(pruned);
+
+    // Alert on the events just recorded. Imported dynamically so the database client stays out of the main bundle
+    const recorded = new Set(events.map(event => event.id));
+    const eventHistory = Object.values(pruned).filter(series => recorded.has(series.eventId));
+    import('./notificationService')
+      .then(({ NotificationService }) => NotificationService.getInstance().checkMovementAlerts(eventHistory, now))
+      .catch(error => console.warn('Failed to check movement alerts:', error));
+  }
+
+  /**
+   * Every recorded series for one event, optionally limited to one market.
+   */
+  static getEventHistory(eventId: string, marketKey?: string): LineSeries[] {
+    return Object.values(this.load()).filter(series =>
+      series.eventId === eventId && (!marketKey || series.marketKey === marketKey)
+    );
+  }
+
+  /**
+   * Consecutive changes within each series, newest first. changePercent is the move
+   * in implied probability, in percentage points.
+   */
+  static getMovements(history: LineSeries[]): LineMovementData[] {
+    const movements: LineMovementData[] = [];
+    for (const series of history) {
+      for (let i = 1; i < series.points.length; i++) {
+        const from = series.points[i - 1];
+        const to = series.points[i];
+        movements.push({
+          propId: series.id,
+          platform: series.bookmakerKey,
+          oldLine: from.point ?? 0,
+          newLine: to.point ?? 0,
+          oldOdds: from.price,
+          newOdds: to.price,
+          changePercent: (americanToProbability(to.price) - americanToProbability(from.price)) * 100,
+          timestamp: new Date(to.timestamp)
+        });
+      }
+    }
+    return movements.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  static clearHistory(): void {
+    try {
+      localStorage.removeItem(LINE_HISTORY_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to clear line history:', error);
+    }
+  }
+
+  static getSeriesId(
+    eventId: string,
+    bookmakerKey: string,
+    marketKey: string,
+    outcomeName: string,
+    description?: string
+  ): string {
+    return `${eventId}|${bookmakerKey}|${marketKey}|${outcomeName}|${description ?? ''}`;
+  }
+
+  private static prune(
+    history: Record<string, LineSeries>,
+    now: Date,
+    retention: LineHistoryRetention
+  ): Record<string, LineSeries> {
+    return Object.fromEntries(Object.entries(history).filter(([, series]) => {
+      const lastChange = series.points[series.points.length - 1]?.timestamp;
+      const expiresAt = series.commenceTime
+        ? new Date(series.commenceTime).getTime() + retention.hoursAfterStart * HOUR_MS
+        : new Date(lastChange ?? 0).getTime() + retention.hoursWithoutStart * HOUR_MS;
+      return expiresAt > now.getTime();
+    }));
+  }
+
+  private static load(): Record<string, LineSeries> {
+    try {
+      const stored = localStorage.getItem(LINE_HISTORY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static save(history: Record<string, LineSeries>): void {
+    try {
+      localStorage.setItem(LINE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.warn('Failed to save line history:', error);
+    }
+  }
+}
+
+export default LineMovementService;
@@ -1,6 +1,14 @@
 /* ++++++++++ REAL-TIME NOTIFICATIONS SERVICE ++++++++++ */
 import { prisma } from './database';
 import type { User } from '@prisma/client';
+import { calculateSportsbookExpectedReturn } from './api';
+import { DEFAULT_SHARP_BOOKS } from './consensusLine';
+import {
+  LineSeries,
+  MoveDirection,
+  detectReverseLineMovement,
+  detectSteamMoves
+} from '../utils/lineMovement';
 
 // Notification interfaces
 export interface NotificationConfig {
@@ -14,6 +22,13 @@ export interface NotificationConfig {
   soundEnabled: boolean;
   emailEnabled: boolean;
   pushEnabled: boolean;
+  // Market movement alerts
+  steamAlertsEnabled: boolean;
+  steamMinCents: number; // Minimum price move at each book
+  steamMinBooks: number; // Books that must move the same way
+  steamWindowMinutes: number; // Within this many minutes of the first move
+  reverseLineAlertsEnabled: boolean;
+  reverseLineMinBooks: number; // Books that must move against the public side
 }
 
 export interface ValueAlert {
@@ -30,6 +45,8 @@ export interface ValueAlert {
   odds: number;
   impliedProbability: number;
   hitRate: number;
+  edge?: number; // hitRate minus break-even probability
+  expectedProfit?: number; // Expected profit per $1 staked
   recommendedBet: number;
   kellyPercentage: number;
   timestamp: Date;
@@ -37,6 +54,27 @@ export interface ValueAlert {
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 }
 
+export type MovementAlertType = 'STEAM' | 'REVERSE_LINE_MOVEMENT';
+
+export interface MovementAlert {
+  id: string;
+  type: MovementAlertType;
+  userId: string;
+  eventId: string;
+  marketKey: string;
+  outcomeName: string; // Side the market moved toward
+  playerName?: string; // Prop markets only
+  direction?: MoveDirection; // Steam only
+  books: string[];
+  message: string;
+  timestamp: Date;
+  isRead: boolean;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+}
+
+// Fields that identify a movement alert for the cooldown
+type MovementAlertSlot = Pick<MovementAlert, 'userId' | 'type' | 'eventId' | 'marketKey' | 'playerName'>;
+
 export interface NotificationPreferences {
   userId: string;
   config: NotificationConfig;
@@ -51,13 +89,17 @@ export interface AlertHistory {
   hourlyCount: number;
 }
 
+// A market that already raised a movement alert stays quiet this long
+const MOVEMENT_ALERT_COOLDOWN_MINUTES = 60;
+
 // Real-time Notifications Service
 export class NotificationService {
   private static instance: NotificationService;
   private alertHistory: Map<string, AlertHistory> = new Map();
+  private movementAlertsSent: Map<string, Date> = new Map();
   private isMonitoring: boolean = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
-  private subscribers: Map<string, (alert: ValueAlert) => void> = new Map();
+  private subscribers: Map<string, (alert: ValueAlert | MovementAlert) => void> = new Map();
 
   private constructor() {}
 
@@ -114,7 +156,7 @@ export class NotificationService {
   /**
    * Subscribe to real-time alerts
    */
-  subscribe(userId: string, callback: (alert: ValueAlert) => void): void {
+  subscribe(userId: string, callback: (alert: ValueAlert | MovementAlert) => void): void {
     this.subscribers.set(userId, callback);
     console.log(`User ${userId} subscribed to real-time alerts`);
   }
@@ -213,12 +255,19 @@ export class NotificationService {
     prop: any,
     config: NotificationConfig
   ): Promise<ValueAlert | null> {
+    // Props without a recorded price cannot be evaluated
+    if (!prop.odds) {
+      return null;
+    }
+
     // Calculate EV and confidence (simplified - would use actual calculation services)
     const hitRate = 0.6; // Would get from DataService
-    const impliedProbability = 1 / prop.odds;
-    const evPercentage = ((hitRate - impliedProbability) / impliedProbability) * 100;
+    const expectedReturn = calculateSportsbookExpectedReturn(hitRate, prop.odds);
+    const impliedProbability = expectedReturn.breakEvenProbability;
+    const evPercentage = expectedReturn.roiPercentage;
     const confidence = 0.8; // Would get from ConfidenceScoring
-    const kellyPercentage = Math.max(0, (hitRate * (prop.odds - 1) - (1 - hitRate)) / (prop.odds - 1));
+    // Kelly: f* = (bp - q) / b, which equals expected profit per $1 divided by net odds
+    const kellyPercentage = Math.max(0, expectedReturn.expectedProfit / (expectedReturn.decimalPayout - 1));
 
     // Check if meets alert criteria
     if (evPercentage < config.evThreshold || confidence < config.confidenceThreshold) {
@@ -248,6 +297,8 @@ export class NotificationService {
       odds: prop.odds,
       impliedProbability,
       hitRate,
+      edge: expectedReturn.edge,
+      expectedProfit: expectedReturn.expectedProfit,
       recommendedBet: 0, // Would calculate using Kelly Criterion
       kellyPercentage,
       timestamp: new Date(),
@@ -258,6 +309,156 @@ export class NotificationService {
     return alert;
   }
 
+  /**
+   * Check fresh line history for steam and reverse line movement. Called whenever
+   * odds are recorded, since a move is only worth chasing in its first minutes.
+   */
+  async checkMovementAlerts(history: LineSeries[], now: Date = new Date()): Promise<void> {
+    try {
+      const users = await prisma.user.findMany({
+        where: {
+          isActive: true,
+          subscriptionStatus: { not: 'cancelled' }
+        }
+      });
+
+      for (const user of users) {
+        try {
+          const preferences = await this.getUserPreferences(user.id);
+          if (!preferences.config.enabled) continue;
+
+          const alerts = this.evaluateMovementForAlerts(user.id, history, preferences.config, now);
+          for (const alert of alerts) {
+            if (!this.canSendAlert(user.id, preferences.config.maxAlertsPerHour)) break;
+            // Re-checked per alert, as one run can find the same market twice
+            if (this.hasRecentMovementAlert(alert, now)) continue;
+            if (await this.sendMovementAlert(alert)) this.claimMovementAlert(alert, now);
+          }
+        } catch (error) {
+          console.error(`Error checking movement alerts for user ${user.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Error in movement alert monitoring: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Movement alerts a user has not yet had for each market. Only steam that finished
+   * inside the user's window counts, so old moves never alert late.
+   */
+  private evaluateMovementForAlerts(
+    userId: string,
+    history: LineSeries[],
+    config: NotificationConfig,
+    now: Date
+  ): MovementAlert[] {
+    const watched = history.filter(series =>
+      !series.marketKey.startsWith('player_') || config.propTypes.includes(series.marketKey)
+    );
+    const alerts: MovementAlert[] = [];
+
+    if (config.steamAlertsEnabled) {
+      const steamMoves = detectSteamMoves(watched, {
+        windowMinutes: config.steamWindowMinutes,
+        minBooks: config.steamMinBooks,
+        minCentsMove: config.steamMinCents
+      });
+      for (const steam of steamMoves) {
+        if (now.getTime() - new Date(steam.endedAt).getTime() > config.steamWindowMinutes * 60 * 1000) continue;
+        if (this.hasRecentMovementAlert({ userId, type: 'STEAM', eventId: steam.eventId, marketKey: steam.marketKey, playerName: steam.description }, now)) continue;
+
+        const sharpMoved = steam.moves.some(move => DEFAULT_SHARP_BOOKS.includes(move.bookmakerKey));
+        const subject = `${steam.description ? `${steam.description} ` : ''}${steam.outcomeName} ${steam.marketKey}`;
+        alerts.push({
+          id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          type: 'STEAM',
+          userId,
+          eventId: steam.eventId,
+          marketKey: steam.marketKey,
+          outcomeName: steam.outcomeName,
+          playerName: steam.description,
+          direction: steam.direction,
+          books: steam.books,
+          message: `Steam ${steam.direction === 'toward' ? 'on' : 'against'} ${subject} at ${steam.books.length} books (${steam.books.join(', ')})`,
+          timestamp: now,
+          isRead: false,
+          priority: this.determineMovementPriority(steam.books.length, sharpMoved)
+        });
+      }
+    }
+
+    if (config.reverseLineAlertsEnabled) {
+      const reverseMoves = detectReverseLineMovement(watched, { minBooks: config.reverseLineMinBooks });
+      for (const movement of reverseMoves) {
+        if (this.hasRecentMovementAlert({ userId, type: 'REVERSE_LINE_MOVEMENT', eventId: movement.eventId, marketKey: movement.marketKey, playerName: movement.description }, now)) continue;
+
+        alerts.push({
+          id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          type: 'REVERSE_LINE_MOVEMENT',
+          userId,
+          eventId: movement.eventId,
+          marketKey: movement.marketKey,
+          outcomeName: movement.sharpSide,
+          playerName: movement.description,
+          books: [],
+          message: `Reverse line movement toward ${movement.description ? `${movement.description} ` : ''}${movement.sharpSide} ${movement.marketKey}: ${movement.booksAgainstPublic} books moved against ${movement.publicSide}`,
+          timestamp: now,
+          isRead: false,
+          priority: movement.assumedPublic ? 'MEDIUM' : 'HIGH'
+        });
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Whether the one alert per user, type and market allowed per cooldown was already sent
+   */
+  private hasRecentMovementAlert(alert: MovementAlertSlot, now: Date): boolean {
+    const cooldownMs = MOVEMENT_ALERT_COOLDOWN_MINUTES * 60 * 1000;
+    for (const [key, sentAt] of this.movementAlertsSent) {
+      if (now.getTime() - sentAt.getTime() > cooldownMs) this.movementAlertsSent.delete(key);
+    }
+    return this.movementAlertsSent.has(this.getMovementAlertKey(alert));
+  }
+
+  /**
+   * Take the cooldown slot for an alert that was sent
+   */
+  private claimMovementAlert(alert: MovementAlertSlot, now: Date): void {
+    this.movementAlertsSent.set(this.getMovementAlertKey(alert), now);
+  }
+
+  private getMovementAlertKey({ userId, type, eventId, marketKey, playerName }: MovementAlertSlot): string {
+    return `${userId}|${type}|${eventId}|${marketKey}|${playerName ?? ''}`;
+  }
+
+  /**
+   * Send a market movement alert to the user. Returns false when it could not be saved.
+   */
+  private async sendMovementAlert(alert: MovementAlert): Promise<boolean> {
+    try {
+      await this.saveAlert(alert);
+      this.updateAlertHistory(alert.userId);
+
+      const subscriber = this.subscribers.get(alert.userId);
+      if (subscriber) {
+        subscriber(alert);
+      }
+
+      await this.sendPushNotification(alert.userId, alert.message);
+      await this.sendEmailNotification(alert.userId, alert.message);
+
+      console.log(`Movement alert sent to user ${alert.userId}: ${alert.message}`);
+      return true;
+    } catch (error) {
+      console.error(`Error sending movement alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+
   /**
    * Send an alert to the user
    */
@@ -275,11 +476,13 @@ export class NotificationService {
         subscriber(alert);
       }
 
+      const message = `${alert.playerName} ${alert.propType} - ${alert.evPercentage.toFixed(1)}% EV`;
+
       // Send push notification (if enabled)
-      await this.sendPushNotification(alert);
+      await this.sendPushNotification(alert.userId, message);
 
       // Send email notification (if enabled)
-      await this.sendEmailNotification(alert);
+      await this.sendEmailNotification(alert.userId, message);
 
       console.log(`Alert sent to user ${alert.userId}: ${alert.playerName} ${alert.propType} (${alert.evPercentage.toFixed(1)}% EV)`);
 
@@ -291,7 +494,7 @@ export class NotificationService {
   /**
    * Save alert to database
    */
-  private async saveAlert(alert: ValueAlert): Promise<void> {
+  private async saveAlert(alert: ValueAlert | MovementAlert): Promise<void> {
     // This would save to a notifications table in the database
     console.log('Saving alert to database:', alert.id);
   }
@@ -299,29 +502,29 @@ export class NotificationService {
   /**
    * Send push notification
    */
-  private async sendPushNotification(alert: ValueAlert): Promise<void> {
-    const preferences = await this.getUserPreferences(alert.userId);
+  private async sendPushNotification(userId: string, message: string): Promise<void> {
+    const preferences = await this.getUserPreferences(userId);
     
     if (!preferences.config.pushEnabled) {
       return;
     }
 
     // Implementation would depend on push notification service (Firebase, etc.)
-    console.log(`Push notification: ${alert.playerName} ${alert.propType} - ${alert.evPercentage.toFixed(1)}% EV`);
+    console.log(`Push notification: ${message}`);
   }
 
   /**
    * Send email notification
    */
-  private async sendEmailNotification(alert: ValueAlert): Promise<void> {
-    const preferences = await this.getUserPreferences(alert.userId);
+  private async sendEmailNotification(userId: string, message: string): Promise<void> {
+    const preferences = await this.getUserPreferences(userId);
     
     if (!preferences.config.emailEnabled) {
       return;
     }
 
     // Implementation would depend on email service (SendGrid, etc.)
-    console.log(`Email notification: ${alert.playerName} ${alert.propType} - ${alert.evPercentage.toFixed(1)}% EV`);
+    console.log(`Email notification: ${message}`);
   }
 
   /**
@@ -341,7 +544,13 @@ export class NotificationService {
         maxAlertsPerHour: 10,
         soundEnabled: true,
         emailEnabled: false,
-        pushEnabled: true
+        pushEnabled: true,
+        steamAlertsEnabled: true,
+        steamMinCents: 10,
+        steamMinBooks: 3,
+        steamWindowMinutes: 5,
+        reverseLineAlertsEnabled: true,
+        reverseLineMinBooks: 2
       },
       createdAt: new Date(),
       updatedAt: new Date()
@@ -413,6 +622,15 @@ export class NotificationService {
     return 'LOW';
   }
 
+  /**
+   * Steam led by a sharp book, or hitting most of the market, is the most actionable
+   */
+  private determineMovementPriority(bookCount: number, sharpMoved: boolean): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
+    if (sharpMoved && bookCount >= 5) return 'CRITICAL';
+    if (sharpMoved || bookCount >= 5) return 'HIGH';
+    return 'MEDIUM';
+  }
+
   /**
    * Get user's alert history
    */
@@ -450,11 +668,13 @@ export class NotificationService {
       line: 25.5,
       platform: 'Test Platform',
       sport: 'NBA',
-      evPercentage: 12.5,
+      evPercentage: 24.1,
       confidence: 0.85,
-      odds: 1.91,
-      impliedProbability: 0.52,
+      odds: -110,
+      impliedProbability: 0.524,
       hitRate: 0.65,
+      edge: 0.126,
+      expectedProfit: 0.241,
       recommendedBet: 25,
       kellyPercentage: 0.08,
       timestamp: new Date(),
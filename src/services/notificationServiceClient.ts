@@ -13,6 +13,13 @@ export interface NotificationConfig {
   soundEnabled: boolean;
   emailEnabled: boolean;
   pushEnabled: boolean;
+  // Market movement alerts
+  steamAlertsEnabled: boolean;
+  steamMinCents: number; // Minimum price move at each book
+  steamMinBooks: number; // Books that must move the same way
+  steamWindowMinutes: number; // Within this many minutes of the first move
+  reverseLineAlertsEnabled: boolean;
+  reverseLineMinBooks: number; // Books that must move against the public side
 }
 
 export interface ValueAlert {
@@ -29,6 +36,8 @@ export interface ValueAlert {
   odds: number;
   impliedProbability: number;
   hitRate: number;
+  edge?: number; // hitRate minus break-even probability
+  expectedProfit?: number; // Expected profit per $1 staked
   recommendedBet: number;
   kellyPercentage: number;
   timestamp: Date;
@@ -36,6 +45,24 @@ export interface ValueAlert {
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 }
 
+export type MovementAlertType = 'STEAM' | 'REVERSE_LINE_MOVEMENT';
+
+export interface MovementAlert {
+  id: string;
+  type: MovementAlertType;
+  userId: string;
+  eventId: string;
+  marketKey: string;
+  outcomeName: string; // Side the market moved toward
+  playerName?: string; // Prop markets only
+  direction?: 'toward' | 'away'; // Steam only
+  books: string[];
+  message: string;
+  timestamp: Date;
+  isRead: boolean;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+}
+
 export interface NotificationPreferences {
   userId: string;
   config: NotificationConfig;
@@ -61,7 +88,13 @@ const DEFAULT_CONFIG: NotificationConfig = {
   maxAlertsPerHour: 10,
   soundEnabled: true,
   emailEnabled: false,
-  pushEnabled: true
+  pushEnabled: true,
+  steamAlertsEnabled: true,
+  steamMinCents: 10,
+  steamMinBooks: 3,
+  steamWindowMinutes: 5,
+  reverseLineAlertsEnabled: true,
+  reverseLineMinBooks: 2
 };
 
 // Storage keys for localStorage
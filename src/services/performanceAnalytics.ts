@@ -1,5 +1,6 @@
 /* ++++++++++ PERFORMANCE ANALYTICS SERVICE ++++++++++ */
 import { prisma } from './database';
+import { summarizeClosingLineValue } from '../utils/clv';
 // import type { UserBet, User } from '@prisma/client';
 
 // Performance analytics interfaces
@@ -23,6 +24,12 @@ export interface BettingPerformance {
   currentStreak: number;
   longestWinStreak: number;
   longestLoseStreak: number;
+  // Closing line value: beating the close shows skill long before results do
+  clvBets: number;
+  averageClv: number; // Closing no-vig probability minus break-even
+  averageClvCents: number;
+  positiveClvRate: number; // Fraction (0-1) of CLV bets that beat the close
+  clvStandardError: number;
   timeframe: string;
 }
 
@@ -95,6 +102,11 @@ export interface RiskMetrics {
   sortinoRatio: number; // Downside deviation adjusted return
 }
 
+// Bets with a closing snapshot needed before CLV drives insights, and how many
+// standard errors from zero the average must be to count as a real edge
+const MIN_CLV_BETS = 30;
+const CLV_SIGNIFICANCE_Z = 2;
+
 // Performance Analytics Service
 export class PerformanceAnalyticsService {
   private static instance: PerformanceAnalyticsService;
@@ -207,6 +219,11 @@ export class PerformanceAnalyticsService {
     // Calculate streaks
     const { currentStreak, longestWinStreak, longestLoseStreak } = this.calculateStreaks(bets);
 
+    const clv = summarizeClosingLineValue(bets.map(bet => ({
+      clvCents: bet.clvCents?.toNumber(),
+      clvProbability: bet.clvProbability?.toNumber()
+    })));
+
     return {
       userId,
       totalBets,
@@ -227,6 +244,11 @@ export class PerformanceAnalyticsService {
       currentStreak,
       longestWinStreak,
       longestLoseStreak,
+      clvBets: clv.betCount,
+      averageClv: Math.round(clv.averageProbability * 10000) / 10000,
+      averageClvCents: Math.round(clv.averageCents * 10) / 10,
+      positiveClvRate: Math.round(clv.positiveRate * 1000) / 1000,
+      clvStandardError: Math.round(clv.standardError * 10000) / 10000,
       timeframe: 'overall'
     };
   }
@@ -454,6 +476,15 @@ export class PerformanceAnalyticsService {
 
     const recommendations: string[] = [];
     const warnings: string[] = [];
+    const { clvBets, averageClv, clvStandardError } = metrics.overall;
+    const clvZScore = clvStandardError > 0 ? averageClv / clvStandardError : 0;
+
+    // CLV first: it separates skill from luck in a few hundred bets, win rate takes thousands
+    if (clvBets >= MIN_CLV_BETS && clvZScore >= CLV_SIGNIFICANCE_Z) {
+      recommendations.push(`You beat the closing line by ${(averageClv * 100).toFixed(1)}% on average - your edge is real even if results lag.`);
+    } else if (clvBets >= MIN_CLV_BETS && clvZScore <= -CLV_SIGNIFICANCE_Z) {
+      warnings.push(`Your bets close ${(Math.abs(averageClv) * 100).toFixed(1)}% worse than you took them - winning so far is likely variance.`);
+    }
 
     // Generate recommendations
     if (metrics.overall.winRate > 55) {
@@ -483,7 +514,9 @@ export class PerformanceAnalyticsService {
 
     // Determine confidence level
     let confidenceLevel: 'HIGH' | 'MEDIUM' | 'LOW';
-    if (metrics.overall.totalBets >= 100 && metrics.overall.winRate > 52) {
+    if (clvBets >= MIN_CLV_BETS && Math.abs(clvZScore) >= CLV_SIGNIFICANCE_Z) {
+      confidenceLevel = 'HIGH';
+    } else if (metrics.overall.totalBets >= 100 && metrics.overall.winRate > 52) {
       confidenceLevel = 'HIGH';
     } else if (metrics.overall.totalBets >= 50) {
       confidenceLevel = 'MEDIUM';
@@ -563,6 +596,11 @@ export class PerformanceAnalyticsService {
       currentStreak: 0,
       longestWinStreak: 0,
       longestLoseStreak: 0,
+      clvBets: 0,
+      averageClv: 0,
+      averageClvCents: 0,
+      positiveClvRate: 0,
+      clvStandardError: 0,
       timeframe: 'overall'
     };
   }
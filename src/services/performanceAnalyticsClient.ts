@@ -1,4 +1,10 @@
 /* ++++++++++ CLIENT-SIDE PERFORMANCE ANALYTICS SERVICE ++++++++++ */
+import axios from 'axios';
+import { getEnvVar } from '../utils/envValidation';
+
+// Backend route that records bets with DataService.recordBet
+const BACKEND_URL = getEnvVar('VITE_BACKEND_URL', '/api');
+const BETS_ENDPOINT = '/bets';
 
 // Performance analytics interfaces (shared with server)
 export interface BettingPerformance {
@@ -21,6 +27,12 @@ export interface BettingPerformance {
   currentStreak: number;
   longestWinStreak: number;
   longestLoseStreak: number;
+  // Closing line value: beating the close shows skill long before results do
+  clvBets: number;
+  averageClv: number; // Closing no-vig probability minus break-even
+  averageClvCents: number;
+  positiveClvRate: number;
+  clvStandardError: number;
   timeframe: string;
 }
 
@@ -51,6 +63,23 @@ export interface PropTypePerformance {
   averageBetSize: number;
 }
 
+// A bet to track; the event, side and start time let the server capture its closing line
+export interface TrackedBet {
+  playerName: string;
+  propType: string;
+  line: number;
+  odds?: number;
+  platform: string;
+  sport: string;
+  gameId: string;
+  selection: string;
+  commenceTime: string; // ISO timestamp
+  predictedEv: number;
+  betAmount?: number;
+  confidence?: string;
+  kellyFraction?: number;
+}
+
 export interface MonthlyPerformance {
   month: string;
   year: number;
@@ -106,6 +135,13 @@ export class PerformanceAnalyticsService {
     return PerformanceAnalyticsService.instance;
   }
 
+  /**
+   * Record a bet for a user on the server
+   */
+  async recordBet(userId: string, bet: TrackedBet): Promise<void> {
+    await axios.post(`${BACKEND_URL}${BETS_ENDPOINT}`, { userId, ...bet }, { withCredentials: true });
+  }
+
   /**
    * Get comprehensive performance metrics for a user (Mock data for browser)
    */
@@ -136,6 +172,11 @@ export class PerformanceAnalyticsService {
         currentStreak: 3,
         longestWinStreak: 8,
         longestLoseStreak: 4,
+        clvBets: 140,
+        averageClv: 0.021,
+        averageClvCents: 8.4,
+        positiveClvRate: 0.62,
+        clvStandardError: 0.004,
         timeframe: 'All Time'
       },
       byPlatform: [
@@ -250,6 +291,11 @@ export class PerformanceAnalyticsService {
           currentStreak: 3,
           longestWinStreak: 5,
           longestLoseStreak: 2,
+          clvBets: 12,
+          averageClv: 0.026,
+          averageClvCents: 10.2,
+          positiveClvRate: 0.67,
+          clvStandardError: 0.013,
           timeframe: 'Last 7 Days'
         },
         last30Days: {
@@ -272,6 +318,11 @@ export class PerformanceAnalyticsService {
           currentStreak: 3,
           longestWinStreak: 6,
           longestLoseStreak: 3,
+          clvBets: 42,
+          averageClv: 0.023,
+          averageClvCents: 9.1,
+          positiveClvRate: 0.64,
+          clvStandardError: 0.007,
           timeframe: 'Last 30 Days'
         },
         last90Days: {
@@ -294,6 +345,11 @@ export class PerformanceAnalyticsService {
           currentStreak: 3,
           longestWinStreak: 8,
           longestLoseStreak: 4,
+          clvBets: 112,
+          averageClv: 0.022,
+          averageClvCents: 8.7,
+          positiveClvRate: 0.63,
+          clvStandardError: 0.005,
           timeframe: 'Last 90 Days'
         }
       }
@@ -310,6 +366,7 @@ export class PerformanceAnalyticsService {
       bestPerformingPropType: 'Points',
       optimalBetSize: 100,
       recommendations: [
+        'You are beating the closing line by 2.1% on average - your edge is real',
         'Focus more on NBA player props for better ROI',
         'Consider increasing bet size on PrizePicks platform',
         'Points props show strongest performance - prioritize these'
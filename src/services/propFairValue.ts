@@ -0,0 +1,156 @@
+/* ++++++++++ PROP FAIR VALUE SERVICE ++++++++++ */
+// Sportsbooks price both sides of a player prop, so devigging each book's Over/Under
+// pair and blending the books gives the market's fair probability for the line. DFS
+// platforms pay a fixed multiplier instead, so their legs are judged against that price.
+import { DFS_PLATFORMS } from './api';
+import { ConsensusBookmaker, ConsensusConfig, ConsensusLine, ConsensusLineService } from './consensusLine';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface PropOutcomeQuote {
+  name: string; // 'Over' / 'Under', or 'Yes' / 'No' on scorer markets
+  description?: string; // Player name
+  price: number;
+  point?: number;
+}
+
+export interface PropMarketQuote {
+  key: string;
+  last_update?: string;
+  outcomes: PropOutcomeQuote[];
+}
+
+export interface PropBookmakerQuote {
+  key: string;
+  title?: string;
+  last_update?: string;
+  markets: PropMarketQuote[];
+}
+
+export interface PropFairValue {
+  playerName: string;
+  stat: string; // Market key without alternate, demon or goblin suffixes
+  line: number;
+  outcomeNames: string[];
+  fairProbabilities: number[]; // Same order as outcomeNames
+  bookCount: number;
+  consensus: ConsensusLine;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const OUTCOME_PAIRS = [['Over', 'Under'], ['Yes', 'No']];
+
+// DFS platform keys with and without the region prefix
+const DFS_PLATFORM_KEYS = new Set<string>(
+  Object.values(DFS_PLATFORMS).flatMap(key => [key, key.replace(/^us_dfs\./, '')])
+);
+
+// Prop Fair Value Service
+export class PropFairValueService {
+  /**
+   * Fair value of every prop at least one sportsbook quotes both sides of,
+   * keyed by getPropKey. Books are weighted and filtered like consensus lines.
+   */
+  static buildFairValues(
+    bookmakers: PropBookmakerQuote[],
+    config: Partial<ConsensusConfig> = {}
+  ): Map<string, PropFairValue> {
+    // Split every book's markets into one single-prop market per player and line,
+    // so consensus lines only ever compare the same player at the same point
+    const props = new Map<string, { playerName: string; stat: string; line: number; books: ConsensusBookmaker[] }>();
+
+    for (const bookmaker of bookmakers) {
+      if (this.isDFSPlatform(bookmaker.key)) continue;
+
+      for (const market of bookmaker.markets) {
+        const stat = this.getStatKey(market.key);
+        const byProp = new Map<string, PropOutcomeQuote[]>();
+        for (const outcome of market.outcomes) {
+          if (!outcome.description || !outcome.price) continue;
+          const key = this.getPropKey(outcome.description, stat, outcome.point ?? 0);
+          byProp.set(key, [...(byProp.get(key) ?? []), outcome]);
+        }
+
+        for (const [key, outcomes] of byProp) {
+          const entry = props.get(key) ?? {
+            playerName: outcomes[0].description!,
+            stat,
+            line: outcomes[0].point ?? 0,
+            books: []
+          };
+          const book: ConsensusBookmaker = {
+            key: bookmaker.key,
+            title: bookmaker.title,
+            last_update: bookmaker.last_update,
+            markets: [{ key: stat, last_update: market.last_update, outcomes }]
+          };
+
+          // A book can quote the same line in its main and alternate markets; it only counts
+          // once, with the main market's price
+          const existing = entry.books.findIndex(other => other.key === bookmaker.key);
+          if (existing === -1) {
+            entry.books.push(book);
+          } else if (market.key === stat) {
+            entry.books[existing] = book;
+          }
+          props.set(key, entry);
+        }
+      }
+    }
+
+    const fairValues = new Map<string, PropFairValue>();
+    for (const [key, prop] of props) {
+      const outcomeNames = OUTCOME_PAIRS.find(pair =>
+        prop.books.some(book => pair.every(name => book.markets[0].outcomes.some(o => o.name === name)))
+      );
+      if (!outcomeNames) continue;
+
+      const consensus = ConsensusLineService.calculateConsensus(prop.books, prop.stat, outcomeNames, config);
+      if (!consensus) continue;
+
+      fairValues.set(key, {
+        playerName: prop.playerName,
+        stat: prop.stat,
+        line: prop.line,
+        outcomeNames,
+        fairProbabilities: consensus.fairProbabilities,
+        bookCount: consensus.contributions.length,
+        consensus
+      });
+    }
+
+    return fairValues;
+  }
+
+  /**
+   * Market fair probability of one side of a prop, or null when no sportsbook
+   * quotes both sides at that exact line.
+   */
+  static getFairProbability(
+    fairValues: Map<string, PropFairValue>,
+    playerName: string,
+    propType: string,
+    line: number,
+    outcomeName: string
+  ): PropFairValue & { probability: number } | null {
+    const fairValue = fairValues.get(this.getPropKey(playerName, this.getStatKey(propType), line));
+    if (!fairValue) return null;
+    const index = fairValue.outcomeNames.indexOf(outcomeName);
+    if (index === -1) return null;
+    return { ...fairValue, probability: fairValue.fairProbabilities[index] };
+  }
+
+  static getPropKey(playerName: string, stat: string, line: number): string {
+    return `${playerName.toLowerCase()}|${stat}|${line}`;
+  }
+
+  // Alternate, demon and goblin markets price the same stat, so they pair with the main market
+  static getStatKey(marketKey: string): string {
+    return marketKey.replace(/_(alternate|demon|goblin)$/, '');
+  }
+
+  static isDFSPlatform(bookmakerKey: string): boolean {
+    return DFS_PLATFORM_KEYS.has(bookmakerKey);
+  }
+}
+
+export default PropFairValueService;
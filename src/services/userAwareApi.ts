@@ -128,6 +128,34 @@ export class UserAwareApiService {
     }
   }
 
+  // Fetch every requested market for one event with user-specific API key
+  static async fetchEventOdds(
+    sport: string,
+    eventId: string,
+    regions: string = 'us,us2',
+    markets: string[],
+    userApiKey?: string,
+    userApiKeyActive?: boolean
+  ) {
+    const apiKey = this.getApiKey(userApiKey, userApiKeyActive);
+
+    try {
+      const response = await axios.get(`${API_BASE_URL}/sports/${sport}/events/${eventId}/odds`, {
+        params: {
+          apiKey,
+          regions,
+          markets: markets.join(','),
+          oddsFormat: 'american',
+          dateFormat: 'iso',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching event odds:', error);
+      throw error;
+    }
+  }
+
   // Validate API key
   static async validateApiKey(apiKey: string): Promise<{ valid: boolean; remainingRequests?: number; error?: string }> {
     try {
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { calculateArbStakes } from './arbitrage';
+
+describe('calculateArbStakes', () => {
+  it('returns the target payout whichever leg wins', () => {
+    const odds = [2.1, 2.05];
+    const split = calculateArbStakes(odds, 100);
+    split.stakes.forEach((stake, i) => expect(stake * odds[i]).toBeCloseTo(100, 10));
+    expect(split.totalStake).toBeCloseTo(100 / 2.1 + 100 / 2.05, 10);
+    expect(split.profit).toBeCloseTo(100 - split.totalStake, 10);
+    expect(split.profitPercentage).toBeCloseTo((split.profit / split.totalStake) * 100, 10);
+  });
+
+  it('profits only when the implied probabilities sum below 1', () => {
+    expect(calculateArbStakes([2.1, 2.05], 100).profit).toBeGreaterThan(0);
+    expect(calculateArbStakes([1.91, 1.91], 100).profit).toBeLessThan(0);
+    expect(calculateArbStakes([2.1, 2.05], 100).impliedProbabilitySum).toBeCloseTo(1 / 2.1 + 1 / 2.05, 12);
+  });
+
+  it('splits three-way markets', () => {
+    const odds = [3.2, 3.6, 3.5];
+    const split = calculateArbStakes(odds, 300);
+    split.stakes.forEach((stake, i) => expect(stake * odds[i]).toBeCloseTo(300, 10));
+    expect(split.profit).toBeGreaterThan(0);
+  });
+
+  it('rejects single legs, odds of 1 or less and non-positive payouts', () => {
+    expect(() => calculateArbStakes([2.1], 100)).toThrow();
+    expect(() => calculateArbStakes([2.1, 1], 100)).toThrow();
+    expect(() => calculateArbStakes([2.1, 2.05], 0)).toThrow();
+  });
+});
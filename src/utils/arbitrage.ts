@@ -0,0 +1,262 @@
+/* ++++++++++ ARBITRAGE UTILITIES ++++++++++ */
+// An arb exists when the best price on every outcome of a market, each possibly at a
+// different book, implies probabilities that sum below 1. Staking each leg in proportion
+// to its implied probability returns the same payout whichever outcome wins.
+import { americanToDecimal } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export type ArbMarketType = 'h2h' | 'spreads' | 'totals' | 'player_props';
+
+export interface ArbOutcome {
+  name: string;
+  price: number; // American odds
+  point?: number;
+  description?: string; // Player name on player prop markets
+}
+
+export interface ArbMarket {
+  key: string;
+  last_update?: string;
+  outcomes: ArbOutcome[];
+}
+
+export interface ArbBookmaker {
+  key: string;
+  title?: string;
+  last_update?: string;
+  markets: ArbMarket[];
+}
+
+export interface ArbEvent {
+  id: string;
+  home_team: string;
+  away_team: string;
+  commence_time?: string;
+  sport?: string;
+  bookmakers: ArbBookmaker[];
+}
+
+export interface ArbStakeSplit {
+  stakes: number[]; // Same order as the odds passed in
+  totalStake: number;
+  payout: number; // Returned by whichever leg wins, stake included
+  profit: number;
+  profitPercentage: number; // Profit as a percentage of totalStake
+  impliedProbabilitySum: number;
+}
+
+export interface ArbLeg {
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  outcomeName: string;
+  point?: number;
+  price: number;
+  decimalOdds: number;
+  stake: number;
+  lastUpdate?: string;
+  stale: boolean;
+}
+
+export interface ArbitrageOpportunity {
+  id: string; // Stable across scans while the same market and line stays open
+  eventId: string;
+  eventName: string;
+  sport?: string;
+  marketKey: string;
+  marketType: ArbMarketType;
+  selection: string; // Line or player the legs cover, e.g. "Over/Under 221.5"
+  legs: ArbLeg[];
+  impliedProbabilitySum: number;
+  profitPercentage: number;
+  totalStake: number;
+  payout: number;
+  profit: number;
+  staleBooks: string[]; // Books whose quote on a leg is older than maxQuoteAgeMinutes
+  firstSeen: string; // ISO timestamp
+}
+
+export interface ArbitrageOptions {
+  targetPayout: number; // Return every leg pays out, stake included
+  minProfitPercentage: number;
+  maxQuoteAgeMinutes: number; // Legs last updated longer ago than this are stale
+  marketTypes: ArbMarketType[];
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_ARBITRAGE_OPTIONS: ArbitrageOptions = {
+  targetPayout: 100,
+  minProfitPercentage: 0,
+  maxQuoteAgeMinutes: 10,
+  marketTypes: ['h2h', 'spreads', 'totals', 'player_props']
+};
+
+export const ARB_MARKET_TYPE_LABELS: Record<ArbMarketType, string> = {
+  h2h: 'Moneyline',
+  spreads: 'Spread',
+  totals: 'Total',
+  player_props: 'Player Prop'
+};
+
+/* ++++++++++ STAKES ++++++++++ */
+/**
+ * Stakes that return targetPayout whichever leg wins. The profit is positive
+ * only when the implied probabilities sum below 1.
+ */
+export const calculateArbStakes = (decimalOdds: number[], targetPayout: number): ArbStakeSplit => {
+  if (decimalOdds.length < 2 || decimalOdds.some(odds => !(odds > 1))) {
+    throw new Error('An arb needs at least two legs with decimal odds above 1');
+  }
+  if (!(targetPayout > 0)) {
+    throw new Error('Target payout must be greater than 0');
+  }
+
+  const stakes = decimalOdds.map(odds => targetPayout / odds);
+  const totalStake = stakes.reduce((sum, stake) => sum + stake, 0);
+  const profit = targetPayout - totalStake;
+
+  return {
+    stakes,
+    totalStake,
+    payout: targetPayout,
+    profit,
+    profitPercentage: (profit / totalStake) * 100,
+    impliedProbabilitySum: decimalOdds.reduce((sum, odds) => sum + 1 / odds, 0)
+  };
+};
+
+/* ++++++++++ MARKET GROUPING ++++++++++ */
+export const getArbMarketType = (marketKey: string): ArbMarketType | null => {
+  if (marketKey === 'h2h' || marketKey === 'h2h_3_way') return 'h2h';
+  if (marketKey === 'spreads' || marketKey === 'alternate_spreads') return 'spreads';
+  if (marketKey === 'totals' || marketKey === 'alternate_totals') return 'totals';
+  if (/^(player|batter|pitcher)_/.test(marketKey)) return 'player_props';
+  return null;
+};
+
+/**
+ * Which set of mutually exclusive outcomes a quote belongs to. Spreads pair a team at
+ * +x with its opponent at -x, totals and props pair Over and Under at the same point.
+ */
+const getOutcomeGroup = (marketType: ArbMarketType, outcome: ArbOutcome, homeTeam: string): string | null => {
+  switch (marketType) {
+    case 'h2h':
+      return '';
+    case 'spreads':
+      if (outcome.point === undefined) return null;
+      return `${outcome.name === homeTeam ? outcome.point : -outcome.point}`;
+    case 'totals':
+      return outcome.point === undefined ? null : `${outcome.point}`;
+    case 'player_props':
+      return `${outcome.description ?? ''}|${outcome.point ?? ''}`;
+  }
+};
+
+const describeSelection = (marketType: ArbMarketType, legs: ArbLeg[], description?: string): string => {
+  const point = legs[0].point;
+  switch (marketType) {
+    case 'h2h':
+      return legs.map(leg => leg.outcomeName).join(' / ');
+    case 'spreads':
+      return legs.map(leg => `${leg.outcomeName} ${leg.point! > 0 ? '+' : ''}${leg.point}`).join(' / ');
+    case 'totals':
+      return `Over/Under ${point}`;
+    case 'player_props':
+      return `${description ?? ''} ${point !== undefined ? `Over/Under ${point}` : legs.map(leg => leg.outcomeName).join(' / ')}`.trim();
+  }
+};
+
+const getQuoteTime = (bookmaker: ArbBookmaker, market: ArbMarket): number | undefined => {
+  const timestamp = market.last_update ?? bookmaker.last_update;
+  if (!timestamp) return undefined;
+  const time = new Date(timestamp).getTime();
+  return isNaN(time) ? undefined : time;
+};
+
+/* ++++++++++ SCANNING ++++++++++ */
+/**
+ * Every arb in one event: for each market and line, the best price on each outcome
+ * across books. Moneylines must price every outcome any book offers (so three-way
+ * markets need the draw); the other markets need both sides.
+ */
+export const findEventArbitrage = (
+  event: ArbEvent,
+  options: Partial<ArbitrageOptions> = {},
+  now: Date = new Date()
+): ArbitrageOpportunity[] => {
+  const settings: ArbitrageOptions = { ...DEFAULT_ARBITRAGE_OPTIONS, ...options };
+
+  // marketKey -> group -> side -> best quote
+  type Quote = { bookmaker: ArbBookmaker; market: ArbMarket; outcome: ArbOutcome; decimalOdds: number; time?: number };
+  const groups = new Map<string, Map<string, Map<string, Quote>>>();
+
+  for (const bookmaker of event.bookmakers) {
+    for (const market of bookmaker.markets) {
+      const marketType = getArbMarketType(market.key);
+      if (!marketType || !settings.marketTypes.includes(marketType)) continue;
+
+      const time = getQuoteTime(bookmaker, market);
+
+      const marketGroups = groups.get(market.key) ?? new Map<string, Map<string, Quote>>();
+      groups.set(market.key, marketGroups);
+
+      for (const outcome of market.outcomes) {
+        if (!outcome.price) continue;
+        const group = getOutcomeGroup(marketType, outcome, event.home_team);
+        if (group === null) continue;
+
+        const sides = marketGroups.get(group) ?? new Map<string, Quote>();
+        marketGroups.set(group, sides);
+        const decimalOdds = americanToDecimal(outcome.price);
+        const best = sides.get(outcome.name);
+        if (!best || decimalOdds > best.decimalOdds) {
+          sides.set(outcome.name, { bookmaker, market, outcome, decimalOdds, time });
+        }
+      }
+    }
+  }
+
+  const opportunities: ArbitrageOpportunity[] = [];
+  for (const [marketKey, marketGroups] of groups) {
+    const marketType = getArbMarketType(marketKey)!;
+
+    for (const [group, sides] of marketGroups) {
+      const quotes = [...sides.values()].sort((a, b) => a.outcome.name.localeCompare(b.outcome.name));
+      if (quotes.length < 2 || (marketType !== 'h2h' && quotes.length !== 2)) continue;
+
+      const split = calculateArbStakes(quotes.map(quote => quote.decimalOdds), settings.targetPayout);
+      if (split.impliedProbabilitySum >= 1 || split.profitPercentage < settings.minProfitPercentage) continue;
+
+      const legs: ArbLeg[] = quotes.map((quote, index) => ({
+        bookmakerKey: quote.bookmaker.key,
+        bookmakerTitle: quote.bookmaker.title ?? quote.bookmaker.key,
+        outcomeName: quote.outcome.name,
+        point: quote.outcome.point,
+        price: quote.outcome.price,
+        decimalOdds: quote.decimalOdds,
+        stake: split.stakes[index],
+        lastUpdate: quote.market.last_update ?? quote.bookmaker.last_update,
+        stale: quote.time !== undefined && now.getTime() - quote.time > settings.maxQuoteAgeMinutes * 60 * 1000
+      }));
+
+      opportunities.push({
+        id: `${event.id}|${marketKey}|${group}`,
+        eventId: event.id,
+        eventName: `${event.home_team} vs ${event.away_team}`,
+        sport: event.sport,
+        marketKey,
+        marketType,
+        selection: describeSelection(marketType, legs, quotes[0].outcome.description),
+        legs,
+        impliedProbabilitySum: split.impliedProbabilitySum,
+        profitPercentage: split.profitPercentage,
+        totalStake: split.totalStake,
+        payout: split.payout,
+        profit: split.profit,
+        staleBooks: [...new Set(legs.filter(leg => leg.stale).map(leg => leg.bookmakerTitle))],
+        firstSeen: now.toISOString()
+      });
+    }
+  }
+
+  return opportunities;
+};
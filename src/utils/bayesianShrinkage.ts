@@ -0,0 +1,165 @@
+/* ++++++++++ BAYESIAN HIT RATE SHRINKAGE ++++++++++ */
+// Beta-binomial model: a player's true hit rate is drawn from a Beta prior fitted to
+// every player's rates for the same sport and prop type, and updated with their own record.
+import { logGamma } from './statDistribution';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface BetaPrior {
+  alpha: number;
+  beta: number;
+  observations: number; // HitRate rows the prior was fitted from (0 = default prior)
+}
+
+export interface ObservedHitRate {
+  hitRate: number;
+  gameCount: number;
+}
+
+export interface ShrunkHitRate {
+  hits: number;
+  games: number;
+  rawHitRate: number | null; // null when there are no games
+  posteriorMean: number;
+  credibleInterval: { lower: number; upper: number };
+  credibleMass: number; // Probability mass inside credibleInterval
+  priorWeight: number; // Share of the posterior mean that comes from the prior
+  alpha: number;
+  beta: number;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+// Centred on 50% and worth 20 games when there is nothing to learn from
+export const DEFAULT_BETA_PRIOR: BetaPrior = { alpha: 10, beta: 10, observations: 0 };
+
+export const DEFAULT_CREDIBLE_MASS = 0.9;
+export const MIN_PRIOR_OBSERVATIONS = 10;
+
+// Bounds on alpha + beta so a prior is never ignorable nor overwhelming
+const MIN_PRIOR_STRENGTH = 4;
+const MAX_PRIOR_STRENGTH = 200;
+
+const CONTINUED_FRACTION_ITERATIONS = 200;
+const QUANTILE_ITERATIONS = 60;
+
+/* ++++++++++ BETA DISTRIBUTION ++++++++++ */
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes betacf)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= CONTINUED_FRACTION_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return result;
+};
+
+/**
+ * CDF of Beta(a, b) at x (the regularized incomplete beta function).
+ */
+export const betaCdf = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+export const betaQuantile = (p: number, a: number, b: number): number => {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < QUANTILE_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (betaCdf(mid, a, b) < p) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+};
+
+/* ++++++++++ PRIOR ESTIMATION ++++++++++ */
+/**
+ * Fit a Beta prior to observed hit rates by the method of moments.
+ * Binomial noise is removed from the spread first, so a pool of small samples
+ * does not look like genuine player-to-player variation.
+ */
+export const estimateBetaPrior = (observations: ObservedHitRate[]): BetaPrior => {
+  const usable = observations.filter(o => o.gameCount > 0 && o.hitRate >= 0 && o.hitRate <= 1);
+  if (usable.length < MIN_PRIOR_OBSERVATIONS) return DEFAULT_BETA_PRIOR;
+
+  const totalGames = usable.reduce((sum, o) => sum + o.gameCount, 0);
+  const mean = usable.reduce((sum, o) => sum + o.hitRate * o.gameCount, 0) / totalGames;
+  if (mean <= 0 || mean >= 1) return DEFAULT_BETA_PRIOR;
+
+  const observedVariance = usable.reduce((sum, o) => sum + o.gameCount * (o.hitRate - mean) ** 2, 0) / totalGames;
+  const samplingVariance = mean * (1 - mean) * (usable.length / totalGames);
+  const trueVariance = observedVariance - samplingVariance;
+
+  const strength = trueVariance > 0
+    ? Math.min(MAX_PRIOR_STRENGTH, Math.max(MIN_PRIOR_STRENGTH, (mean * (1 - mean)) / trueVariance - 1))
+    : MAX_PRIOR_STRENGTH;
+
+  return { alpha: mean * strength, beta: (1 - mean) * strength, observations: usable.length };
+};
+
+/* ++++++++++ POSTERIOR ++++++++++ */
+/**
+ * Posterior hit rate after `hits` in `games`. Hits may be fractional when they come
+ * from a modelled probability (P(over) * sample size) rather than graded props.
+ */
+export const calculatePosteriorHitRate = (
+  hits: number,
+  games: number,
+  prior: BetaPrior = DEFAULT_BETA_PRIOR,
+  credibleMass: number = DEFAULT_CREDIBLE_MASS
+): ShrunkHitRate => {
+  if (games < 0 || hits < 0 || hits > games) {
+    throw new Error('Hits must be between 0 and the number of games');
+  }
+
+  const alpha = prior.alpha + hits;
+  const beta = prior.beta + (games - hits);
+  const tail = (1 - credibleMass) / 2;
+
+  return {
+    hits,
+    games,
+    rawHitRate: games > 0 ? hits / games : null,
+    posteriorMean: alpha / (alpha + beta),
+    credibleInterval: {
+      lower: betaQuantile(tail, alpha, beta),
+      upper: betaQuantile(1 - tail, alpha, beta)
+    },
+    credibleMass,
+    priorWeight: (prior.alpha + prior.beta) / (alpha + beta),
+    alpha,
+    beta
+  };
+};
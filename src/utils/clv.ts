@@ -0,0 +1,83 @@
+/* ++++++++++ CLOSING LINE VALUE UTILITIES ++++++++++ */
+// The closing price is the market's best estimate of a result, so beating it is the
+// clearest sign of a real edge. It needs a few hundred bets to show where win rate
+// needs thousands, because it skips the noise of how each game actually landed.
+import { americanToProbability } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface ClosingLineValue {
+  cents: number | null; // Price beaten at the same book, in cents of American odds
+  probability: number | null; // Closing no-vig probability minus the bet's break-even
+}
+
+export interface ClvBet {
+  clvCents?: number | null;
+  clvProbability?: number | null;
+}
+
+export interface ClvSummary {
+  betCount: number; // Bets with a closing no-vig probability
+  averageCents: number;
+  averageProbability: number;
+  positiveRate: number; // Share of those bets that beat the close
+  standardError: number; // Of averageProbability
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+// Bets are snapshotted on every run this close to the start, so the last run before
+// the event begins leaves the closing price
+export const CLOSING_LINE_WINDOW_MINUTES = 15;
+
+// Runs must come more often than the window is long, or a bet can start between two runs
+// without ever being snapshotted
+export const CLOSING_LINE_CAPTURE_INTERVAL_MINUTES = 5;
+
+/* ++++++++++ CALCULATIONS ++++++++++ */
+/**
+ * American odds on a continuous cents scale, so -110 to -120 and +105 to -105
+ * are both 10 cents.
+ */
+export const americanToCents = (americanOdds: number): number => {
+  return americanOdds > 0 ? americanOdds - 100 : americanOdds + 100;
+};
+
+/**
+ * CLV of a bet placed at betOdds. Positive when the bet beat the close.
+ */
+export const calculateClosingLineValue = (
+  betOdds: number,
+  closingOdds?: number | null,
+  closingFairProbability?: number | null
+): ClosingLineValue => {
+  return {
+    cents: closingOdds ? americanToCents(betOdds) - americanToCents(closingOdds) : null,
+    probability: closingFairProbability !== undefined && closingFairProbability !== null
+      ? closingFairProbability - americanToProbability(betOdds)
+      : null
+  };
+};
+
+export const summarizeClosingLineValue = (bets: ClvBet[]): ClvSummary => {
+  const withProbability = bets.filter(bet => bet.clvProbability !== undefined && bet.clvProbability !== null);
+  const withCents = bets.filter(bet => bet.clvCents !== undefined && bet.clvCents !== null);
+  const count = withProbability.length;
+  if (count === 0) {
+    return { betCount: 0, averageCents: 0, averageProbability: 0, positiveRate: 0, standardError: 0 };
+  }
+
+  const probabilities = withProbability.map(bet => bet.clvProbability!);
+  const averageProbability = probabilities.reduce((sum, value) => sum + value, 0) / count;
+  const variance = count > 1
+    ? probabilities.reduce((sum, value) => sum + Math.pow(value - averageProbability, 2), 0) / (count - 1)
+    : 0;
+
+  return {
+    betCount: count,
+    averageCents: withCents.length > 0
+      ? withCents.reduce((sum, bet) => sum + bet.clvCents!, 0) / withCents.length
+      : 0,
+    averageProbability,
+    positiveRate: probabilities.filter(value => value > 0).length / count,
+    standardError: Math.sqrt(variance / count)
+  };
+};
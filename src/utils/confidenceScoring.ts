@@ -1,4 +1,5 @@
 /* ++++++++++ STATISTICAL CONFIDENCE SCORING SYSTEM ++++++++++ */
+import { ShrunkHitRate } from './bayesianShrinkage';
 
 // Confidence scoring interfaces
 export interface ConfidenceInput {
@@ -8,6 +9,7 @@ export interface ConfidenceInput {
   dataQuality: 'HIGH' | 'MEDIUM' | 'LOW'; // Quality of data sources
   consistency: number; // Consistency score (0-1)
   recency: number; // Recency weight (0-1)
+  credibleInterval?: { lower: number; upper: number }; // Posterior interval from Bayesian shrinkage
 }
 
 export interface ConfidenceResult {
@@ -51,7 +53,10 @@ export class ConfidenceScoring {
     this.validateInputs(input);
 
     // Calculate individual confidence components
-    const sampleSizeConfidence = this.calculateSampleSizeConfidence(sampleSize);
+    // A posterior interval already reflects how much the sample can be trusted
+    const sampleSizeConfidence = input.credibleInterval
+      ? this.calculateIntervalConfidence(input.credibleInterval)
+      : this.calculateSampleSizeConfidence(sampleSize);
     const timeRangeConfidence = this.calculateTimeRangeConfidence(timeRange);
     const dataQualityConfidence = this.calculateDataQualityConfidence(dataQuality);
     const consistencyConfidence = consistency;
@@ -78,7 +83,9 @@ export class ConfidenceScoring {
     const confidenceLevel = this.determineConfidenceLevel(overallConfidence);
 
     // Calculate margin of error
-    const marginOfError = this.calculateMarginOfError(hitRate, sampleSize);
+    const marginOfError = input.credibleInterval
+      ? (input.credibleInterval.upper - input.credibleInterval.lower) / 2
+      : this.calculateMarginOfError(hitRate, sampleSize);
 
     // Generate recommendation
     const recommendation = this.generateRecommendation(overallConfidence, sampleSize, marginOfError);
@@ -100,6 +107,31 @@ export class ConfidenceScoring {
     };
   }
 
+  /**
+   * Score a shrunk (posterior) hit rate, using its credible interval in place of the
+   * normal-approximation margin of error
+   */
+  static calculateFromPosterior(
+    posterior: ShrunkHitRate,
+    context: Omit<ConfidenceInput, 'sampleSize' | 'hitRate' | 'credibleInterval'>
+  ): ConfidenceResult {
+    return this.calculate({
+      ...context,
+      sampleSize: posterior.games,
+      hitRate: posterior.posteriorMean,
+      credibleInterval: posterior.credibleInterval
+    });
+  }
+
+  /**
+   * Collapse a confidence level to the high / medium / low label props carry
+   */
+  static toPropConfidence(level: ConfidenceResult['confidenceLevel']): 'high' | 'medium' | 'low' {
+    if (level === 'VERY_HIGH' || level === 'HIGH') return 'high';
+    if (level === 'MEDIUM') return 'medium';
+    return 'low';
+  }
+
   /**
    * Calculate statistical metrics for the hit rate
    */
@@ -181,6 +213,19 @@ export class ConfidenceScoring {
     return 0.1;
   }
 
+  /**
+   * Calculate confidence from the width of a credible interval
+   */
+  private static calculateIntervalConfidence(interval: { lower: number; upper: number }): number {
+    const width = interval.upper - interval.lower;
+    if (width <= 0.05) return 1.0;
+    if (width <= 0.1) return 0.8;
+    if (width <= 0.15) return 0.6;
+    if (width <= 0.2) return 0.5;
+    if (width <= 0.3) return 0.3;
+    return 0.1;
+  }
+
   /**
    * Calculate confidence based on time range
    */
@@ -283,6 +328,10 @@ export class ConfidenceScoring {
       warnings.push('Extremely small sample size. Statistical analysis not reliable.');
     }
 
+    if (input.credibleInterval && input.credibleInterval.lower < 0.5 && input.credibleInterval.upper > 0.5) {
+      warnings.push('Credible interval includes 50%. The edge may not be real.');
+    }
+
     return warnings;
   }
 
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { calculateHitDistribution } from './dfsEntry';
+import {
+  bivariateNormalCdf,
+  getLegSide,
+  orientCorrelation,
+  simulateCorrelatedHitDistribution,
+  simulateCorrelatedOutcomes
+} from './correlation';
+
+const independent = (n: number): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+const correlated = (n: number, rho: number): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : rho)));
+
+describe('simulateCorrelatedHitDistribution', () => {
+  it('matches the exact Poisson binomial when legs are independent', () => {
+    const probabilities = [0.55, 0.6, 0.45];
+    const simulated = simulateCorrelatedHitDistribution(probabilities, independent(3), 50000);
+    const exact = calculateHitDistribution(probabilities);
+    simulated.forEach((p, hits) => expect(p).toBeCloseTo(exact[hits], 2));
+  });
+
+  it('makes sweeps and blanks more likely when legs are positively correlated', () => {
+    const probabilities = [0.55, 0.55, 0.55];
+    const simulated = simulateCorrelatedHitDistribution(probabilities, correlated(3, 0.5));
+    const exact = calculateHitDistribution(probabilities);
+    expect(simulated[3]).toBeGreaterThan(exact[3] + 0.05);
+    expect(simulated[0]).toBeGreaterThan(exact[0] + 0.05);
+  });
+
+  it('reproduces the bivariate normal joint hit probability for two legs', () => {
+    const simulated = simulateCorrelatedHitDistribution([0.5, 0.5], correlated(2, 0.6), 50000);
+    expect(simulated[2]).toBeCloseTo(bivariateNormalCdf(0, 0, 0.6), 2);
+  });
+
+  it('is deterministic for a given seed', () => {
+    const a = simulateCorrelatedHitDistribution([0.5, 0.6], correlated(2, 0.3), 2000, 7);
+    const b = simulateCorrelatedHitDistribution([0.5, 0.6], correlated(2, 0.3), 2000, 7);
+    expect(a).toEqual(b);
+  });
+});
+
+describe('simulateCorrelatedOutcomes', () => {
+  it('pushes each leg with its push probability', () => {
+    const scenarios = simulateCorrelatedOutcomes([0.45, 0.5], [0.1, 0], independent(2), 50000);
+    const pushed = scenarios.filter(scenario => scenario.pushedLegs.includes(0));
+    expect(pushed.reduce((sum, scenario) => sum + scenario.probability, 0)).toBeCloseTo(0.1, 2);
+    expect(scenarios.every(scenario => !scenario.pushedLegs.includes(1))).toBe(true);
+  });
+});
+
+describe('orientCorrelation', () => {
+  it('flips the sign once for every Under leg', () => {
+    expect(orientCorrelation(0.4, 'over', 'over')).toBe(0.4);
+    expect(orientCorrelation(0.4, 'over', 'under')).toBe(-0.4);
+    expect(orientCorrelation(0.4, 'under', 'under')).toBe(0.4);
+  });
+
+  it('reads Under and No selections as the under side', () => {
+    expect(getLegSide('Under')).toBe('under');
+    expect(getLegSide('No')).toBe('under');
+    expect(getLegSide('Over')).toBe('over');
+    expect(getLegSide()).toBe('over');
+  });
+});
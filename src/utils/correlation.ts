@@ -0,0 +1,336 @@
+/* ++++++++++ LEG CORRELATION UTILITIES ++++++++++ */
+// Same-game legs are modelled with a Gaussian copula: each leg hits when a latent
+// standard normal falls below the quantile of its hit probability, and the latents
+// share the pairwise correlations estimated from historical results. Historical hits
+// grade the Over, so estimates are between Over legs and are re-signed for Unders.
+
+/* ++++++++++ TYPES ++++++++++ */
+export type LegSide = 'over' | 'under';
+
+export interface HistoricalLegResult {
+  gameId: string | null;
+  playerName: string;
+  propType: string;
+  hit: boolean | null;
+}
+
+export interface LegCorrelation {
+  key: string; // getCorrelationKey of the two legs
+  legA: string;
+  legB: string;
+  correlation: number; // Latent (tetrachoric) correlation, shrunk toward 0 for small samples
+  rawCorrelation: number;
+  sharedGames: number;
+}
+
+// One set of pushed legs and how the remaining legs hit, given those pushes
+export interface OutcomeScenario {
+  pushedLegs: number[]; // Indexes of the legs that pushed
+  probability: number;
+  hitDistribution: number[]; // hitDistribution[k] = probability exactly k of the other legs hit
+}
+
+export interface CorrelationEstimateOptions {
+  minSharedGames: number;
+  priorGames: number; // Shrinkage strength: correlation * n / (n + priorGames)
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationEstimateOptions = {
+  minSharedGames: 10,
+  priorGames: 20
+};
+
+export const DEFAULT_SIMULATION_SAMPLES = 20000;
+
+const MAX_LATENT_CORRELATION = 0.95;
+const INTEGRATION_STEPS = 200;
+const SOLVER_ITERATIONS = 60;
+
+/* ++++++++++ NORMAL DISTRIBUTION ++++++++++ */
+// Abramowitz & Stegun 7.1.26
+export const normalCdf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const normalPdf = (x: number): number => Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+
+// Acklam's rational approximation of the standard normal quantile
+export const inverseNormalCdf = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * P(X < a, Y < b) for standard normals with correlation rho.
+ * Integrates the conditional CDF of Y over X with Simpson's rule.
+ */
+export const bivariateNormalCdf = (a: number, b: number, rho: number): number => {
+  if (rho === 0) return normalCdf(a) * normalCdf(b);
+
+  const lower = -8;
+  const upper = Math.min(a, 8);
+  if (upper <= lower) return 0;
+
+  const scale = Math.sqrt(1 - rho * rho);
+  const h = (upper - lower) / INTEGRATION_STEPS;
+  const f = (x: number) => normalPdf(x) * normalCdf((b - rho * x) / scale);
+
+  let total = f(lower) + f(upper);
+  for (let i = 1; i < INTEGRATION_STEPS; i++) {
+    total += f(lower + i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return (total * h) / 3;
+};
+
+/* ++++++++++ ESTIMATION ++++++++++ */
+// Under and No are the low side of a line; anything else, including no selection, is the Over
+export const getLegSide = (selection?: string): LegSide => {
+  const side = selection?.trim().toLowerCase();
+  return side === 'under' || side === 'no' ? 'under' : 'over';
+};
+
+export const getLegKey = (playerName: string, propType: string, side: LegSide = 'over'): string => {
+  return `${playerName.toLowerCase()}|${propType}|${side}`;
+};
+
+/**
+ * Correlation between two legs on the given sides, from the estimate between their Overs.
+ * Taking the Under flips the sign of a leg's latent, so each Under leg negates the correlation.
+ */
+export const orientCorrelation = (overCorrelation: number, sideA: LegSide, sideB: LegSide): number => {
+  let correlation = overCorrelation;
+  if (sideA === 'under') correlation = -correlation;
+  if (sideB === 'under') correlation = -correlation;
+  return correlation;
+};
+
+// Order-independent key for a pair of legs
+export const getCorrelationKey = (legA: string, legB: string): string => {
+  return legA < legB ? `${legA}::${legB}` : `${legB}::${legA}`;
+};
+
+/**
+ * Latent correlation that reproduces an observed 2x2 hit table under the Gaussian copula.
+ * pA and pB are the marginal hit rates, pBoth the rate at which both legs hit.
+ */
+export const calculateTetrachoricCorrelation = (pA: number, pB: number, pBoth: number): number => {
+  if (!(pA > 0 && pA < 1 && pB > 0 && pB < 1)) return 0;
+
+  const a = inverseNormalCdf(pA);
+  const b = inverseNormalCdf(pB);
+  let lo = -MAX_LATENT_CORRELATION;
+  let hi = MAX_LATENT_CORRELATION;
+
+  // Joint hit probability is increasing in rho
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (bivariateNormalCdf(a, b, mid) < pBoth) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Pairwise leg correlations from settled historical props that share a gameId.
+ * Each player/prop is counted once per game; pairs seen in fewer than minSharedGames games are skipped.
+ */
+export const estimateLegCorrelations = (
+  results: HistoricalLegResult[],
+  options: Partial<CorrelationEstimateOptions> = {}
+): LegCorrelation[] => {
+  const settings: CorrelationEstimateOptions = { ...DEFAULT_CORRELATION_OPTIONS, ...options };
+
+  // gameId -> leg key -> hit
+  const games = new Map<string, Map<string, boolean>>();
+  for (const result of results) {
+    if (!result.gameId || result.hit === null) continue;
+    const legs = games.get(result.gameId) ?? new Map<string, boolean>();
+    const legKey = getLegKey(result.playerName, result.propType);
+    if (!legs.has(legKey)) legs.set(legKey, result.hit);
+    games.set(result.gameId, legs);
+  }
+
+  // pair key -> [games, A hits, B hits, both hit]
+  const tables = new Map<string, { legA: string; legB: string; counts: [number, number, number, number] }>();
+  for (const legs of games.values()) {
+    const entries = [...legs.entries()];
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const [first, second] = entries[i][0] < entries[j][0] ? [entries[i], entries[j]] : [entries[j], entries[i]];
+        const key = getCorrelationKey(first[0], second[0]);
+        const table = tables.get(key) ?? { legA: first[0], legB: second[0], counts: [0, 0, 0, 0] };
+        table.counts[0] += 1;
+        if (first[1]) table.counts[1] += 1;
+        if (second[1]) table.counts[2] += 1;
+        if (first[1] && second[1]) table.counts[3] += 1;
+        tables.set(key, table);
+      }
+    }
+  }
+
+  const correlations: LegCorrelation[] = [];
+  for (const [key, { legA, legB, counts }] of tables) {
+    const [sharedGames, hitsA, hitsB, hitsBoth] = counts;
+    if (sharedGames < settings.minSharedGames) continue;
+
+    const rawCorrelation = calculateTetrachoricCorrelation(
+      hitsA / sharedGames,
+      hitsB / sharedGames,
+      hitsBoth / sharedGames
+    );
+    correlations.push({
+      key,
+      legA,
+      legB,
+      correlation: rawCorrelation * sharedGames / (sharedGames + settings.priorGames),
+      rawCorrelation,
+      sharedGames
+    });
+  }
+  return correlations;
+};
+
+/* ++++++++++ SIMULATION ++++++++++ */
+// Small deterministic PRNG so repeated renders of the same slip give the same numbers
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const choleskyDecompose = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let total = matrix[i][j];
+      for (let k = 0; k < j; k++) total -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (total <= 0) return null;
+        lower[i][i] = Math.sqrt(total);
+      } else {
+        lower[i][j] = total / lower[j][j];
+      }
+    }
+  }
+  return lower;
+};
+
+// Pairwise estimates need not form a valid correlation matrix; shrink them until they do
+const toCholesky = (correlationMatrix: number[][]): number[][] => {
+  let matrix = correlationMatrix;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const lower = choleskyDecompose(matrix);
+    if (lower) return lower;
+    matrix = matrix.map((row, i) => row.map((value, j) => (i === j ? 1 : value * 0.9)));
+  }
+  return correlationMatrix.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+};
+
+/**
+ * Win / push / loss scenarios when legs are linked by a Gaussian copula.
+ * A leg wins when its latent falls below the quantile of its win probability and pushes
+ * when it falls in the next pushProbabilities[i] of mass. correlationMatrix[i][j] is the
+ * latent correlation between legs i and j.
+ */
+export const simulateCorrelatedOutcomes = (
+  winProbabilities: number[],
+  pushProbabilities: number[],
+  correlationMatrix: number[][],
+  samples: number = DEFAULT_SIMULATION_SAMPLES,
+  seed: number = 1
+): OutcomeScenario[] => {
+  const n = winProbabilities.length;
+  const winThresholds = winProbabilities.map(inverseNormalCdf);
+  const pushThresholds = winProbabilities.map((p, i) => inverseNormalCdf(p + (pushProbabilities[i] ?? 0)));
+  const lower = toCholesky(correlationMatrix);
+  const random = createRandom(seed);
+  const counts = new Map<number, number[]>(); // Bitmask of pushed legs -> hit counts
+  const normals = new Array(n).fill(0);
+
+  for (let s = 0; s < samples; s++) {
+    for (let i = 0; i < n; i += 2) {
+      // Box-Muller gives two independent normals per pair of uniforms
+      const radius = Math.sqrt(-2 * Math.log(1 - random()));
+      const angle = 2 * Math.PI * random();
+      normals[i] = radius * Math.cos(angle);
+      if (i + 1 < n) normals[i + 1] = radius * Math.sin(angle);
+    }
+
+    let hits = 0;
+    let pushedMask = 0;
+    for (let i = 0; i < n; i++) {
+      let latent = 0;
+      for (let k = 0; k <= i; k++) latent += lower[i][k] * normals[k];
+      if (latent < winThresholds[i]) {
+        hits++;
+      } else if (latent < pushThresholds[i]) {
+        pushedMask |= 1 << i;
+      }
+    }
+    const scenarioCounts = counts.get(pushedMask) ?? new Array(n + 1).fill(0);
+    scenarioCounts[hits]++;
+    counts.set(pushedMask, scenarioCounts);
+  }
+
+  return [...counts.entries()].map(([pushedMask, scenarioCounts]) => {
+    const pushedLegs = winProbabilities.map((_, i) => i).filter(i => pushedMask & (1 << i));
+    const total = scenarioCounts.reduce((sum, count) => sum + count, 0);
+    return {
+      pushedLegs,
+      probability: total / samples,
+      hitDistribution: scenarioCounts.slice(0, n - pushedLegs.length + 1).map(count => count / total)
+    };
+  });
+};
+
+/**
+ * Distribution of the number of hits when legs are linked by a Gaussian copula.
+ * correlationMatrix[i][j] is the latent correlation between legs i and j.
+ */
+export const simulateCorrelatedHitDistribution = (
+  legProbabilities: number[],
+  correlationMatrix: number[][],
+  samples: number = DEFAULT_SIMULATION_SAMPLES,
+  seed: number = 1
+): number[] => {
+  const [scenario] = simulateCorrelatedOutcomes(legProbabilities, [], correlationMatrix, samples, seed);
+  return scenario.hitDistribution;
+};
+
+export const hasCorrelation = (correlationMatrix: number[][]): boolean => {
+  return correlationMatrix.some((row, i) => row.some((value, j) => i !== j && value !== 0));
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEVIG_METHODS,
+  calculateFairProbability,
+  devigAdditive,
+  devigAmericanOdds,
+  devigMultiplicative,
+  devigPower,
+  devigProbabilities,
+  devigShin,
+  devigWorstCase
+} from './devig';
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+// -150 / +130, a favourite with a typical 2-way margin
+const TWO_WAY = [0.6, 100 / 230];
+// Home / draw / away with a longshot
+const THREE_WAY = [0.5, 0.3, 0.25];
+
+describe('devig methods', () => {
+  it.each(DEVIG_METHODS.filter(option => option.value !== 'worst_case'))(
+    '$label removes the whole margin from 2-way and n-way markets',
+    ({ value }) => {
+      expect(sum(devigProbabilities(TWO_WAY, value))).toBeCloseTo(1, 8);
+      expect(sum(devigProbabilities(THREE_WAY, value))).toBeCloseTo(1, 8);
+    }
+  );
+
+  it('multiplicative scales every outcome by the same factor', () => {
+    const [a, b, c] = devigMultiplicative(THREE_WAY);
+    expect(a).toBeCloseTo(0.5 / 1.05, 12);
+    expect(b).toBeCloseTo(0.3 / 1.05, 12);
+    expect(c).toBeCloseTo(0.25 / 1.05, 12);
+  });
+
+  it('additive takes an equal share of the margin from each outcome', () => {
+    const [a, b] = devigAdditive([0.55, 0.5]);
+    expect(a).toBeCloseTo(0.525, 12);
+    expect(b).toBeCloseTo(0.475, 12);
+  });
+
+  it('power and Shin take more margin from the longshot than multiplicative', () => {
+    const multiplicative = devigMultiplicative(THREE_WAY);
+    expect(devigPower(THREE_WAY)[2]).toBeLessThan(multiplicative[2]);
+    expect(devigShin(THREE_WAY)[2]).toBeLessThan(multiplicative[2]);
+    expect(devigPower(THREE_WAY)[0]).toBeGreaterThan(multiplicative[0]);
+  });
+
+  it('leaves a market without margin unchanged', () => {
+    const fair = [0.5, 0.5];
+    for (const { value } of DEVIG_METHODS) {
+      devigProbabilities(fair, value).forEach(p => expect(p).toBeCloseTo(0.5, 8));
+    }
+  });
+
+  it('worst case is never above any other method', () => {
+    const worst = devigWorstCase(THREE_WAY);
+    for (const method of [devigMultiplicative, devigAdditive, devigPower, devigShin]) {
+      method(THREE_WAY).forEach((p, i) => expect(worst[i]).toBeLessThanOrEqual(p + 1e-12));
+    }
+  });
+
+  it('rejects markets with fewer than two outcomes or invalid probabilities', () => {
+    expect(() => devigMultiplicative([0.5])).toThrow();
+    expect(() => devigMultiplicative([0.5, 1.2])).toThrow();
+  });
+});
+
+describe('devigAmericanOdds', () => {
+  it('reports the overround and the fair probability of each side', () => {
+    const result = devigAmericanOdds([-110, -110]);
+    expect(result.overround).toBeCloseTo(2 * 110 / 210 - 1, 12);
+    result.fairProbabilities.forEach(p => expect(p).toBeCloseTo(0.5, 12));
+    expect(calculateFairProbability(-150, 130)).toBeCloseTo(0.6 / (0.6 + 100 / 230), 12);
+  });
+});
@@ -0,0 +1,181 @@
+/* ++++++++++ NO-VIG FAIR PROBABILITY UTILITIES ++++++++++ */
+import { calculateImpliedProbability } from '../services/api';
+
+/* ++++++++++ TYPES ++++++++++ */
+export type DevigMethod = 'multiplicative' | 'additive' | 'power' | 'shin' | 'worst_case';
+
+export interface DevigMethodOption {
+  value: DevigMethod;
+  label: string;
+}
+
+export interface DevigResult {
+  method: DevigMethod;
+  overround: number; // Sum of implied probabilities minus 1 (the book's margin)
+  impliedProbabilities: number[];
+  fairProbabilities: number[];
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_DEVIG_METHOD: DevigMethod = 'multiplicative';
+
+export const DEVIG_METHODS: DevigMethodOption[] = [
+  { value: 'multiplicative', label: 'Multiplicative' },
+  { value: 'additive', label: 'Additive' },
+  { value: 'power', label: 'Power' },
+  { value: 'shin', label: 'Shin' },
+  { value: 'worst_case', label: 'Worst Case' }
+];
+
+const SOLVER_ITERATIONS = 100;
+const SOLVER_TOLERANCE = 1e-10;
+
+/* ++++++++++ HELPERS ++++++++++ */
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+// Bisection for a function that is monotonically decreasing on [low, high]
+const solveDecreasing = (fn: (x: number) => number, low: number, high: number): number => {
+  let lo = low;
+  let hi = high;
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    const value = fn(mid);
+    if (Math.abs(value) < SOLVER_TOLERANCE) return mid;
+    if (value > 0) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+};
+
+const validateImpliedProbabilities = (impliedProbabilities: number[]): void => {
+  if (impliedProbabilities.length < 2) {
+    throw new Error('Devig requires at least two outcomes');
+  }
+  if (impliedProbabilities.some(p => !(p > 0 && p < 1))) {
+    throw new Error('Implied probabilities must be between 0 and 1');
+  }
+};
+
+/* ++++++++++ DEVIG METHODS ++++++++++ */
+export const calculateOverround = (impliedProbabilities: number[]): number => {
+  return sum(impliedProbabilities) - 1;
+};
+
+/**
+ * Scale every outcome by the same factor so the book sums to 1.
+ */
+export const devigMultiplicative = (impliedProbabilities: number[]): number[] => {
+  validateImpliedProbabilities(impliedProbabilities);
+  const total = sum(impliedProbabilities);
+  return impliedProbabilities.map(p => p / total);
+};
+
+/**
+ * Remove an equal share of the margin from every outcome.
+ * Longshots that would go negative are floored at zero and the rest renormalised.
+ */
+export const devigAdditive = (impliedProbabilities: number[]): number[] => {
+  validateImpliedProbabilities(impliedProbabilities);
+  const margin = calculateOverround(impliedProbabilities) / impliedProbabilities.length;
+  const adjusted = impliedProbabilities.map(p => Math.max(0, p - margin));
+  const total = sum(adjusted);
+  return adjusted.map(p => p / total);
+};
+
+/**
+ * Raise every implied probability to a common power k so the book sums to 1.
+ * Takes more margin from longshots than from favourites.
+ */
+export const devigPower = (impliedProbabilities: number[]): number[] => {
+  validateImpliedProbabilities(impliedProbabilities);
+  if (calculateOverround(impliedProbabilities) <= 0) {
+    return devigMultiplicative(impliedProbabilities);
+  }
+
+  const k = solveDecreasing(
+    exponent => sum(impliedProbabilities.map(p => Math.pow(p, exponent))) - 1,
+    1,
+    100
+  );
+  return impliedProbabilities.map(p => Math.pow(p, k));
+};
+
+/**
+ * Shin's model: assumes a share z of money comes from insiders and solves for z.
+ */
+export const devigShin = (impliedProbabilities: number[]): number[] => {
+  validateImpliedProbabilities(impliedProbabilities);
+  const total = sum(impliedProbabilities);
+  if (total <= 1) {
+    return devigMultiplicative(impliedProbabilities);
+  }
+
+  const shinProbabilities = (z: number): number[] =>
+    impliedProbabilities.map(p =>
+      (Math.sqrt(z * z + (4 * (1 - z) * p * p) / total) - z) / (2 * (1 - z))
+    );
+
+  const z = solveDecreasing(insiderShare => sum(shinProbabilities(insiderShare)) - 1, 0, 0.999);
+  return shinProbabilities(z);
+};
+
+/**
+ * Most conservative estimate: the lowest fair probability any method gives each outcome.
+ * The result intentionally does not sum to 1.
+ */
+export const devigWorstCase = (impliedProbabilities: number[]): number[] => {
+  const estimates = [
+    devigMultiplicative(impliedProbabilities),
+    devigAdditive(impliedProbabilities),
+    devigPower(impliedProbabilities),
+    devigShin(impliedProbabilities)
+  ];
+  return impliedProbabilities.map((_, index) => Math.min(...estimates.map(estimate => estimate[index])));
+};
+
+/* ++++++++++ PUBLIC API ++++++++++ */
+export const devigProbabilities = (
+  impliedProbabilities: number[],
+  method: DevigMethod = DEFAULT_DEVIG_METHOD
+): number[] => {
+  switch (method) {
+    case 'multiplicative':
+      return devigMultiplicative(impliedProbabilities);
+    case 'additive':
+      return devigAdditive(impliedProbabilities);
+    case 'power':
+      return devigPower(impliedProbabilities);
+    case 'shin':
+      return devigShin(impliedProbabilities);
+    case 'worst_case':
+      return devigWorstCase(impliedProbabilities);
+    default:
+      throw new Error(`Unknown devig method: ${method}`);
+  }
+};
+
+// Devig a full market quoted in American odds (2-way or n-way), one price per outcome
+export const devigAmericanOdds = (
+  americanOdds: number[],
+  method: DevigMethod = DEFAULT_DEVIG_METHOD
+): DevigResult => {
+  const impliedProbabilities = americanOdds.map(calculateImpliedProbability);
+  return {
+    method,
+    overround: calculateOverround(impliedProbabilities),
+    impliedProbabilities,
+    fairProbabilities: devigProbabilities(impliedProbabilities, method)
+  };
+};
+
+// Fair probability of one side of a 2-way market given both prices
+export const calculateFairProbability = (
+  odds: number,
+  opposingOdds: number,
+  method: DevigMethod = DEFAULT_DEVIG_METHOD
+): number => {
+  return devigAmericanOdds([odds, opposingOdds], method).fairProbabilities[0];
+};
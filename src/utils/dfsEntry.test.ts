@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { DFS_PLATFORMS } from '../services/api';
+import { PropEVData } from './evCalculations';
+import {
+  applyPayoutModifiers,
+  calculateBreakEvenLegProbability,
+  calculateEntryEV,
+  calculateHitDistribution,
+  getPayoutTable
+} from './dfsEntry';
+
+const makeLeg = (id: string, hitRate: number, overrides: Partial<PropEVData> = {}): PropEVData => ({
+  id,
+  playerName: `Player ${id}`,
+  propType: 'player_points',
+  line: 20.5,
+  platform: DFS_PLATFORMS.PRIZEPICKS,
+  odds: 0,
+  hitRate,
+  impliedProbability: 0,
+  evPercentage: 0,
+  isPositiveEV: false,
+  ...overrides
+});
+
+describe('getPayoutTable', () => {
+  it('pays a power entry only when every leg hits', () => {
+    expect(getPayoutTable(DFS_PLATFORMS.PRIZEPICKS, 3, 'power')).toEqual([0, 0, 0, 5]);
+  });
+
+  it('pays flex entries on near misses', () => {
+    expect(getPayoutTable(DFS_PLATFORMS.PRIZEPICKS, 5, 'flex')).toEqual([0, 0, 0, 0.4, 2, 10]);
+    expect(getPayoutTable(DFS_PLATFORMS.UNDERDOG, 3, 'insured')).toEqual([0, 0, 1, 3]);
+  });
+
+  it('re-prices a voided entry at the smaller size, falling back to power', () => {
+    expect(getPayoutTable(DFS_PLATFORMS.PRIZEPICKS, 4, 'flex', 1)).toEqual([0, 0, 1.25, 2.25]);
+    expect(getPayoutTable(DFS_PLATFORMS.PRIZEPICKS, 3, 'flex', 1)).toEqual([0, 0, 3]);
+  });
+
+  it('refunds an entry that shrinks below the minimum size', () => {
+    expect(getPayoutTable(DFS_PLATFORMS.PRIZEPICKS, 2, 'power', 1)).toEqual([1, 1]);
+  });
+
+  it('returns null for entries the platform does not offer', () => {
+    expect(getPayoutTable(DFS_PLATFORMS.PICK6, 3, 'flex')).toBeNull();
+    expect(getPayoutTable(DFS_PLATFORMS.UNDERDOG, 6, 'power')).toBeNull();
+  });
+});
+
+describe('applyPayoutModifiers', () => {
+  it('scales the table by the product of the leg modifiers', () => {
+    const legs = [{ payoutModifier: 1.5 }, { payoutModifier: 0.75 }, {}];
+    expect(applyPayoutModifiers([0, 0, 0, 5], legs)).toEqual([0, 0, 0, 5.625]);
+  });
+
+  it('leaves refund tables alone', () => {
+    expect(applyPayoutModifiers([1, 1], [{ payoutModifier: 1.5 }])).toEqual([1, 1]);
+  });
+});
+
+describe('calculateHitDistribution', () => {
+  it('matches the binomial distribution for identical legs', () => {
+    const distribution = calculateHitDistribution([0.5, 0.5, 0.5]);
+    [0.125, 0.375, 0.375, 0.125].forEach((expected, hits) => {
+      expect(distribution[hits]).toBeCloseTo(expected, 12);
+    });
+  });
+
+  it('is exact for legs with different probabilities', () => {
+    const [none, one, two] = calculateHitDistribution([0.6, 0.3]);
+    expect(none).toBeCloseTo(0.4 * 0.7, 12);
+    expect(one).toBeCloseTo(0.6 * 0.7 + 0.4 * 0.3, 12);
+    expect(two).toBeCloseTo(0.6 * 0.3, 12);
+  });
+
+  it('sums to 1', () => {
+    const distribution = calculateHitDistribution([0.55, 0.61, 0.48, 0.7, 0.52]);
+    expect(distribution.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 12);
+  });
+
+  it('rejects probabilities outside 0-1', () => {
+    expect(() => calculateHitDistribution([0.5, 1.2])).toThrow();
+  });
+});
+
+describe('calculateBreakEvenLegProbability', () => {
+  it('solves the per-leg rate at which a power entry returns the stake', () => {
+    expect(calculateBreakEvenLegProbability([0, 0, 3])).toBeCloseTo(1 / Math.sqrt(3), 6);
+    expect(calculateBreakEvenLegProbability([0, 0, 0, 5])).toBeCloseTo(Math.pow(1 / 5, 1 / 3), 6);
+  });
+});
+
+describe('calculateEntryEV', () => {
+  it('prices independent legs from the exact hit distribution', () => {
+    const result = calculateEntryEV([makeLeg('a', 0.6), makeLeg('b', 0.6), makeLeg('c', 0.6)], { stake: 10 });
+    expect(result.correlated).toBe(false);
+    expect(result.expectedPayout).toBeCloseTo(5 * 0.6 ** 3, 10);
+    expect(result.expectedValue).toBeCloseTo(10 * (5 * 0.6 ** 3 - 1), 10);
+    expect(result.probabilityOfProfit).toBeCloseTo(0.6 ** 3, 10);
+  });
+
+  it('applies demon and goblin modifiers to the payout', () => {
+    const result = calculateEntryEV([
+      makeLeg('a', 0.5, { payoutModifier: 1.5 }),
+      makeLeg('b', 0.5)
+    ]);
+    expect(result.payoutTable).toEqual([0, 0, 4.5]);
+  });
+
+  it('drops a pushed leg and pays the smaller entry', () => {
+    // The push is certain, so the entry is a refunded 1-leg entry
+    const result = calculateEntryEV([
+      makeLeg('a', 0.5, { line: 20, pushProbability: 1 }),
+      makeLeg('b', 0.5)
+    ]);
+    expect(result.expectedPayout).toBeCloseTo(1, 10);
+  });
+
+  it('re-prices around voided legs', () => {
+    const result = calculateEntryEV(
+      [makeLeg('a', 0.5), makeLeg('b', 0.5), makeLeg('c', 0.5)],
+      { voidedLegIds: ['c'] }
+    );
+    expect(result.voidedLegs).toBe(1);
+    expect(result.payoutTable).toEqual([0, 0, 3]);
+    expect(result.expectedPayout).toBeCloseTo(0.75, 10);
+  });
+});
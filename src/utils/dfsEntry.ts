@@ -0,0 +1,283 @@
+/* ++++++++++ DFS ENTRY EV UTILITIES ++++++++++ */
+import { DFSEntryType, PLATFORM_PAYOUTS, getPlatformPayoutTable } from '../services/api';
+import { PropEVData } from './evCalculations';
+import { OutcomeScenario, hasCorrelation, simulateCorrelatedOutcomes } from './correlation';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface DFSEntryOptions {
+  platform?: string; // Defaults to the first leg's platform
+  entryType?: DFSEntryType;
+  stake?: number;
+  voidedLegIds?: string[]; // Legs that were voided and drop out of the entry
+  correlationMatrix?: number[][]; // Latent leg correlations, indexed like the legs passed in
+}
+
+export interface EntryCorrelationComparison {
+  independent: DFSEntryResult;
+  correlated: DFSEntryResult;
+}
+
+export interface DFSEntryResult {
+  platform: string;
+  entryType: DFSEntryType;
+  legCount: number;
+  voidedLegs: number;
+  correlated: boolean; // Hit distribution was simulated with leg correlations
+  stake: number;
+  legProbabilities: number[]; // Active legs' hit rates when they do not push, in the order passed in
+  pushProbabilities: number[]; // Active legs only
+  hitDistribution: number[]; // hitDistribution[k] = probability exactly k legs hit
+  pushDistribution: number[]; // pushDistribution[k] = probability exactly k legs push
+  payoutTable: number[]; // payoutTable[k] = total payout per $1 when exactly k active legs hit and none push, after leg modifiers
+  expectedPayout: number; // Expected total return per $1 staked, stake included
+  expectedProfit: number; // Expected profit per $1 staked
+  expectedValue: number; // expectedProfit scaled to the stake
+  roiPercentage: number;
+  probabilityOfProfit: number; // Probability the entry returns more than the stake
+  breakEvenLegProbability: number; // Per-leg hit rate at which identical active legs break even
+}
+
+export interface EntryOutcomeSummary {
+  expectedPayout: number;
+  probabilityOfProfit: number;
+  hitDistribution: number[];
+  pushDistribution: number[];
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+const SOLVER_ITERATIONS = 100;
+
+/* ++++++++++ HIT DISTRIBUTION ++++++++++ */
+/**
+ * Exact distribution of the number of hits across independent legs (Poisson binomial).
+ * Each leg is folded in one at a time, so the result is exact for any mix of probabilities.
+ */
+export const calculateHitDistribution = (legProbabilities: number[]): number[] => {
+  if (legProbabilities.some(p => !(p >= 0 && p <= 1))) {
+    throw new Error('Leg probabilities must be between 0 and 1');
+  }
+
+  let distribution = [1];
+  for (const p of legProbabilities) {
+    const next = new Array(distribution.length + 1).fill(0);
+    distribution.forEach((probability, hits) => {
+      next[hits] += probability * (1 - p);
+      next[hits + 1] += probability * p;
+    });
+    distribution = next;
+  }
+  return distribution;
+};
+
+/**
+ * Every combination of pushes across independent legs, with the hit distribution of the
+ * legs that did not push. Legs that cannot push (half-point lines) never appear in a
+ * scenario, so an entry without push risk has a single scenario.
+ */
+export const calculatePushScenarios = (hitRates: number[], pushProbabilities: number[]): OutcomeScenario[] => {
+  const pushable = hitRates.map((_, i) => i).filter(i => (pushProbabilities[i] ?? 0) > 0);
+  const scenarios: OutcomeScenario[] = [];
+
+  for (let mask = 0; mask < 1 << pushable.length; mask++) {
+    const pushedLegs = pushable.filter((_, bit) => mask & (1 << bit));
+    const probability = pushable.reduce((product, leg) => {
+      const push = pushProbabilities[leg];
+      return product * (pushedLegs.includes(leg) ? push : 1 - push);
+    }, 1);
+    if (probability === 0) continue;
+
+    scenarios.push({
+      pushedLegs,
+      probability,
+      hitDistribution: calculateHitDistribution(hitRates.filter((_, i) => !pushedLegs.includes(i)))
+    });
+  }
+  return scenarios;
+};
+
+/**
+ * Expected payout, chance of profit and hit / push distributions across push scenarios.
+ * getPayoutTableFor returns the payout table that applies once the given legs have pushed.
+ */
+export const summarizeEntryOutcomes = (
+  scenarios: OutcomeScenario[],
+  legCount: number,
+  getPayoutTableFor: (pushedLegs: number[]) => number[]
+): EntryOutcomeSummary => {
+  const hitDistribution = new Array(legCount + 1).fill(0);
+  const pushDistribution = new Array(legCount + 1).fill(0);
+  let expectedPayout = 0;
+  let probabilityOfProfit = 0;
+
+  for (const { pushedLegs, probability, hitDistribution: scenarioHits } of scenarios) {
+    const payoutTable = getPayoutTableFor(pushedLegs);
+    pushDistribution[pushedLegs.length] += probability;
+    scenarioHits.forEach((hitProbability, hits) => {
+      const joint = probability * hitProbability;
+      hitDistribution[hits] += joint;
+      expectedPayout += joint * (payoutTable[hits] ?? 0);
+      if (payoutTable[hits] > 1) probabilityOfProfit += joint;
+    });
+  }
+
+  return { expectedPayout, probabilityOfProfit, hitDistribution, pushDistribution };
+};
+
+/**
+ * Correlation matrix for a slip. Legs from different games (or without a gameId) are independent.
+ */
+export const buildCorrelationMatrix = (
+  legs: PropEVData[],
+  getCorrelation: (legA: PropEVData, legB: PropEVData) => number
+): number[][] => {
+  return legs.map((legA, i) =>
+    legs.map((legB, j) => {
+      if (i === j) return 1;
+      if (!legA.gameId || legA.gameId !== legB.gameId) return 0;
+      return getCorrelation(legA, legB);
+    })
+  );
+};
+
+/* ++++++++++ PAYOUT TABLES ++++++++++ */
+export const getSupportedLegCounts = (platform: string, entryType: DFSEntryType = 'power'): number[] => {
+  const schedules = PLATFORM_PAYOUTS[platform]?.entries[entryType];
+  if (!schedules) return [];
+  return Object.keys(schedules).map(key => parseInt(key)).sort((a, b) => a - b);
+};
+
+export const getPayoutTable = (
+  platform: string,
+  legCount: number,
+  entryType: DFSEntryType = 'power',
+  voidedLegs: number = 0,
+  pushedLegs: number = 0
+): number[] | null => {
+  return getPlatformPayoutTable(platform, legCount, entryType, voidedLegs, pushedLegs);
+};
+
+/**
+ * Scale a payout table by the legs' payout modifiers (demons, goblins, boosts).
+ * Refund tables are left alone since a refunded entry only returns the stake.
+ */
+export const applyPayoutModifiers = (payoutTable: number[], legs: Pick<PropEVData, 'payoutModifier'>[]): number[] => {
+  const modifier = legs.reduce((product, leg) => product * (leg.payoutModifier ?? 1), 1);
+  if (modifier === 1 || payoutTable.every(payout => payout === 1)) return payoutTable;
+  return payoutTable.map(payout => payout * modifier);
+};
+
+/* ++++++++++ ENTRY EV ++++++++++ */
+export const calculateExpectedPayout = (hitDistribution: number[], payoutTable: number[]): number => {
+  return hitDistribution.reduce((total, probability, hits) => total + probability * (payoutTable[hits] ?? 0), 0);
+};
+
+/**
+ * Hit rate every leg would need for the entry to break even.
+ * Expected payout is increasing in the per-leg probability, so bisection is safe.
+ */
+export const calculateBreakEvenLegProbability = (payoutTable: number[]): number => {
+  const legCount = payoutTable.length - 1;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    const payout = calculateExpectedPayout(calculateHitDistribution(new Array(legCount).fill(mid)), payoutTable);
+    if (payout < 1) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * EV of a full DFS entry where every leg carries its own hit probability (PropEVData.hitRate)
+ * and, on whole-number lines, a push probability. Legs are independent unless a correlation
+ * matrix is given, in which case outcomes are simulated with a Gaussian copula. Voided legs are
+ * removed and the entry re-priced per platform rules; pushed legs follow the platform's push rule.
+ */
+export const calculateEntryEV = (
+  legs: PropEVData[],
+  options: DFSEntryOptions = {}
+): DFSEntryResult => {
+  const {
+    platform = legs[0]?.platform,
+    entryType = 'power',
+    stake = 1,
+    voidedLegIds = [],
+    correlationMatrix
+  } = options;
+
+  if (legs.length === 0) {
+    throw new Error('An entry needs at least one leg');
+  }
+
+  const activeIndexes = legs.map((_, index) => index).filter(index => !voidedLegIds.includes(legs[index].id));
+  const activeLegs = activeIndexes.map(index => legs[index]);
+  const voidedLegs = legs.length - activeLegs.length;
+
+  const baseTable = getPayoutTable(platform, legs.length, entryType, voidedLegs);
+  if (!baseTable) {
+    throw new Error(`${platform} does not offer ${legs.length}-leg ${entryType} entries`);
+  }
+  const payoutTable = applyPayoutModifiers(baseTable, activeLegs);
+
+  // A pushed leg's payout modifier drops out with it
+  const getPayoutTableFor = (pushedLegs: number[]): number[] => {
+    if (pushedLegs.length === 0) return payoutTable;
+    return applyPayoutModifiers(
+      getPayoutTable(platform, legs.length, entryType, voidedLegs, pushedLegs.length)!,
+      activeLegs.filter((_, index) => !pushedLegs.includes(index))
+    );
+  };
+
+  const legProbabilities = activeLegs.map(leg => leg.hitRate);
+  const pushProbabilities = activeLegs.map(leg => leg.pushProbability ?? 0);
+  const activeCorrelations = correlationMatrix
+    ? activeIndexes.map(i => activeIndexes.map(j => correlationMatrix[i][j]))
+    : undefined;
+  const correlated = !!activeCorrelations && hasCorrelation(activeCorrelations);
+  const scenarios = correlated
+    ? simulateCorrelatedOutcomes(
+        legProbabilities.map((hitRate, index) => hitRate * (1 - pushProbabilities[index])),
+        pushProbabilities,
+        activeCorrelations!
+      )
+    : calculatePushScenarios(legProbabilities, pushProbabilities);
+  const { expectedPayout, probabilityOfProfit, hitDistribution, pushDistribution } =
+    summarizeEntryOutcomes(scenarios, activeLegs.length, getPayoutTableFor);
+  const expectedProfit = expectedPayout - 1;
+
+  return {
+    platform,
+    entryType,
+    legCount: legs.length,
+    voidedLegs,
+    correlated,
+    stake,
+    legProbabilities,
+    pushProbabilities,
+    hitDistribution,
+    pushDistribution,
+    payoutTable,
+    expectedPayout,
+    expectedProfit,
+    expectedValue: expectedProfit * stake,
+    roiPercentage: expectedProfit * 100,
+    probabilityOfProfit,
+    breakEvenLegProbability: calculateBreakEvenLegProbability(payoutTable)
+  };
+};
+
+// Same entry priced with and without leg correlations
+export const compareEntryCorrelation = (
+  legs: PropEVData[],
+  correlationMatrix: number[][],
+  options: Omit<DFSEntryOptions, 'correlationMatrix'> = {}
+): EntryCorrelationComparison => {
+  return {
+    independent: calculateEntryEV(legs, options),
+    correlated: calculateEntryEV(legs, { ...options, correlationMatrix })
+  };
+};
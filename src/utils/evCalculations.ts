@@ -1,13 +1,23 @@
 /* ++++++++++ EV CALCULATION UTILITIES ++++++++++ */
 import { 
-  calculateImpliedProbability, 
-  calculatePlatformImpliedProbability,
-  calculateEV,
+  AltLineType,
+  DFSEntryType,
+  PlatformPayoutSchema,
+  ExpectedReturn,
+  calculateExpectedReturn,
+  calculatePlatformExpectedReturn,
+  calculateSportsbookExpectedReturn,
   isPositiveEV,
   getHistoricalHitRate,
+  getAltLineType,
+  getLegPayoutModifier,
   DFS_PLATFORMS,
+  PLATFORM_PAYOUTS,
   PLATFORM_MULTIPLIERS
 } from '../services/api';
+import { DevigMethod, DEFAULT_DEVIG_METHOD, calculateFairProbability } from './devig';
+import { americanToDecimal } from './oddsConversion';
+import { getPayoutTable, calculateBreakEvenLegProbability } from './dfsEntry';
 
 /* ++++++++++ TYPES ++++++++++ */
 export interface PropEVData {
@@ -17,26 +27,51 @@ export interface PropEVData {
   line: number;
   platform: string;
   odds: number;
-  hitRate: number;
-  impliedProbability: number;
-  evPercentage: number;
+  opposingOdds?: number; // Price of the other side of the market, when quoted
+  hitRate: number; // Probability of hitting when the prop does not push
+  pushProbability?: number; // Probability the result lands exactly on the line (0 for half-point lines)
+  impliedProbability: number; // Break-even probability of the offered payout
+  fairProbability?: number; // No-vig market probability: sportsbook consensus at this line, else this quote devigged against opposingOdds
+  fairBookCount?: number; // Sportsbooks behind fairProbability (0 = this quote only)
+  marketEdge?: number; // fairProbability - impliedProbability
+  edge?: number; // hitRate - impliedProbability
+  expectedProfit?: number; // Expected profit per $1 staked
+  evPercentage: number; // Expected ROI % per $1 staked
   isPositiveEV: boolean;
   recommendedBet?: number;
   confidence?: 'high' | 'medium' | 'low';
   gameCount?: number;
   sport?: string;
+  gameId?: string; // Event the prop belongs to, used to correlate same-game legs
+  commenceTime?: string; // Event start, ISO timestamp
+  selection?: string; // Side taken: 'Over' / 'Under', or 'Yes' / 'No'
+  team?: string; // Player's team, when the feed provides it
+  altLineType?: AltLineType;
+  payoutModifier?: number; // Factor this leg applies to the entry payout (1 = standard line)
   lastUpdated?: string;
 }
 
+// Which probability prices a prop: the player's hit rate or the sportsbook market's fair odds
+export type PropProbabilitySource = 'hitRate' | 'market';
+
+export interface OutcomeProbabilities {
+  win: number;
+  push: number;
+  loss: number;
+}
+
 export interface FantasyPlatformConfig {
   name: string;
   key: string;
-  multipliers: Record<string, number>;
+  multipliers: Record<string, number>; // All-or-nothing payout keyed by 'N-leg'
+  payouts: PlatformPayoutSchema; // Payouts by legs hit for every entry type
+  entryTypes: DFSEntryType[];
   supportsAlternates: boolean;
 }
 
 export interface EVFilterOptions {
   minEV: number;
+  minEdge: number;
   minHitRate: number;
   platforms: string[];
   sports: string[];
@@ -50,22 +85,49 @@ export const FANTASY_PLATFORMS: FantasyPlatformConfig[] = [
     name: 'PrizePicks',
     key: DFS_PLATFORMS.PRIZEPICKS,
     multipliers: PLATFORM_MULTIPLIERS[DFS_PLATFORMS.PRIZEPICKS],
+    payouts: PLATFORM_PAYOUTS[DFS_PLATFORMS.PRIZEPICKS],
+    entryTypes: ['power', 'flex'],
     supportsAlternates: true
   },
   {
     name: 'Underdog Fantasy',
     key: DFS_PLATFORMS.UNDERDOG,
     multipliers: PLATFORM_MULTIPLIERS[DFS_PLATFORMS.UNDERDOG],
+    payouts: PLATFORM_PAYOUTS[DFS_PLATFORMS.UNDERDOG],
+    entryTypes: ['power', 'insured'],
     supportsAlternates: true
   },
   {
     name: 'DraftKings Pick6',
     key: DFS_PLATFORMS.PICK6,
     multipliers: PLATFORM_MULTIPLIERS[DFS_PLATFORMS.PICK6],
+    payouts: PLATFORM_PAYOUTS[DFS_PLATFORMS.PICK6],
+    entryTypes: ['power'],
     supportsAlternates: false
   }
 ];
 
+// Fantasy platform most of the props are on, or the first platform when none are
+export const getPropsPlatform = (props: Pick<PropEVData, 'platform'>[]): string => {
+  const counts = new Map<string, number>();
+  for (const prop of props) {
+    if (!FANTASY_PLATFORMS.some(platform => platform.key === prop.platform)) continue;
+    counts.set(prop.platform, (counts.get(prop.platform) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? FANTASY_PLATFORMS[0].key;
+};
+
+export const PROP_PROBABILITY_SOURCE_LABELS: Record<PropProbabilitySource, string> = {
+  hitRate: 'Hit Rate',
+  market: 'Market Fair Odds'
+};
+
+export const DFS_ENTRY_TYPE_LABELS: Record<DFSEntryType, string> = {
+  power: 'Power',
+  flex: 'Flex',
+  insured: 'Insured'
+};
+
 export const PROP_TYPE_CATEGORIES = {
   NBA: {
     scoring: ['player_points', 'player_fantasy_points'],
@@ -97,30 +159,72 @@ export const PROP_TYPE_CATEGORIES = {
 } as const;
 
 /* ++++++++++ EV CALCULATION FUNCTIONS ++++++++++ */
+// Unconditional win, push and loss probabilities of a prop
+export const getOutcomeProbabilities = (prop: Pick<PropEVData, 'hitRate' | 'pushProbability'>): OutcomeProbabilities => {
+  const push = prop.pushProbability ?? 0;
+  return {
+    win: prop.hitRate * (1 - push),
+    push,
+    loss: (1 - prop.hitRate) * (1 - push)
+  };
+};
+
+// Win probability (given no push) a prop is priced with; market pricing falls back to the hit rate
+export const getPropWinProbability = (
+  prop: Pick<PropEVData, 'hitRate' | 'fairProbability'>,
+  source: PropProbabilitySource = 'hitRate'
+): number => {
+  return source === 'market' && prop.fairProbability !== undefined ? prop.fairProbability : prop.hitRate;
+};
+
+// Expected return for a prop on either a DFS platform or a traditional sportsbook
+export const calculatePropExpectedReturn = (
+  hitRate: number,
+  odds: number,
+  platform: string,
+  legCount: number = 3,
+  entryType: DFSEntryType = 'power',
+  payoutModifier: number = 1,
+  pushProbability: number = 0
+): ExpectedReturn => {
+  if (Object.values(DFS_PLATFORMS).includes(platform as any)) {
+    // Fantasy platform - price the leg against the per-leg break-even of the entry's payout table,
+    // using the power table on platforms that do not offer the requested entry type
+    const payoutTable = getPayoutTable(platform, legCount, entryType) ?? getPayoutTable(platform, legCount);
+    // A demon, goblin or boosted leg scales the whole entry payout, so its per-leg payout scales too
+    // A pushed leg drops out of the entry, so like a sportsbook push it hands back its share
+    if (!payoutTable) {
+      const standard = calculatePlatformExpectedReturn(hitRate, platform, legCount);
+      return calculateExpectedReturn(hitRate, standard.decimalPayout * payoutModifier, pushProbability);
+    }
+    return calculateExpectedReturn(
+      hitRate,
+      payoutModifier / calculateBreakEvenLegProbability(payoutTable),
+      pushProbability
+    );
+  }
+  // Traditional sportsbook - use odds
+  return calculateSportsbookExpectedReturn(hitRate, odds, pushProbability);
+};
+
 export const calculatePropEV = async (
   playerName: string,
   propType: string,
   line: number,
   odds: number,
   platform: string,
-  legCount: number = 3
+  legCount: number = 3,
+  entryType: DFSEntryType = 'power'
 ): Promise<PropEVData> => {
   // Get historical hit rate
   const hitRate = await getHistoricalHitRate(playerName, propType, line);
   
-  // Calculate implied probability based on platform
-  let impliedProbability: number;
-  
-  if (Object.values(DFS_PLATFORMS).includes(platform as any)) {
-    // Fantasy platform - use platform-specific multipliers
-    impliedProbability = calculatePlatformImpliedProbability(platform, legCount);
-  } else {
-    // Traditional sportsbook - use odds
-    impliedProbability = calculateImpliedProbability(odds);
-  }
-  
-  // Calculate EV
-  const evPercentage = calculateEV(hitRate, impliedProbability) * 100;
+  // Expected return per $1 at the platform's payout
+  const altLineType = getAltLineType(propType);
+  const payoutModifier = getLegPayoutModifier(propType);
+  const expectedReturn = calculatePropExpectedReturn(hitRate, odds, platform, legCount, entryType, payoutModifier);
+  const impliedProbability = expectedReturn.breakEvenProbability;
+  const evPercentage = expectedReturn.roiPercentage;
   const isPositive = isPositiveEV(hitRate, impliedProbability);
   
   // Determine confidence level
@@ -134,7 +238,11 @@ export const calculatePropEV = async (
     platform,
     odds,
     hitRate,
+    altLineType,
+    payoutModifier,
     impliedProbability,
+    edge: expectedReturn.edge,
+    expectedProfit: expectedReturn.expectedProfit,
     evPercentage,
     isPositiveEV: isPositive,
     confidence
@@ -144,30 +252,55 @@ export const calculatePropEV = async (
 // Synchronous version for prop objects that already have hit rates
 export const calculatePropEVFromData = (
   prop: PropEVData,
-  legCount: number = 3
-): { evPercentage: number; isPositiveEV: boolean; confidence: 'high' | 'medium' | 'low' } => {
-  // Calculate implied probability based on platform
-  let impliedProbability: number;
-  
-  if (Object.values(DFS_PLATFORMS).includes(prop.platform as any)) {
-    // Fantasy platform - use platform-specific multipliers
-    impliedProbability = calculatePlatformImpliedProbability(prop.platform, legCount);
-  } else {
-    // Traditional sportsbook - use odds
-    impliedProbability = calculateImpliedProbability(prop.odds);
+  legCount: number = 3,
+  devigMethod: DevigMethod = DEFAULT_DEVIG_METHOD,
+  entryType: DFSEntryType = 'power',
+  probabilitySource: PropProbabilitySource = 'hitRate'
+): {
+  evPercentage: number;
+  isPositiveEV: boolean;
+  confidence: 'high' | 'medium' | 'low';
+  impliedProbability: number;
+  fairProbability?: number;
+  marketEdge?: number;
+  edge: number;
+  expectedProfit: number;
+} => {
+  // Market's no-vig view of the prop: the sportsbook consensus when one was attached,
+  // else this quote devigged against its other side
+  let fairProbability = prop.fairProbability;
+  if (fairProbability === undefined && prop.opposingOdds !== undefined) {
+    fairProbability = calculateFairProbability(prop.odds, prop.opposingOdds, devigMethod);
   }
+  const winProbability = getPropWinProbability({ hitRate: prop.hitRate, fairProbability }, probabilitySource);
+
+  // Expected return per $1 at the platform's payout
+  const expectedReturn = calculatePropExpectedReturn(
+    winProbability,
+    prop.odds,
+    prop.platform,
+    legCount,
+    entryType,
+    prop.payoutModifier ?? 1,
+    prop.pushProbability ?? 0
+  );
+  const impliedProbability = expectedReturn.breakEvenProbability;
   
-  // Calculate EV
-  const evPercentage = calculateEV(prop.hitRate, impliedProbability) * 100;
-  const isPositive = isPositiveEV(prop.hitRate, impliedProbability);
+  const evPercentage = expectedReturn.roiPercentage;
+  const isPositive = isPositiveEV(winProbability, impliedProbability);
   
   // Determine confidence level
-  const confidence = getConfidenceLevel(prop.hitRate, Math.abs(evPercentage));
+  const confidence = getConfidenceLevel(winProbability, Math.abs(evPercentage));
   
   return {
     evPercentage,
     isPositiveEV: isPositive,
-    confidence
+    confidence,
+    impliedProbability,
+    fairProbability,
+    marketEdge: fairProbability !== undefined ? fairProbability - impliedProbability : undefined,
+    edge: expectedReturn.edge,
+    expectedProfit: expectedReturn.expectedProfit
   };
 };
 
@@ -186,6 +319,7 @@ export const filterPropsByEV = (
 ): PropEVData[] => {
   return props.filter(prop => {
     if (filters.minEV && prop.evPercentage < filters.minEV) return false;
+    if (filters.minEdge && (prop.edge ?? prop.hitRate - prop.impliedProbability) < filters.minEdge) return false;
     if (filters.minHitRate && prop.hitRate < filters.minHitRate) return false;
     if (filters.showOnlyPositiveEV && !prop.isPositiveEV) return false;
     if (filters.platforms && !filters.platforms.includes(prop.platform)) return false;
@@ -226,7 +360,7 @@ export const calculateKellyBet = (
   odds: number,
   maxBetPercentage: number = 0.05 // Max 5% of bankroll
 ): number => {
-  const decimalOdds = odds > 0 ? (odds / 100) + 1 : (100 / Math.abs(odds)) + 1;
+  const decimalOdds = americanToDecimal(odds);
   const q = 1 - hitRate;
   const b = decimalOdds - 1;
   
@@ -245,6 +379,15 @@ export const formatEVPercentage = (ev: number): string => {
   return `${sign}${ev.toFixed(1)}%`;
 };
 
+export const formatEdge = (edge: number): string => {
+  const sign = edge >= 0 ? '+' : '';
+  return `${sign}${(edge * 100).toFixed(1)} pts`;
+};
+
+export const formatPayoutModifier = (modifier: number): string => {
+  return `${modifier.toFixed(2).replace(/\.?0+$/, '')}x`;
+};
+
 export const formatHitRate = (hitRate: number): string => {
   return `${(hitRate * 100).toFixed(1)}%`;
 };
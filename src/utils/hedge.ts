@@ -0,0 +1,157 @@
+/* ++++++++++ HEDGE UTILITIES ++++++++++ */
+// An open bet (or a DFS entry down to its last leg) is a position that returns one amount
+// if its side wins and another if it loses. Hedging bets the other side so both results
+// pay something; the fair cash-out is what the position is worth at no-vig prices.
+import { DFSEntryType } from '../services/api';
+import { applyPayoutModifiers, calculateHitDistribution, getPayoutTable } from './dfsEntry';
+import { americanToDecimal } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface HedgePosition {
+  stake: number; // Already risked
+  winPayout: number; // Total return, stake included, if the open side wins
+  losePayout: number; // Total return if it loses (0 for a straight bet)
+}
+
+export interface HedgeResult {
+  hedgeStake: number;
+  hedgeOdds: number; // American price of the other side
+  profitIfWin: number; // Open side wins, hedge loses
+  profitIfLose: number; // Open side loses, hedge wins
+  guaranteedProfit: number; // Worst of the two; negative is the most that can be lost
+  expectedProfit: number | null; // At the fair win probability, when one was given
+}
+
+export interface CashOutComparison {
+  fairValue: number;
+  offer: number;
+  difference: number; // Offer minus fair value; negative is what taking the offer costs
+  offerHold: number; // Share of fair value the book keeps by cashing out at the offer
+}
+
+export type EntryLegStatus = 'hit' | 'miss' | 'push' | 'open';
+
+export interface EntryLegState {
+  status: EntryLegStatus;
+  probability?: number; // Fair chance an open leg hits
+  payoutModifier?: number; // Factor this leg applies to the entry payout (1 = standard line)
+}
+
+export interface EntryValuation {
+  fairValue: number; // Expected total return of the entry from here
+  maxPayout: number;
+  openLegs: number;
+  position: HedgePosition | null; // Set when one leg is left, so it hedges like a single bet
+}
+
+/* ++++++++++ POSITIONS ++++++++++ */
+export const getBetPosition = (stake: number, odds: number): HedgePosition => {
+  return { stake, winPayout: stake * americanToDecimal(odds), losePayout: 0 };
+};
+
+/**
+ * Fair value of a DFS entry with some legs settled. Demon, goblin and boosted legs scale
+ * the payout; pushed legs follow the platform's push rule and take their modifier with
+ * them. Open legs are assumed independent. Throws when the platform does not offer the
+ * entry size.
+ */
+export const valueDFSEntry = (
+  platform: string,
+  legs: EntryLegState[],
+  stake: number,
+  entryType: DFSEntryType = 'power'
+): EntryValuation => {
+  const pushes = legs.filter(leg => leg.status === 'push').length;
+  const baseTable = getPayoutTable(platform, legs.length, entryType, 0, pushes);
+  if (!baseTable) {
+    throw new Error(`${platform} does not offer ${legs.length}-leg ${entryType} entries`);
+  }
+  const payoutTable = applyPayoutModifiers(baseTable, legs.filter(leg => leg.status !== 'push'));
+
+  const openLegs = legs.filter(leg => leg.status === 'open');
+  if (openLegs.some(leg => !(leg.probability !== undefined && leg.probability >= 0 && leg.probability <= 1))) {
+    throw new Error('Every open leg needs a probability between 0 and 1');
+  }
+
+  // Hits index the payout table among legs that did not push
+  const settledHits = legs.filter(leg => leg.status === 'hit').length;
+  const getReturn = (openHits: number): number => stake * (payoutTable[settledHits + openHits] ?? 0);
+  const distribution = calculateHitDistribution(openLegs.map(leg => leg.probability!));
+
+  return {
+    fairValue: distribution.reduce((total, probability, hits) => total + probability * getReturn(hits), 0),
+    maxPayout: getReturn(openLegs.length),
+    openLegs: openLegs.length,
+    position: openLegs.length === 1
+      ? { stake, winPayout: getReturn(1), losePayout: getReturn(0) }
+      : null
+  };
+};
+
+/* ++++++++++ CASH OUT ++++++++++ */
+export const calculateFairCashOut = (position: HedgePosition, winProbability: number): number => {
+  return winProbability * position.winPayout + (1 - winProbability) * position.losePayout;
+};
+
+export const compareCashOutOffer = (fairValue: number, offer: number): CashOutComparison => {
+  return {
+    fairValue,
+    offer,
+    difference: offer - fairValue,
+    offerHold: fairValue > 0 ? 1 - offer / fairValue : 0
+  };
+};
+
+/* ++++++++++ HEDGES ++++++++++ */
+/**
+ * Profit either way after betting hedgeStake on the other side at hedgeOdds.
+ */
+export const evaluateHedge = (
+  position: HedgePosition,
+  hedgeOdds: number,
+  hedgeStake: number,
+  winProbability?: number
+): HedgeResult => {
+  const hedgeDecimal = americanToDecimal(hedgeOdds);
+  const profitIfWin = position.winPayout - position.stake - hedgeStake;
+  const profitIfLose = position.losePayout + hedgeStake * (hedgeDecimal - 1) - position.stake;
+
+  return {
+    hedgeStake,
+    hedgeOdds,
+    profitIfWin,
+    profitIfLose,
+    guaranteedProfit: Math.min(profitIfWin, profitIfLose),
+    expectedProfit: winProbability !== undefined
+      ? winProbability * profitIfWin + (1 - winProbability) * profitIfLose
+      : null
+  };
+};
+
+/**
+ * Hedge that pays the same whichever side wins.
+ */
+export const calculateFullHedge = (
+  position: HedgePosition,
+  hedgeOdds: number,
+  winProbability?: number
+): HedgeResult => {
+  const hedgeStake = Math.max(0, (position.winPayout - position.losePayout) / americanToDecimal(hedgeOdds));
+  return evaluateHedge(position, hedgeOdds, hedgeStake, winProbability);
+};
+
+/**
+ * Smallest hedge that caps the loss at maxLoss if the open side loses, keeping as much
+ * of the upside as possible. Never larger than the full hedge.
+ */
+export const calculatePartialHedge = (
+  position: HedgePosition,
+  hedgeOdds: number,
+  maxLoss: number,
+  winProbability?: number
+): HedgeResult => {
+  const fullHedge = calculateFullHedge(position, hedgeOdds).hedgeStake;
+  const uncovered = position.stake - position.losePayout - Math.max(0, maxLoss);
+  const hedgeStake = Math.min(fullHedge, Math.max(0, uncovered / (americanToDecimal(hedgeOdds) - 1)));
+  return evaluateHedge(position, hedgeOdds, hedgeStake, winProbability);
+};
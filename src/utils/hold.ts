@@ -0,0 +1,121 @@
+/* ++++++++++ HOLD UTILITIES ++++++++++ */
+// Hold is the share of every dollar bet on a market the book expects to keep when the
+// action is balanced: 1 - 1 / (sum of implied probabilities). A -110 / -110 market
+// holds 4.55%; the lower a book's hold, the less a bet there has to overcome.
+import { americanToProbability } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface HoldOutcome {
+  name: string;
+  description?: string;
+  price: number;
+  point?: number;
+}
+
+export interface HoldEvent {
+  id: string;
+  sport_key?: string;
+  home_team?: string;
+  away_team?: string;
+  bookmakers: {
+    key: string;
+    title?: string;
+    markets: { key: string; outcomes: HoldOutcome[] }[];
+  }[];
+}
+
+export interface HoldSample {
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  sport: string;
+  marketKey: string; // Alternate lines are folded into their main market
+  hold: number; // Average over every complete market the book priced
+  marketCount: number;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const UNKNOWN_SPORT = 'unknown';
+
+// Outcome sets that make up one complete market when every side is quoted
+const TWO_WAY_PAIRS = [['Over', 'Under'], ['Yes', 'No']];
+
+/* ++++++++++ CALCULATIONS ++++++++++ */
+export const calculateHold = (prices: number[]): number => {
+  const overround = prices.reduce((sum, price) => sum + americanToProbability(price), 0);
+  return 1 - 1 / overround;
+};
+
+export const getHoldMarketKey = (marketKey: string): string => {
+  return marketKey.replace(/^alternate_/, '').replace(/_(alternate|demon|goblin)$/, '');
+};
+
+/**
+ * Split one book's market into sets of prices that each cover every result once:
+ * all h2h outcomes, a spread's two sides at mirrored points, or Over/Under (Yes/No)
+ * for the same player at the same point.
+ */
+const getCompleteMarkets = (
+  marketKey: string,
+  outcomes: HoldOutcome[],
+  homeTeam?: string,
+  awayTeam?: string
+): number[][] => {
+  if (marketKey.startsWith('h2h')) {
+    return outcomes.length >= 2 ? [outcomes.map(outcome => outcome.price)] : [];
+  }
+
+  const groups = new Map<string, HoldOutcome[]>();
+  for (const outcome of outcomes) {
+    // A home -3.5 pairs with an away +3.5, so spreads group on the home team's point
+    const point = outcome.point ?? 0;
+    const groupPoint = homeTeam && outcome.name === awayTeam ? -point : point;
+    const key = `${outcome.description ?? ''}|${groupPoint}`;
+    groups.set(key, [...(groups.get(key) ?? []), outcome]);
+  }
+
+  const complete: number[][] = [];
+  for (const group of groups.values()) {
+    const names = group.map(outcome => outcome.name);
+    const isPair = TWO_WAY_PAIRS.some(pair => pair.every(name => names.includes(name)))
+      || (!!homeTeam && !!awayTeam && names.includes(homeTeam) && names.includes(awayTeam));
+    if (isPair && group.length === 2) complete.push(group.map(outcome => outcome.price));
+  }
+  return complete;
+};
+
+/**
+ * Average hold per book and market in one event.
+ */
+export const calculateEventHolds = (event: HoldEvent): HoldSample[] => {
+  const sport = event.sport_key ?? UNKNOWN_SPORT;
+  const byBookMarket = new Map<string, { sample: HoldSample; holds: number[] }>();
+
+  for (const bookmaker of event.bookmakers) {
+    for (const market of bookmaker.markets) {
+      const marketKey = getHoldMarketKey(market.key);
+      for (const prices of getCompleteMarkets(market.key, market.outcomes, event.home_team, event.away_team)) {
+        if (prices.some(price => !price)) continue;
+        const key = `${bookmaker.key}|${marketKey}`;
+        const entry = byBookMarket.get(key) ?? {
+          sample: {
+            bookmakerKey: bookmaker.key,
+            bookmakerTitle: bookmaker.title ?? bookmaker.key,
+            sport,
+            marketKey,
+            hold: 0,
+            marketCount: 0
+          },
+          holds: []
+        };
+        entry.holds.push(calculateHold(prices));
+        byBookMarket.set(key, entry);
+      }
+    }
+  }
+
+  return [...byBookMarket.values()].map(({ sample, holds }) => ({
+    ...sample,
+    hold: holds.reduce((sum, hold) => sum + hold, 0) / holds.length,
+    marketCount: holds.length
+  }));
+};
@@ -1,4 +1,9 @@
 /* ++++++++++ KELLY CRITERION BET SIZING CALCULATIONS ++++++++++ */
+import {
+  americanToDecimal,
+  fractionalToDecimal,
+  decimalToProbability
+} from './oddsConversion';
 
 // Kelly Criterion interfaces
 export interface KellyCalculationInput {
@@ -305,25 +310,21 @@ export class KellyCriterion {
    * Convert American odds to decimal odds
    */
   static americanToDecimal(americanOdds: number): number {
-    if (americanOdds > 0) {
-      return (americanOdds / 100) + 1;
-    } else {
-      return (100 / Math.abs(americanOdds)) + 1;
-    }
+    return americanToDecimal(americanOdds);
   }
 
   /**
    * Convert fractional odds to decimal odds
    */
   static fractionalToDecimal(numerator: number, denominator: number): number {
-    return (numerator / denominator) + 1;
+    return fractionalToDecimal(numerator, denominator);
   }
 
   /**
    * Calculate implied probability from decimal odds
    */
   static impliedProbability(decimalOdds: number): number {
-    return 1 / decimalOdds;
+    return decimalToProbability(decimalOdds);
   }
 
   /**
@@ -0,0 +1,286 @@
+/* ++++++++++ LINE MOVEMENT UTILITIES ++++++++++ */
+// Steam is several books moving the same way within minutes, usually after a sharp
+// group bets one side. Reverse line movement is the line moving against the side the
+// public backs, which only happens when the money on the other side is respected.
+import { americanToCents } from './clv';
+import { americanToProbability } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface LinePricePoint {
+  timestamp: string;
+  price: number;
+  point?: number;
+}
+
+export interface LineSeries {
+  id: string; // eventId|bookmakerKey|marketKey|outcomeName|description
+  eventId: string;
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  marketKey: string;
+  outcomeName: string;
+  description?: string; // Player name on prop markets
+  commenceTime?: string;
+  points: LinePricePoint[]; // Oldest first, one entry per price or point change
+}
+
+export type MoveDirection = 'toward' | 'away'; // Outcome became more or less likely per the market
+
+export interface LineMove {
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  timestamp: string;
+  from: LinePricePoint;
+  to: LinePricePoint;
+  direction: MoveDirection;
+}
+
+export interface SteamMove {
+  id: string;
+  eventId: string;
+  marketKey: string;
+  outcomeName: string;
+  description?: string;
+  direction: MoveDirection;
+  books: string[]; // Titles of the books that moved, in the order they moved
+  startedAt: string;
+  endedAt: string;
+  moves: LineMove[];
+}
+
+export interface ReverseLineMovement {
+  id: string;
+  eventId: string;
+  marketKey: string;
+  description?: string;
+  publicSide: string;
+  sharpSide: string;
+  publicShare?: number; // Share of bets on publicSide, when splits were supplied
+  assumedPublic: boolean; // No splits: the opening favorite (or the Over) is taken as the public side
+  booksAgainstPublic: number;
+  booksWithPublic: number;
+}
+
+export interface SteamOptions {
+  windowMinutes: number; // Moves this close together count as synchronised
+  minBooks: number;
+  minProbabilityMove: number; // Price changes smaller than this are noise, not moves
+  minCentsMove: number | null; // When set, price changes are measured in cents instead
+}
+
+export interface ReverseLineOptions {
+  minBooks: number; // Books that must have moved against the public side
+  minProbabilityMove: number;
+  publicShares?: Record<string, number>; // Share of bets per outcome name, keyed by marketKey|outcomeName
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_STEAM_OPTIONS: SteamOptions = {
+  windowMinutes: 5,
+  minBooks: 3,
+  minProbabilityMove: 0.01,
+  minCentsMove: null
+};
+
+export const DEFAULT_REVERSE_LINE_OPTIONS: ReverseLineOptions = {
+  minBooks: 2,
+  minProbabilityMove: 0.01
+};
+
+/* ++++++++++ MOVES ++++++++++ */
+/**
+ * Which way a quote moved for its outcome, or null when the change is too small to
+ * count. A point change always counts: Over needs a higher total to be harder, every
+ * other side (Under, or a team's spread) a lower number.
+ */
+export const getMoveDirection = (
+  outcomeName: string,
+  from: LinePricePoint,
+  to: LinePricePoint,
+  minProbabilityMove: number = DEFAULT_STEAM_OPTIONS.minProbabilityMove,
+  minCentsMove: number | null = null
+): MoveDirection | null => {
+  if (from.point !== undefined && to.point !== undefined && from.point !== to.point) {
+    const harder = outcomeName === 'Over' ? to.point > from.point : to.point < from.point;
+    return harder ? 'toward' : 'away';
+  }
+  if (minCentsMove !== null) {
+    // -110 to -120 is 10 cents toward the outcome
+    const cents = americanToCents(from.price) - americanToCents(to.price);
+    if (Math.abs(cents) < minCentsMove) return null;
+    return cents > 0 ? 'toward' : 'away';
+  }
+  const change = americanToProbability(to.price) - americanToProbability(from.price);
+  if (Math.abs(change) < minProbabilityMove) return null;
+  return change > 0 ? 'toward' : 'away';
+};
+
+export const getSeriesMoves = (
+  series: LineSeries,
+  minProbabilityMove: number = DEFAULT_STEAM_OPTIONS.minProbabilityMove,
+  minCentsMove: number | null = null
+): LineMove[] => {
+  const moves: LineMove[] = [];
+  for (let i = 1; i < series.points.length; i++) {
+    const from = series.points[i - 1];
+    const to = series.points[i];
+    const direction = getMoveDirection(series.outcomeName, from, to, minProbabilityMove, minCentsMove);
+    if (!direction) continue;
+    moves.push({
+      bookmakerKey: series.bookmakerKey,
+      bookmakerTitle: series.bookmakerTitle,
+      timestamp: to.timestamp,
+      from,
+      to,
+      direction
+    });
+  }
+  return moves;
+};
+
+const getOutcomeKey = (series: LineSeries): string => {
+  return `${series.eventId}|${series.marketKey}|${series.outcomeName}|${series.description ?? ''}`;
+};
+
+/* ++++++++++ STEAM ++++++++++ */
+/**
+ * Clusters of same-direction moves on one outcome from at least minBooks different
+ * books within windowMinutes of the first. Earliest first.
+ */
+export const detectSteamMoves = (
+  history: LineSeries[],
+  options: Partial<SteamOptions> = {}
+): SteamMove[] => {
+  const settings: SteamOptions = { ...DEFAULT_STEAM_OPTIONS, ...options };
+  const windowMs = settings.windowMinutes * 60 * 1000;
+
+  const byOutcome = new Map<string, { series: LineSeries; moves: LineMove[] }>();
+  for (const series of history) {
+    const key = getOutcomeKey(series);
+    const entry = byOutcome.get(key) ?? { series, moves: [] };
+    entry.moves.push(...getSeriesMoves(series, settings.minProbabilityMove, settings.minCentsMove));
+    byOutcome.set(key, entry);
+  }
+
+  const steamMoves: SteamMove[] = [];
+  for (const { series, moves } of byOutcome.values()) {
+    for (const direction of ['toward', 'away'] as MoveDirection[]) {
+      const sorted = moves
+        .filter(move => move.direction === direction)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+      let start = 0;
+      while (start < sorted.length) {
+        const windowEnd = new Date(sorted[start].timestamp).getTime() + windowMs;
+        const cluster: LineMove[] = [];
+        const books = new Set<string>();
+        let end = start;
+        while (end < sorted.length && new Date(sorted[end].timestamp).getTime() <= windowEnd) {
+          cluster.push(sorted[end]);
+          books.add(sorted[end].bookmakerKey);
+          end++;
+        }
+
+        if (books.size < settings.minBooks) {
+          start++;
+          continue;
+        }
+
+        steamMoves.push({
+          id: `${getOutcomeKey(series)}|${direction}|${cluster[0].timestamp}`,
+          eventId: series.eventId,
+          marketKey: series.marketKey,
+          outcomeName: series.outcomeName,
+          description: series.description,
+          direction,
+          books: [...new Set(cluster.map(move => move.bookmakerTitle))],
+          startedAt: cluster[0].timestamp,
+          endedAt: cluster[cluster.length - 1].timestamp,
+          moves: cluster
+        });
+        start = end;
+      }
+    }
+  }
+
+  return steamMoves.sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+};
+
+/* ++++++++++ REVERSE LINE MOVEMENT ++++++++++ */
+/**
+ * Two-way markets whose line moved, open to now, against the side most bets are on.
+ * Without betting splits the public is assumed to be on the opening favorite, or the
+ * Over on totals, which is where recreational money reliably lands.
+ */
+export const detectReverseLineMovement = (
+  history: LineSeries[],
+  options: Partial<ReverseLineOptions> = {}
+): ReverseLineMovement[] => {
+  const settings: ReverseLineOptions = { ...DEFAULT_REVERSE_LINE_OPTIONS, ...options };
+
+  const byMarket = new Map<string, LineSeries[]>();
+  for (const series of history) {
+    const key = `${series.eventId}|${series.marketKey}|${series.description ?? ''}`;
+    byMarket.set(key, [...(byMarket.get(key) ?? []), series]);
+  }
+
+  const movements: ReverseLineMovement[] = [];
+  for (const [key, marketSeries] of byMarket) {
+    const outcomeNames = [...new Set(marketSeries.map(series => series.outcomeName))];
+    if (outcomeNames.length !== 2) continue;
+
+    const { eventId, marketKey, description } = marketSeries[0];
+    const shares = outcomeNames.map(name => settings.publicShares?.[`${marketKey}|${name}`]);
+    let publicSide: string;
+    if (shares.every(share => share !== undefined)) {
+      if (shares[0] === shares[1]) continue;
+      publicSide = shares[0]! > shares[1]! ? outcomeNames[0] : outcomeNames[1];
+    } else if (outcomeNames.includes('Over')) {
+      publicSide = 'Over';
+    } else {
+      const openingProbability = (name: string) => {
+        const opening = marketSeries
+          .filter(series => series.outcomeName === name && series.points.length > 0)
+          .map(series => americanToProbability(series.points[0].price));
+        return opening.reduce((sum, value) => sum + value, 0) / Math.max(opening.length, 1);
+      };
+      publicSide = openingProbability(outcomeNames[0]) >= openingProbability(outcomeNames[1])
+        ? outcomeNames[0]
+        : outcomeNames[1];
+    }
+    const sharpSide = outcomeNames.find(name => name !== publicSide)!;
+
+    // Net open-to-now direction of the public side at each book
+    let booksAgainstPublic = 0;
+    let booksWithPublic = 0;
+    for (const series of marketSeries.filter(series => series.outcomeName === publicSide)) {
+      if (series.points.length < 2) continue;
+      const direction = getMoveDirection(
+        publicSide,
+        series.points[0],
+        series.points[series.points.length - 1],
+        settings.minProbabilityMove
+      );
+      if (direction === 'away') booksAgainstPublic++;
+      if (direction === 'toward') booksWithPublic++;
+    }
+
+    if (booksAgainstPublic < settings.minBooks || booksAgainstPublic <= booksWithPublic) continue;
+
+    const publicShare = settings.publicShares?.[`${marketKey}|${publicSide}`];
+    movements.push({
+      id: key,
+      eventId,
+      marketKey,
+      description,
+      publicSide,
+      sharpSide,
+      publicShare,
+      assumedPublic: publicShare === undefined,
+      booksAgainstPublic,
+      booksWithPublic
+    });
+  }
+
+  return movements;
+};
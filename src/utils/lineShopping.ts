@@ -0,0 +1,138 @@
+/* ++++++++++ LINE SHOPPING UTILITIES ++++++++++ */
+// The same bet is priced differently at every book; taking the best price on offer
+// instead of the typical one is the cheapest edge there is. Gaps are measured in cents
+// (see americanToCents), so -105 against -115 is 10 cents better.
+import { americanToCents } from './clv';
+import { americanToProbability, decimalToAmerican } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface ShoppingOutcome {
+  name: string;
+  price: number;
+  point?: number;
+}
+
+export interface ShoppingBookmaker {
+  key: string;
+  title?: string;
+  markets: { key: string; outcomes: ShoppingOutcome[] }[];
+}
+
+export interface ShoppingQuote {
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  price: number;
+  point?: number;
+}
+
+export interface BestPriceLine {
+  outcomeName: string;
+  point?: number;
+  best: ShoppingQuote;
+  bestBooks: string[]; // Titles of every book tied at the best price
+  secondBest: ShoppingQuote | null; // Next book down, at the same price when books tie
+  gapToSecondCents: number | null;
+  fairProbability: number | null;
+  fairOdds: number | null;
+  gapToConsensusCents: number | null; // Positive when the best price beats the no-vig line
+  marketPrice: number; // Median price across every book in the market
+  beatMarketCents: number;
+  bookCount: number;
+}
+
+/* ++++++++++ HELPERS ++++++++++ */
+const centsToAmerican = (cents: number): number => {
+  return cents >= 0 ? cents + 100 : cents - 100;
+};
+
+const getMedianPrice = (prices: number[]): number => {
+  const cents = prices.map(americanToCents).sort((a, b) => a - b);
+  const middle = Math.floor(cents.length / 2);
+  const median = cents.length % 2 === 1 ? cents[middle] : (cents[middle - 1] + cents[middle]) / 2;
+  return centsToAmerican(median);
+};
+
+export const getPriceGapCents = (price: number, comparedTo: number): number => {
+  return americanToCents(price) - americanToCents(comparedTo);
+};
+
+// Quotes per outcome and point, so a -3 is never shopped against a -3.5
+const getQuotes = (
+  bookmakers: ShoppingBookmaker[],
+  marketKey: string
+): Map<string, { outcomeName: string; quotes: ShoppingQuote[] }> => {
+  const groups = new Map<string, { outcomeName: string; quotes: ShoppingQuote[] }>();
+  for (const bookmaker of bookmakers) {
+    const market = bookmaker.markets.find(m => m.key === marketKey);
+    for (const outcome of market?.outcomes ?? []) {
+      if (!outcome.price) continue;
+      const key = `${outcome.name}|${outcome.point ?? ''}`;
+      const group = groups.get(key) ?? { outcomeName: outcome.name, quotes: [] };
+      group.quotes.push({
+        bookmakerKey: bookmaker.key,
+        bookmakerTitle: bookmaker.title ?? bookmaker.key,
+        price: outcome.price,
+        point: outcome.point
+      });
+      groups.set(key, group);
+    }
+  }
+  return groups;
+};
+
+/* ++++++++++ BEST PRICES ++++++++++ */
+/**
+ * Best price per outcome and point among the books the user can bet at, compared
+ * with the runner-up, the no-vig consensus and the typical price across the whole
+ * market. Lines follow outcomeNames order, then point.
+ */
+export const findBestPrices = (
+  bookmakers: ShoppingBookmaker[],
+  marketKey: string,
+  outcomeNames: string[],
+  getFairProbability: (outcome: ShoppingOutcome) => number | null,
+  marketBookmakers: ShoppingBookmaker[] = bookmakers
+): BestPriceLine[] => {
+  const marketQuotes = getQuotes(marketBookmakers, marketKey);
+  const lines: BestPriceLine[] = [];
+
+  for (const [key, { outcomeName, quotes }] of getQuotes(bookmakers, marketKey)) {
+    if (!outcomeNames.includes(outcomeName)) continue;
+
+    const sorted = [...quotes].sort((a, b) => b.price - a.price || a.bookmakerTitle.localeCompare(b.bookmakerTitle));
+    const best = sorted[0];
+    const secondBest = sorted[1] ?? null;
+    const fairProbability = getFairProbability({ name: outcomeName, price: best.price, point: best.point });
+    const fairOdds = fairProbability !== null && fairProbability > 0 && fairProbability < 1
+      ? decimalToAmerican(1 / fairProbability)
+      : null;
+    const marketPrice = getMedianPrice((marketQuotes.get(key)?.quotes ?? quotes).map(quote => quote.price));
+
+    lines.push({
+      outcomeName,
+      point: best.point,
+      best,
+      bestBooks: sorted.filter(quote => quote.price === best.price).map(quote => quote.bookmakerTitle),
+      secondBest,
+      gapToSecondCents: secondBest ? getPriceGapCents(best.price, secondBest.price) : null,
+      fairProbability,
+      fairOdds,
+      gapToConsensusCents: fairOdds !== null ? getPriceGapCents(best.price, fairOdds) : null,
+      marketPrice,
+      beatMarketCents: getPriceGapCents(best.price, marketPrice),
+      bookCount: quotes.length
+    });
+  }
+
+  return lines.sort((a, b) =>
+    outcomeNames.indexOf(a.outcomeName) - outcomeNames.indexOf(b.outcomeName) || (a.point ?? 0) - (b.point ?? 0)
+  );
+};
+
+/**
+ * Fair probability minus the probability the best price implies. Positive is +EV.
+ */
+export const getBestPriceEdge = (line: BestPriceLine): number | null => {
+  if (line.fairProbability === null) return null;
+  return line.fairProbability - americanToProbability(line.best.price);
+};
@@ -0,0 +1,188 @@
+/* ++++++++++ MIDDLE UTILITIES ++++++++++ */
+// A middle takes opposite sides of a spread or total at different points across books,
+// e.g. Over 44.5 at one and Under 46.5 at another. Both legs win when the final score
+// lands between the two points; otherwise one wins and roughly pays for the other.
+import { ArbEvent, calculateArbStakes } from './arbitrage';
+import { americanToDecimal } from './oddsConversion';
+import {
+  ScoreKind,
+  ScoreSide,
+  getOutcomeThreshold,
+  getScoreDistribution,
+  settleScoreLeg
+} from './scoreDistribution';
+
+/* ++++++++++ TYPES ++++++++++ */
+export type MiddleMarketType = 'spreads' | 'totals';
+
+export interface MiddleLeg {
+  bookmakerKey: string;
+  bookmakerTitle: string;
+  outcomeName: string;
+  point: number;
+  price: number;
+  decimalOdds: number;
+  stake: number;
+}
+
+export interface MiddleOpportunity {
+  id: string;
+  eventId: string;
+  eventName: string;
+  sport?: string;
+  marketType: MiddleMarketType;
+  selection: string;
+  legs: MiddleLeg[]; // Over side (home spread) first
+  gap: number; // Width of the middle in points
+  expectedScore: number; // Market-implied home margin or total the distribution is centred on
+  middleProbability: number; // Both legs win
+  pushProbability: number; // At least one leg lands exactly on its point
+  totalStake: number;
+  payout: number; // Returned by either leg alone, stake included
+  middleProfit: number; // Profit when both legs win
+  missProfit: number; // Profit when only one leg wins (usually a small loss)
+  expectedProfit: number;
+  evPercentage: number; // expectedProfit as a percentage of totalStake
+}
+
+export interface MiddleOptions {
+  targetPayout: number;
+  minGap: number; // Ignore middles narrower than this many points
+  minEvPercentage: number | null; // null = list every middle regardless of EV
+  marketTypes: MiddleMarketType[];
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_MIDDLE_OPTIONS: MiddleOptions = {
+  targetPayout: 100,
+  minGap: 0,
+  minEvPercentage: null,
+  marketTypes: ['spreads', 'totals']
+};
+
+const MARKET_KINDS: Record<string, { kind: ScoreKind; marketType: MiddleMarketType; main: boolean }> = {
+  spreads: { kind: 'margin', marketType: 'spreads', main: true },
+  alternate_spreads: { kind: 'margin', marketType: 'spreads', main: false },
+  totals: { kind: 'total', marketType: 'totals', main: true },
+  alternate_totals: { kind: 'total', marketType: 'totals', main: false }
+};
+
+/* ++++++++++ SCANNING ++++++++++ */
+/**
+ * Every middle in one event. Legs take the best price at each point across books and
+ * are staked to return the same payout, so a miss costs about the vig on one side.
+ */
+export const findEventMiddles = (
+  event: ArbEvent,
+  options: Partial<MiddleOptions> = {}
+): MiddleOpportunity[] => {
+  const settings: MiddleOptions = { ...DEFAULT_MIDDLE_OPTIONS, ...options };
+
+  type Quote = { leg: Omit<MiddleLeg, 'stake'>; threshold: number };
+  const best: Record<ScoreKind, Record<ScoreSide, Map<number, Quote>>> = {
+    margin: { over: new Map(), under: new Map() },
+    total: { over: new Map(), under: new Map() }
+  };
+  const mainLines: Record<ScoreKind, number[]> = { margin: [], total: [] };
+
+  for (const bookmaker of event.bookmakers) {
+    for (const market of bookmaker.markets) {
+      const config = MARKET_KINDS[market.key];
+      if (!config || !settings.marketTypes.includes(config.marketType)) continue;
+
+      for (const outcome of market.outcomes) {
+        if (!outcome.price) continue;
+        const leg = getOutcomeThreshold(config.kind, outcome, event.home_team, event.away_team);
+        if (!leg) continue;
+        const { side, threshold } = leg;
+        if (config.main) mainLines[config.kind].push(threshold);
+
+        const decimalOdds = americanToDecimal(outcome.price);
+        const current = best[config.kind][side].get(threshold);
+        if (!current || decimalOdds > current.leg.decimalOdds) {
+          best[config.kind][side].set(threshold, {
+            threshold,
+            leg: {
+              bookmakerKey: bookmaker.key,
+              bookmakerTitle: bookmaker.title ?? bookmaker.key,
+              outcomeName: outcome.name,
+              point: outcome.point!,
+              price: outcome.price,
+              decimalOdds
+            }
+          });
+        }
+      }
+    }
+  }
+
+  const middles: MiddleOpportunity[] = [];
+  for (const kind of ['margin', 'total'] as ScoreKind[]) {
+    const { over, under } = best[kind];
+    const lines = mainLines[kind].length > 0
+      ? mainLines[kind]
+      : [...over.keys(), ...under.keys()];
+    if (over.size === 0 || under.size === 0 || lines.length === 0) continue;
+
+    const expectedScore = lines.reduce((sum, line) => sum + line, 0) / lines.length;
+    const distribution = getScoreDistribution(event.sport, kind, expectedScore);
+    const marketType: MiddleMarketType = kind === 'margin' ? 'spreads' : 'totals';
+
+    for (const overQuote of over.values()) {
+      for (const underQuote of under.values()) {
+        const gap = underQuote.threshold - overQuote.threshold;
+        if (gap <= 0 || gap < settings.minGap) continue;
+
+        const split = calculateArbStakes([overQuote.leg.decimalOdds, underQuote.leg.decimalOdds], settings.targetPayout);
+        const legs: MiddleLeg[] = [
+          { ...overQuote.leg, stake: split.stakes[0] },
+          { ...underQuote.leg, stake: split.stakes[1] }
+        ];
+
+        let expectedReturn = 0;
+        let middleProbability = 0;
+        let pushProbability = 0;
+        for (const [value, probability] of distribution) {
+          const results = [
+            settleScoreLeg('over', overQuote.threshold, value),
+            settleScoreLeg('under', underQuote.threshold, value)
+          ];
+          if (results.every(result => result === 'win')) middleProbability += probability;
+          if (results.includes('push')) pushProbability += probability;
+          expectedReturn += probability * results.reduce((sum, result, index) => {
+            if (result === 'win') return sum + legs[index].stake * legs[index].decimalOdds;
+            if (result === 'push') return sum + legs[index].stake;
+            return sum;
+          }, 0);
+        }
+
+        const expectedProfit = expectedReturn - split.totalStake;
+        const evPercentage = (expectedProfit / split.totalStake) * 100;
+        if (settings.minEvPercentage !== null && evPercentage < settings.minEvPercentage) continue;
+
+        const formatPoint = (point: number) => `${point > 0 && marketType === 'spreads' ? '+' : ''}${point}`;
+        middles.push({
+          id: `${event.id}|${marketType}|${overQuote.threshold}|${underQuote.threshold}`,
+          eventId: event.id,
+          eventName: `${event.home_team} vs ${event.away_team}`,
+          sport: event.sport,
+          marketType,
+          selection: legs.map(leg => `${leg.outcomeName} ${formatPoint(leg.point)}`).join(' / '),
+          legs,
+          gap,
+          expectedScore,
+          middleProbability,
+          pushProbability,
+          totalStake: split.totalStake,
+          payout: split.payout,
+          middleProfit: 2 * split.payout - split.totalStake,
+          missProfit: split.profit,
+          expectedProfit,
+          evPercentage
+        });
+      }
+    }
+  }
+
+  return middles.sort((a, b) => b.evPercentage - a.evPercentage);
+};
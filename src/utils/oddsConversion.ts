@@ -1,8 +1,294 @@
-export const convertToAmericanOdds = (decimalOdds: number): string => {
-    if (decimalOdds >= 2.0) {
-      return `+${Math.round((decimalOdds - 1) * 100)}`;
-    } else {
-      return `-${Math.round(100 / (decimalOdds - 1))}`;
+/* ++++++++++ ODDS FORMAT CONVERSION UTILITIES ++++++++++ */
+// Every conversion goes through decimal odds (total return per $1 staked, stake included)
+
+/* ++++++++++ TYPES ++++++++++ */
+export type OddsFormat =
+  | 'american'
+  | 'decimal'
+  | 'fractional'
+  | 'hongkong'
+  | 'indonesian'
+  | 'malay'
+  | 'probability';
+
+export interface OddsFormatOption {
+  value: OddsFormat;
+  label: string;
+  example: string;
+}
+
+export interface Fraction {
+  numerator: number;
+  denominator: number;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_ODDS_FORMAT: OddsFormat = 'american';
+
+export const ODDS_FORMATS: OddsFormatOption[] = [
+  { value: 'american', label: 'American', example: '+150' },
+  { value: 'decimal', label: 'Decimal', example: '2.50' },
+  { value: 'fractional', label: 'Fractional', example: '3/2' },
+  { value: 'hongkong', label: 'Hong Kong', example: '1.50' },
+  { value: 'indonesian', label: 'Indonesian', example: '+1.50' },
+  { value: 'malay', label: 'Malay', example: '-0.67' },
+  { value: 'probability', label: 'Implied Probability', example: '40.0%' }
+];
+
+const MAX_FRACTION_DENOMINATOR = 100;
+
+export const isOddsFormat = (value: string): value is OddsFormat => {
+  return ODDS_FORMATS.some(option => option.value === value);
+};
+
+const assertDecimal = (decimalOdds: number): void => {
+  if (!isFinite(decimalOdds) || decimalOdds <= 1) {
+    throw new Error('Decimal odds must be greater than 1');
+  }
+};
+
+// American odds are +100 or longer, or -100 or shorter; nothing lies in between
+const assertAmerican = (americanOdds: number): void => {
+  if (!isFinite(americanOdds) || Math.abs(americanOdds) < 100) {
+    throw new Error('American odds must be at least 100 in magnitude');
+  }
+};
+
+/* ++++++++++ AMERICAN ++++++++++ */
+export const americanToDecimal = (americanOdds: number): number => {
+  assertAmerican(americanOdds);
+  if (americanOdds > 0) {
+    return (americanOdds / 100) + 1;
+  } else {
+    return (100 / Math.abs(americanOdds)) + 1;
+  }
+};
+
+export const decimalToAmerican = (decimalOdds: number): number => {
+  assertDecimal(decimalOdds);
+  return decimalOdds >= 2 ? (decimalOdds - 1) * 100 : -100 / (decimalOdds - 1);
+};
+
+export const americanToProbability = (americanOdds: number): number => {
+  assertAmerican(americanOdds);
+  if (americanOdds > 0) {
+    return 100 / (americanOdds + 100);
+  } else {
+    return Math.abs(americanOdds) / (Math.abs(americanOdds) + 100);
+  }
+};
+
+/* ++++++++++ IMPLIED PROBABILITY ++++++++++ */
+export const decimalToProbability = (decimalOdds: number): number => {
+  return 1 / decimalOdds;
+};
+
+export const probabilityToDecimal = (probability: number): number => {
+  if (!(probability > 0 && probability < 1)) {
+    throw new Error('Probability must be between 0 and 1');
+  }
+  return 1 / probability;
+};
+
+/* ++++++++++ FRACTIONAL ++++++++++ */
+export const fractionalToDecimal = (numerator: number, denominator: number): number => {
+  if (denominator <= 0 || numerator <= 0) {
+    throw new Error('Fractional odds must have a positive numerator and denominator');
+  }
+  return (numerator / denominator) + 1;
+};
+
+// Best rational approximation of the net odds (continued fractions)
+export const decimalToFractional = (
+  decimalOdds: number,
+  maxDenominator: number = MAX_FRACTION_DENOMINATOR
+): Fraction => {
+  assertDecimal(decimalOdds);
+  const target = decimalOdds - 1;
+
+  let [h0, h1] = [0, 1];
+  let [k0, k1] = [1, 0];
+  let x = target;
+
+  for (let i = 0; i < 32; i++) {
+    const a = Math.floor(x);
+    const h2 = a * h1 + h0;
+    const k2 = a * k1 + k0;
+    if (k2 > maxDenominator) break;
+    [h0, h1] = [h1, h2];
+    [k0, k1] = [k1, k2];
+    if (Math.abs(x - a) < 1e-9) break;
+    x = 1 / (x - a);
+  }
+
+  return k1 === 0 ? { numerator: Math.round(target), denominator: 1 } : { numerator: h1, denominator: k1 };
+};
+
+/* ++++++++++ HONG KONG / INDONESIAN / MALAY ++++++++++ */
+export const hongKongToDecimal = (hongKongOdds: number): number => {
+  return hongKongOdds + 1;
+};
+
+export const decimalToHongKong = (decimalOdds: number): number => {
+  assertDecimal(decimalOdds);
+  return decimalOdds - 1;
+};
+
+// Indonesian odds are American odds divided by 100
+export const indonesianToDecimal = (indonesianOdds: number): number => {
+  if (Math.abs(indonesianOdds) < 1) {
+    throw new Error('Indonesian odds must be at least 1 in magnitude');
+  }
+  return americanToDecimal(indonesianOdds * 100);
+};
+
+export const decimalToIndonesian = (decimalOdds: number): number => {
+  return decimalToAmerican(decimalOdds) / 100;
+};
+
+// Malay odds are positive up to even money and negative beyond it
+export const malayToDecimal = (malayOdds: number): number => {
+  if (malayOdds === 0 || Math.abs(malayOdds) > 1) {
+    throw new Error('Malay odds must be between -1 and 1');
+  }
+  return malayOdds > 0 ? malayOdds + 1 : 1 - 1 / malayOdds;
+};
+
+export const decimalToMalay = (decimalOdds: number): number => {
+  assertDecimal(decimalOdds);
+  return decimalOdds <= 2 ? decimalOdds - 1 : -1 / (decimalOdds - 1);
+};
+
+/* ++++++++++ GENERIC CONVERSION ++++++++++ */
+/**
+ * Convert a numeric odds value to decimal odds.
+ * Fractional odds are given as their ratio (5/2 => 2.5) and probability as 0-1.
+ */
+export const toDecimal = (value: number, format: OddsFormat): number => {
+  switch (format) {
+    case 'american':
+      return americanToDecimal(value);
+    case 'decimal':
+      assertDecimal(value);
+      return value;
+    case 'fractional':
+    case 'hongkong':
+      return hongKongToDecimal(value);
+    case 'indonesian':
+      return indonesianToDecimal(value);
+    case 'malay':
+      return malayToDecimal(value);
+    case 'probability':
+      return probabilityToDecimal(value);
+    default:
+      throw new Error(`Unknown odds format: ${format}`);
+  }
+};
+
+export const fromDecimal = (decimalOdds: number, format: OddsFormat): number => {
+  switch (format) {
+    case 'american':
+      return decimalToAmerican(decimalOdds);
+    case 'decimal':
+      assertDecimal(decimalOdds);
+      return decimalOdds;
+    case 'fractional':
+    case 'hongkong':
+      return decimalToHongKong(decimalOdds);
+    case 'indonesian':
+      return decimalToIndonesian(decimalOdds);
+    case 'malay':
+      return decimalToMalay(decimalOdds);
+    case 'probability':
+      return decimalToProbability(decimalOdds);
+    default:
+      throw new Error(`Unknown odds format: ${format}`);
+  }
+};
+
+export const convertOdds = (value: number, from: OddsFormat, to: OddsFormat): number => {
+  return fromDecimal(toDecimal(value, from), to);
+};
+
+/* ++++++++++ PARSING ++++++++++ */
+/**
+ * Parse user-entered odds into decimal odds.
+ * Without an explicit format: "5/2" is fractional, "40%" is probability,
+ * a magnitude of 100+ is American, a signed value below 100 is Indonesian
+ * (or Malay when it is within ±1), anything else is decimal.
+ */
+export const parseOdds = (input: string, format?: OddsFormat): number => {
+  const text = input.trim().toLowerCase();
+
+  if (text === 'evens' || text === 'even' || text === 'ev') {
+    return 2;
+  }
+
+  const fractionMatch = text.match(/^(\d+(?:\.\d+)?)\s*[/-]\s*(\d+(?:\.\d+)?)$/);
+  if (fractionMatch && (!format || format === 'fractional')) {
+    return fractionalToDecimal(parseFloat(fractionMatch[1]), parseFloat(fractionMatch[2]));
+  }
+
+  if (text.endsWith('%') && (!format || format === 'probability')) {
+    const percent = parseFloat(text.slice(0, -1));
+    if (isNaN(percent)) throw new Error(`Invalid odds: ${input}`);
+    return probabilityToDecimal(percent / 100);
+  }
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(text)) {
+    throw new Error(`Invalid odds: ${input}`);
+  }
+
+  const value = parseFloat(text);
+  if (format) {
+    return toDecimal(format === 'probability' && value > 1 ? value / 100 : value, format);
+  }
+
+  if (Math.abs(value) >= 100) {
+    return americanToDecimal(value);
+  }
+  if (text.startsWith('+') || text.startsWith('-')) {
+    return Math.abs(value) < 1 ? malayToDecimal(value) : indonesianToDecimal(value);
+  }
+  return toDecimal(value, 'decimal');
+};
+
+/* ++++++++++ DISPLAY ++++++++++ */
+export const formatOdds = (decimalOdds: number, format: OddsFormat = DEFAULT_ODDS_FORMAT): string => {
+  switch (format) {
+    case 'american': {
+      const american = Math.round(decimalToAmerican(decimalOdds));
+      return american > 0 ? `+${american}` : `${american}`;
+    }
+    case 'decimal':
+      return decimalOdds.toFixed(2);
+    case 'fractional': {
+      const { numerator, denominator } = decimalToFractional(decimalOdds);
+      return `${numerator}/${denominator}`;
     }
-  };
-  
\ No newline at end of file
+    case 'hongkong':
+      return decimalToHongKong(decimalOdds).toFixed(2);
+    case 'indonesian': {
+      const indonesian = decimalToIndonesian(decimalOdds);
+      return `${indonesian > 0 ? '+' : ''}${indonesian.toFixed(2)}`;
+    }
+    case 'malay':
+      return decimalToMalay(decimalOdds).toFixed(2);
+    case 'probability':
+      return `${(decimalToProbability(decimalOdds) * 100).toFixed(1)}%`;
+    default:
+      throw new Error(`Unknown odds format: ${format}`);
+  }
+};
+
+// Display an API price (always American) in the user's preferred format
+export const formatAmericanOdds = (americanOdds: number, format: OddsFormat = DEFAULT_ODDS_FORMAT): string => {
+  if (format === 'american') {
+    return americanOdds > 0 ? `+${americanOdds}` : `${americanOdds}`;
+  }
+  return formatOdds(americanToDecimal(americanOdds), format);
+};
+
+export const convertToAmericanOdds = (decimalOdds: number): string => {
+  return formatOdds(decimalOdds, 'american');
+};
@@ -0,0 +1,262 @@
+/* ++++++++++ PARLAY UTILITIES ++++++++++ */
+// A sportsbook parlay pays the product of its legs' decimal odds, and its true chance is
+// the product of their no-vig probabilities, so the vig compounds with every leg. A round
+// robin is every parlay of the chosen sizes from one pool of legs, each for the same stake.
+import { DevigMethod, DEFAULT_DEVIG_METHOD, devigAmericanOdds } from './devig';
+import { americanToDecimal, decimalToAmerican } from './oddsConversion';
+
+/* ++++++++++ TYPES ++++++++++ */
+export interface ParlayLeg {
+  id: string; // eventId|marketKey|outcomeName|point|bookmakerKey
+  eventId: string;
+  eventName?: string;
+  marketKey: string;
+  outcomeName: string;
+  point?: number;
+  bookmakerKey: string;
+  bookmakerTitle?: string;
+  price: number; // American odds at the book
+  fairProbability: number; // Devigged chance the leg wins
+}
+
+export interface ParlayResult {
+  legs: ParlayLeg[];
+  stake: number;
+  decimalOdds: number;
+  americanOdds: number;
+  impliedProbability: number; // What the combined price implies
+  trueProbability: number; // Product of the legs' fair probabilities
+  payout: number; // Total return, stake included, if every leg wins
+  expectedValue: number; // Scaled to the stake
+  evPercentage: number;
+}
+
+export interface RoundRobinResult {
+  sizes: number[];
+  stakePerParlay: number;
+  parlays: ParlayResult[];
+  skippedParlays: number; // Combinations with legs that cannot all win, which books refuse
+  totalStake: number;
+  totalExpectedValue: number;
+  roiPercentage: number;
+  maxPayout: number; // Every leg wins
+}
+
+export type CorrelationWarningKind = 'conflicting' | 'correlated';
+
+export interface CorrelationWarning {
+  kind: CorrelationWarningKind;
+  eventId: string;
+  eventName?: string;
+  legIds: string[];
+  message: string;
+}
+
+export interface ParlayEventOutcome {
+  name: string;
+  price: number;
+  point?: number;
+}
+
+export interface ParlayEvent {
+  id: string;
+  home_team: string;
+  away_team: string;
+  bookmakers: {
+    key: string;
+    title?: string;
+    markets: { key: string; outcomes: ParlayEventOutcome[] }[];
+  }[];
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const MAX_PARLAY_LEGS = 12;
+
+/* ++++++++++ LEGS ++++++++++ */
+export const getParlayLegId = (
+  eventId: string,
+  marketKey: string,
+  outcomeName: string,
+  point: number | undefined,
+  bookmakerKey: string
+): string => {
+  return `${eventId}|${marketKey}|${outcomeName}|${point ?? ''}|${bookmakerKey}`;
+};
+
+/**
+ * Leg for one outcome at one book from fetchOdds data. Without a fair probability
+ * (from a consensus), the book's own market is devigged. Returns null when the
+ * book does not quote the outcome.
+ */
+export const createParlayLeg = (
+  event: ParlayEvent,
+  bookmakerKey: string,
+  marketKey: string,
+  outcomeName: string,
+  fairProbability?: number,
+  method: DevigMethod = DEFAULT_DEVIG_METHOD
+): ParlayLeg | null => {
+  const bookmaker = event.bookmakers.find(b => b.key === bookmakerKey);
+  const market = bookmaker?.markets.find(m => m.key === marketKey);
+  const index = market?.outcomes.findIndex(o => o.name === outcomeName) ?? -1;
+  if (!bookmaker || !market || index === -1) return null;
+
+  const outcome = market.outcomes[index];
+  return {
+    id: getParlayLegId(event.id, marketKey, outcomeName, outcome.point, bookmakerKey),
+    eventId: event.id,
+    eventName: `${event.home_team} vs ${event.away_team}`,
+    marketKey,
+    outcomeName,
+    point: outcome.point,
+    bookmakerKey,
+    bookmakerTitle: bookmaker.title,
+    price: outcome.price,
+    fairProbability: fairProbability
+      ?? devigAmericanOdds(market.outcomes.map(o => o.price), method).fairProbabilities[index]
+  };
+};
+
+/* ++++++++++ PARLAYS ++++++++++ */
+/**
+ * Price and EV of a parlay, treating the legs as independent. Use getCorrelationWarnings
+ * for legs from the same game, where that assumption breaks down.
+ */
+export const calculateParlay = (legs: ParlayLeg[], stake: number = 1): ParlayResult => {
+  if (legs.length === 0) {
+    throw new Error('A parlay needs at least one leg');
+  }
+  if (legs.some(leg => !(leg.fairProbability > 0 && leg.fairProbability < 1))) {
+    throw new Error('Leg fair probabilities must be between 0 and 1');
+  }
+
+  const decimalOdds = legs.reduce((product, leg) => product * americanToDecimal(leg.price), 1);
+  const trueProbability = legs.reduce((product, leg) => product * leg.fairProbability, 1);
+  const expectedProfit = trueProbability * decimalOdds - 1;
+
+  return {
+    legs,
+    stake,
+    decimalOdds,
+    americanOdds: decimalToAmerican(decimalOdds),
+    impliedProbability: 1 / decimalOdds,
+    trueProbability,
+    payout: stake * decimalOdds,
+    expectedValue: expectedProfit * stake,
+    evPercentage: expectedProfit * 100
+  };
+};
+
+export const getCombinations = <T>(items: T[], size: number): T[][] => {
+  const combinations: T[][] = [];
+  const current: T[] = [];
+  const search = (start: number) => {
+    if (current.length === size) {
+      combinations.push([...current]);
+      return;
+    }
+    for (let i = start; i <= items.length - (size - current.length); i++) {
+      current.push(items[i]);
+      search(i + 1);
+      current.pop();
+    }
+  };
+  search(0);
+  return combinations;
+};
+
+// Two legs on the same market of the same game can never both win (or are the same bet)
+const isConflicting = (a: ParlayLeg, b: ParlayLeg): boolean => {
+  return a.eventId === b.eventId && a.marketKey === b.marketKey;
+};
+
+/**
+ * Every parlay of the given sizes from the pool, each staked stakePerParlay. Combinations
+ * holding two legs from the same game's market are left out, as books will not take them.
+ */
+export const calculateRoundRobin = (
+  legs: ParlayLeg[],
+  sizes: number[],
+  stakePerParlay: number = 1
+): RoundRobinResult => {
+  if (legs.length > MAX_PARLAY_LEGS) {
+    throw new Error(`Round robins are limited to ${MAX_PARLAY_LEGS} legs`);
+  }
+  const validSizes = [...new Set(sizes)].sort((a, b) => a - b);
+  if (validSizes.length === 0 || validSizes.some(size => size < 2 || size > legs.length)) {
+    throw new Error(`Round robin sizes must be between 2 and ${legs.length}`);
+  }
+
+  const parlays: ParlayResult[] = [];
+  let skippedParlays = 0;
+  for (const size of validSizes) {
+    for (const combination of getCombinations(legs, size)) {
+      const conflicting = combination.some((leg, i) => combination.slice(i + 1).some(other => isConflicting(leg, other)));
+      if (conflicting) {
+        skippedParlays++;
+        continue;
+      }
+      parlays.push(calculateParlay(combination, stakePerParlay));
+    }
+  }
+
+  const totalStake = parlays.length * stakePerParlay;
+  const totalExpectedValue = parlays.reduce((sum, parlay) => sum + parlay.expectedValue, 0);
+
+  return {
+    sizes: validSizes,
+    stakePerParlay,
+    parlays,
+    skippedParlays,
+    totalStake,
+    totalExpectedValue,
+    roiPercentage: totalStake > 0 ? (totalExpectedValue / totalStake) * 100 : 0,
+    maxPayout: parlays.reduce((sum, parlay) => sum + parlay.payout, 0)
+  };
+};
+
+/* ++++++++++ SAME-GAME CORRELATION ++++++++++ */
+/**
+ * Legs from the same game. Opposite sides of one market cannot both win; different
+ * markets (a favorite with the Over, say) tend to win together, which books either
+ * refuse or reprice as a same-game parlay, so the independent EV is overstated.
+ */
+export const getCorrelationWarnings = (legs: ParlayLeg[]): CorrelationWarning[] => {
+  const byEvent = new Map<string, ParlayLeg[]>();
+  for (const leg of legs) {
+    byEvent.set(leg.eventId, [...(byEvent.get(leg.eventId) ?? []), leg]);
+  }
+
+  const warnings: CorrelationWarning[] = [];
+  for (const [eventId, eventLegs] of byEvent) {
+    if (eventLegs.length < 2) continue;
+    const eventName = eventLegs[0].eventName;
+    const label = eventName ?? 'the same game';
+
+    const byMarket = new Map<string, ParlayLeg[]>();
+    for (const leg of eventLegs) {
+      byMarket.set(leg.marketKey, [...(byMarket.get(leg.marketKey) ?? []), leg]);
+    }
+    for (const [marketKey, marketLegs] of byMarket) {
+      if (marketLegs.length < 2) continue;
+      warnings.push({
+        kind: 'conflicting',
+        eventId,
+        eventName,
+        legIds: marketLegs.map(leg => leg.id),
+        message: `${marketLegs.length} ${marketKey} legs from ${label} cannot all win in one parlay`
+      });
+    }
+
+    if (byMarket.size > 1) {
+      warnings.push({
+        kind: 'correlated',
+        eventId,
+        eventName,
+        legIds: eventLegs.map(leg => leg.id),
+        message: `${[...byMarket.keys()].join(' + ')} from ${label} are correlated; books price same-game parlays differently, so this EV assumes independence it does not have`
+      });
+    }
+  }
+  return warnings;
+};
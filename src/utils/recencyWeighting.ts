@@ -0,0 +1,123 @@
+/* ++++++++++ RECENCY-WEIGHTED HIT RATES ++++++++++ */
+// A flat hit rate over a lookback window counts a game from months ago the same as last
+// night's. These helpers decay each game's weight by its age, or keep only the latest games.
+
+/* ++++++++++ TYPES ++++++++++ */
+export type HitRateSource = 'flat' | 'weighted' | 'lastN';
+
+export interface RecencySettings {
+  halfLifeDays: number; // Days after which a game counts half as much as today's
+  lastNGames: number;
+}
+
+export interface DatedHitResult {
+  gameDate: Date;
+  hit: boolean | null;
+  gameId?: string | null;
+}
+
+export interface WeightedHitRate {
+  hitRate: number;
+  effectiveGames: number; // Kish effective sample size of the weights
+}
+
+export interface LastNHitRate {
+  hitRate: number;
+  games: number;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const HIT_RATE_SOURCE_LABELS: Record<HitRateSource, string> = {
+  flat: 'Flat',
+  weighted: 'Time-Weighted',
+  lastN: 'Last N Games'
+};
+
+export const DEFAULT_RECENCY_SETTINGS: RecencySettings = {
+  halfLifeDays: 30,
+  lastNGames: 10
+};
+
+// Half-lives follow each sport's schedule density: weekly NFL games decay over a
+// couple of months, daily MLB and NBA games over a few weeks
+export const SPORT_RECENCY_SETTINGS: Record<string, RecencySettings> = {
+  'basketball_nba': { halfLifeDays: 21, lastNGames: 10 },
+  'basketball_wnba': { halfLifeDays: 21, lastNGames: 10 },
+  'americanfootball_nfl': { halfLifeDays: 56, lastNGames: 6 },
+  'baseball_mlb': { halfLifeDays: 30, lastNGames: 15 },
+  'icehockey_nhl': { halfLifeDays: 28, lastNGames: 10 }
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/* ++++++++++ SETTINGS ++++++++++ */
+export const getRecencySettings = (
+  sportKey: string,
+  overrides: Partial<RecencySettings> = {}
+): RecencySettings => {
+  const settings = { ...(SPORT_RECENCY_SETTINGS[sportKey] ?? DEFAULT_RECENCY_SETTINGS), ...overrides };
+  if (settings.halfLifeDays <= 0 || settings.lastNGames < 1) {
+    throw new Error('Half-life must be positive and last N at least one game');
+  }
+  return settings;
+};
+
+/* ++++++++++ WEIGHTING ++++++++++ */
+export const calculateDecayWeight = (ageDays: number, halfLifeDays: number): number => {
+  return Math.pow(0.5, Math.max(0, ageDays) / halfLifeDays);
+};
+
+/**
+ * Exponentially time-decayed hit rate. Ungraded results are ignored, and a game graded on
+ * several lines or platforms counts once, using its first graded result.
+ * Returns null when nothing is graded.
+ */
+export const calculateWeightedHitRate = (
+  results: DatedHitResult[],
+  halfLifeDays: number,
+  asOf: Date = new Date()
+): WeightedHitRate | null => {
+  let totalWeight = 0;
+  let totalSquaredWeight = 0;
+  let hitWeight = 0;
+  const games = new Set<string>();
+
+  for (const result of results) {
+    if (result.hit === null) continue;
+    const gameKey = result.gameId ?? result.gameDate.toISOString();
+    if (games.has(gameKey)) continue;
+    games.add(gameKey);
+
+    const weight = calculateDecayWeight((asOf.getTime() - result.gameDate.getTime()) / MS_PER_DAY, halfLifeDays);
+    totalWeight += weight;
+    totalSquaredWeight += weight * weight;
+    if (result.hit) hitWeight += weight;
+  }
+
+  if (totalWeight === 0) return null;
+  return {
+    hitRate: hitWeight / totalWeight,
+    effectiveGames: (totalWeight * totalWeight) / totalSquaredWeight
+  };
+};
+
+/**
+ * Hit rate over the player's most recent games. A game graded on several lines or
+ * platforms counts once, using its first graded result. Returns null when nothing is graded.
+ */
+export const calculateLastNHitRate = (results: DatedHitResult[], lastNGames: number): LastNHitRate | null => {
+  const graded = results
+    .filter(result => result.hit !== null)
+    .sort((a, b) => b.gameDate.getTime() - a.gameDate.getTime());
+
+  const games = new Map<string, boolean>();
+  for (const result of graded) {
+    const gameKey = result.gameId ?? result.gameDate.toISOString();
+    if (!games.has(gameKey)) games.set(gameKey, result.hit!);
+    if (games.size === lastNGames) break;
+  }
+
+  if (games.size === 0) return null;
+  const hits = [...games.values()].filter(Boolean).length;
+  return { hitRate: hits / games.size, games: games.size };
+};
@@ -0,0 +1,170 @@
+/* ++++++++++ SCORE DISTRIBUTION UTILITIES ++++++++++ */
+// Spreads and totals are overs and unders on one number: the home margin (home score
+// minus away score) for spreads, the combined score for totals. These helpers model how
+// final results fall around the market's line so prices at different points compare.
+import { normalCdf } from './correlation';
+
+/* ++++++++++ TYPES ++++++++++ */
+export type ScoreKind = 'margin' | 'total';
+export type ScoreSide = 'over' | 'under';
+export type ScoreLegResult = 'win' | 'push' | 'loss';
+
+export interface ScoreDeviations {
+  margin: number; // Standard deviation of the final home margin around the spread
+  total: number; // Standard deviation of the final combined score around the total
+}
+
+export interface ScoreThreshold {
+  side: ScoreSide;
+  threshold: number; // The leg wins when the score is above (over) or below (under) this
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+// Spread of final results around the closing line, from historical results per sport
+export const SPORT_SCORE_DEVIATIONS: Record<string, ScoreDeviations> = {
+  'americanfootball_nfl': { margin: 13.5, total: 10 },
+  'americanfootball_ncaaf': { margin: 16, total: 14 },
+  'basketball_nba': { margin: 12, total: 18 },
+  'basketball_wnba': { margin: 11, total: 15 },
+  'basketball_ncaab': { margin: 11, total: 15 },
+  'baseball_mlb': { margin: 4.3, total: 4.4 },
+  'icehockey_nhl': { margin: 2.4, total: 2.3 }
+};
+
+export const DEFAULT_SCORE_DEVIATIONS: ScoreDeviations = { margin: 12, total: 15 };
+
+// Approximate share of NFL games decided by each final margin. Field goals and
+// touchdowns make 3, 7, 10 and 14 far more common than a smooth curve predicts.
+const NFL_MARGIN_FREQUENCIES: Record<number, number> = {
+  0: 0.002, 1: 0.039, 2: 0.043, 3: 0.151, 4: 0.05, 5: 0.038, 6: 0.062, 7: 0.092,
+  8: 0.04, 9: 0.023, 10: 0.057, 11: 0.025, 12: 0.019, 13: 0.021, 14: 0.049,
+  15: 0.018, 16: 0.02, 17: 0.028, 18: 0.017, 19: 0.011, 20: 0.016, 21: 0.019
+};
+
+// Score distributions are truncated this many standard deviations from the mean
+const DISTRIBUTION_RANGE_SDS = 6;
+const SOLVER_ITERATIONS = 50;
+
+/* ++++++++++ MARKETS ++++++++++ */
+export const getScoreKind = (marketKey: string): ScoreKind | null => {
+  if (marketKey === 'spreads' || marketKey === 'alternate_spreads') return 'margin';
+  if (marketKey === 'totals' || marketKey === 'alternate_totals') return 'total';
+  return null;
+};
+
+/**
+ * Side and threshold an outcome settles on. Home spread +x covers when the margin
+ * is above -x; away spread +y covers when it is below y.
+ */
+export const getOutcomeThreshold = (
+  kind: ScoreKind,
+  outcome: { name: string; point?: number },
+  homeTeam: string,
+  awayTeam: string
+): ScoreThreshold | null => {
+  if (outcome.point === undefined) return null;
+  if (kind === 'total') {
+    if (outcome.name === 'Over') return { side: 'over', threshold: outcome.point };
+    if (outcome.name === 'Under') return { side: 'under', threshold: outcome.point };
+    return null;
+  }
+  if (outcome.name === homeTeam) return { side: 'over', threshold: -outcome.point };
+  if (outcome.name === awayTeam) return { side: 'under', threshold: outcome.point };
+  return null;
+};
+
+/* ++++++++++ DISTRIBUTIONS ++++++++++ */
+const discreteNormal = (value: number, mean: number, sd: number): number => {
+  return normalCdf((value + 0.5 - mean) / sd) - normalCdf((value - 0.5 - mean) / sd);
+};
+
+// How much more (or less) often an NFL margin occurs than a smooth curve around a pick'em predicts
+const getNflKeyNumberWeight = (margin: number): number => {
+  const absolute = Math.abs(margin);
+  const historical = NFL_MARGIN_FREQUENCIES[absolute];
+  if (historical === undefined) return 1;
+  const sd = SPORT_SCORE_DEVIATIONS['americanfootball_nfl'].margin;
+  const smooth = discreteNormal(absolute, 0, sd) * (absolute === 0 ? 1 : 2);
+  return historical / smooth;
+};
+
+/**
+ * Probability of each whole-number final margin or total, centred on the market's
+ * line. NFL margins are reweighted toward the key numbers.
+ */
+export const getScoreDistribution = (
+  sportKey: string | undefined,
+  kind: ScoreKind,
+  mean: number
+): Map<number, number> => {
+  const deviations = (sportKey && SPORT_SCORE_DEVIATIONS[sportKey]) || DEFAULT_SCORE_DEVIATIONS;
+  const sd = deviations[kind];
+  const useKeyNumbers = kind === 'margin' && sportKey === 'americanfootball_nfl';
+
+  const distribution = new Map<number, number>();
+  let total = 0;
+  const low = Math.floor(mean - DISTRIBUTION_RANGE_SDS * sd);
+  const high = Math.ceil(mean + DISTRIBUTION_RANGE_SDS * sd);
+  for (let value = low; value <= high; value++) {
+    if (kind === 'total' && value < 0) continue;
+    const probability = discreteNormal(value, mean, sd) * (useKeyNumbers ? getNflKeyNumberWeight(value) : 1);
+    distribution.set(value, probability);
+    total += probability;
+  }
+
+  for (const [value, probability] of distribution) distribution.set(value, probability / total);
+  return distribution;
+};
+
+/* ++++++++++ SETTLEMENT ++++++++++ */
+export const settleScoreLeg = (side: ScoreSide, threshold: number, value: number): ScoreLegResult => {
+  if (value === threshold) return 'push';
+  return (side === 'over' ? value > threshold : value < threshold) ? 'win' : 'loss';
+};
+
+/**
+ * Chance a leg wins given it does not push, the same basis a devigged price is on.
+ */
+export const calculateCoverProbability = (
+  sportKey: string | undefined,
+  kind: ScoreKind,
+  mean: number,
+  { side, threshold }: ScoreThreshold
+): number => {
+  let win = 0;
+  let push = 0;
+  for (const [value, probability] of getScoreDistribution(sportKey, kind, mean)) {
+    const result = settleScoreLeg(side, threshold, value);
+    if (result === 'win') win += probability;
+    if (result === 'push') push += probability;
+  }
+  return push < 1 ? win / (1 - push) : 0;
+};
+
+/**
+ * Expected margin or total implied by a fair cover probability at one point, so that
+ * the same market can be priced at any other point.
+ */
+export const solveExpectedScore = (
+  sportKey: string | undefined,
+  kind: ScoreKind,
+  leg: ScoreThreshold,
+  coverProbability: number
+): number => {
+  const sd = ((sportKey && SPORT_SCORE_DEVIATIONS[sportKey]) || DEFAULT_SCORE_DEVIATIONS)[kind];
+  // The over side's cover probability rises with the mean
+  const overProbability = leg.side === 'over' ? coverProbability : 1 - coverProbability;
+  const overLeg: ScoreThreshold = { side: 'over', threshold: leg.threshold };
+
+  let lo = leg.threshold - DISTRIBUTION_RANGE_SDS * sd;
+  let hi = leg.threshold + DISTRIBUTION_RANGE_SDS * sd;
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (calculateCoverProbability(sportKey, kind, mid, overLeg) < overProbability) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+};
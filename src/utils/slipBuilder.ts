@@ -0,0 +1,224 @@
+/* ++++++++++ DFS SLIP BUILDER ++++++++++ */
+import { DFSEntryType, PLATFORM_ENTRY_RULES, PlatformEntryRules } from '../services/api';
+import { FANTASY_PLATFORMS, PropEVData } from './evCalculations';
+import {
+  DFSEntryResult,
+  applyPayoutModifiers,
+  buildCorrelationMatrix,
+  calculateEntryEV,
+  calculatePushScenarios,
+  getPayoutTable,
+  getSupportedLegCounts,
+  summarizeEntryOutcomes
+} from './dfsEntry';
+
+/* ++++++++++ TYPES ++++++++++ */
+export type SlipObjective = 'ev' | 'probabilityOfProfit';
+
+export interface SlipBuilderOptions {
+  platform: string;
+  entryType: DFSEntryType;
+  objective: SlipObjective;
+  minLegs: number;
+  maxLegs: number;
+  maxLegsPerGame: number | null; // null = no limit beyond the platform's own rules
+  mustIncludePlayers: string[];
+  excludePlayers: string[];
+  candidatePoolSize: number; // Best props by edge kept for the search; bounds the combinations tried
+  maxResults: number;
+  getCorrelation?: (legA: PropEVData, legB: PropEVData) => number; // Re-prices the ranked slips with correlation
+}
+
+export interface RankedSlip {
+  rank: number;
+  legs: PropEVData[];
+  result: DFSEntryResult; // Independent legs; this is what the search ranks on
+  correlatedResult?: DFSEntryResult;
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const DEFAULT_SLIP_BUILDER_OPTIONS: Omit<SlipBuilderOptions, 'platform'> = {
+  entryType: 'power',
+  objective: 'ev',
+  minLegs: 2,
+  maxLegs: 6,
+  maxLegsPerGame: null,
+  mustIncludePlayers: [],
+  excludePlayers: [],
+  candidatePoolSize: 20,
+  maxResults: 10
+};
+
+const DEFAULT_ENTRY_RULES: PlatformEntryRules = { minDistinctTeams: 1, allowDuplicatePlayers: false };
+
+/* ++++++++++ RULES ++++++++++ */
+const samePlayer = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+// A slip the rule cannot be checked on fails it. Legs from different games are on different
+// teams, so distinct games prove the rule when the feed leaves team out
+const meetsTeamRule = (legs: PropEVData[], rules: PlatformEntryRules): boolean => {
+  if (rules.minDistinctTeams <= 1) return true;
+  if (legs.every(leg => leg.team)) {
+    return new Set(legs.map(leg => leg.team)).size >= rules.minDistinctTeams;
+  }
+  if (legs.every(leg => leg.gameId)) {
+    return new Set(legs.map(leg => leg.gameId)).size >= rules.minDistinctTeams;
+  }
+  return false;
+};
+
+/**
+ * Why no slip from this pool can meet the platform's team rule, or null when one can.
+ * Checked on teams when every prop has one, else on distinct games.
+ */
+export const getTeamRuleShortfall = (pool: PropEVData[], platform: string): string | null => {
+  const rules = PLATFORM_ENTRY_RULES[platform] ?? DEFAULT_ENTRY_RULES;
+  if (rules.minDistinctTeams <= 1) return null;
+
+  const platformName = FANTASY_PLATFORMS.find(option => option.key === platform)?.name ?? platform;
+  const platformPool = pool.filter(prop => prop.platform === platform);
+  if (platformPool.length > 0 && platformPool.every(prop => prop.team)) {
+    const teams = new Set(platformPool.map(prop => prop.team)).size;
+    if (teams >= rules.minDistinctTeams) return null;
+    return `${platformName} entries need players from ${rules.minDistinctTeams} teams, but these props cover ${teams}`;
+  }
+
+  const games = new Set(platformPool.map(prop => prop.gameId).filter(Boolean)).size;
+  if (games >= rules.minDistinctTeams) return null;
+  return `${platformName} entries need players from ${rules.minDistinctTeams} teams. The odds feed does not say which ` +
+    `team each player is on, so the legs must come from ${rules.minDistinctTeams} different games`;
+};
+
+/**
+ * Whether a slip satisfies the platform's rules and the user's constraints.
+ */
+export const isValidSlip = (
+  legs: PropEVData[],
+  platform: string,
+  options: Pick<SlipBuilderOptions, 'maxLegsPerGame' | 'mustIncludePlayers'> = { maxLegsPerGame: null, mustIncludePlayers: [] }
+): boolean => {
+  const rules = PLATFORM_ENTRY_RULES[platform] ?? DEFAULT_ENTRY_RULES;
+
+  if (!rules.allowDuplicatePlayers) {
+    const players = legs.map(leg => leg.playerName.toLowerCase());
+    if (new Set(players).size !== players.length) return false;
+  }
+
+  if (options.maxLegsPerGame !== null) {
+    const perGame = new Map<string, number>();
+    for (const leg of legs) {
+      if (!leg.gameId) continue;
+      perGame.set(leg.gameId, (perGame.get(leg.gameId) ?? 0) + 1);
+    }
+    if ([...perGame.values()].some(count => count > options.maxLegsPerGame!)) return false;
+  }
+
+  if (!options.mustIncludePlayers.every(player => legs.some(leg => samePlayer(leg.playerName, player)))) {
+    return false;
+  }
+
+  return meetsTeamRule(legs, rules);
+};
+
+/* ++++++++++ SEARCH ++++++++++ */
+/**
+ * Search the prop pool for the best entries on one platform; props quoted on other platforms are ignored.
+ * Legs are scored as independent with the exact hit and push distribution; every combination of
+ * the candidate pool within the leg range is tried, so keep candidatePoolSize modest.
+ */
+export const buildOptimalSlips = (
+  pool: PropEVData[],
+  options: Partial<SlipBuilderOptions> & Pick<SlipBuilderOptions, 'platform'>
+): RankedSlip[] => {
+  const settings: SlipBuilderOptions = { ...DEFAULT_SLIP_BUILDER_OPTIONS, ...options };
+  const rules = PLATFORM_ENTRY_RULES[settings.platform] ?? DEFAULT_ENTRY_RULES;
+
+  const legCounts = getSupportedLegCounts(settings.platform, settings.entryType)
+    .filter(count => count >= settings.minLegs && count <= settings.maxLegs);
+  if (legCounts.length === 0) {
+    throw new Error(`${settings.platform} offers no ${settings.entryType} entries between ${settings.minLegs} and ${settings.maxLegs} legs`);
+  }
+
+  const eligible = pool.filter(prop =>
+    prop.platform === settings.platform && !settings.excludePlayers.some(player => samePlayer(prop.playerName, player))
+  );
+  if (eligible.length === 0) {
+    throw new Error(`No ${settings.platform} props to build from`);
+  }
+  const isRequired = (prop: PropEVData) => settings.mustIncludePlayers.some(player => samePlayer(prop.playerName, player));
+
+  // Must-include players always stay in the pool; the rest are the best by edge
+  const byEdge = (a: PropEVData, b: PropEVData) => (b.edge ?? 0) - (a.edge ?? 0);
+  const required = eligible.filter(isRequired).sort(byEdge);
+  const optional = eligible.filter(prop => !isRequired(prop)).sort(byEdge);
+  const candidates = [...required, ...optional.slice(0, Math.max(0, settings.candidatePoolSize - required.length))];
+
+  const payoutTables = new Map(legCounts.map(count => [count, getPayoutTable(settings.platform, count, settings.entryType)!]));
+  const maxLegCount = Math.max(...legCounts);
+  const scored: { legs: PropEVData[]; score: number }[] = [];
+
+  const score = (legs: PropEVData[]): number => {
+    const scenarios = calculatePushScenarios(
+      legs.map(leg => leg.hitRate),
+      legs.map(leg => leg.pushProbability ?? 0)
+    );
+    const { expectedPayout, probabilityOfProfit } = summarizeEntryOutcomes(scenarios, legs.length, pushedLegs =>
+      applyPayoutModifiers(
+        pushedLegs.length === 0
+          ? payoutTables.get(legs.length)!
+          : getPayoutTable(settings.platform, legs.length, settings.entryType, 0, pushedLegs.length)!,
+        legs.filter((_, index) => !pushedLegs.includes(index))
+      )
+    );
+    return settings.objective === 'probabilityOfProfit' ? probabilityOfProfit : expectedPayout - 1;
+  };
+
+  const gameCounts = new Map<string, number>();
+  const players = new Set<string>();
+  const current: PropEVData[] = [];
+
+  const search = (start: number) => {
+    if (payoutTables.has(current.length) && isValidSlip(current, settings.platform, settings)) {
+      scored.push({ legs: [...current], score: score(current) });
+    }
+    if (current.length === maxLegCount) return;
+
+    for (let i = start; i < candidates.length; i++) {
+      const leg = candidates[i];
+      const player = leg.playerName.toLowerCase();
+      const gameCount = leg.gameId ? gameCounts.get(leg.gameId) ?? 0 : 0;
+
+      // Prune branches that already break a rule adding more legs cannot fix
+      if (!rules.allowDuplicatePlayers && players.has(player)) continue;
+      if (settings.maxLegsPerGame !== null && leg.gameId && gameCount >= settings.maxLegsPerGame) continue;
+
+      current.push(leg);
+      players.add(player);
+      if (leg.gameId) gameCounts.set(leg.gameId, gameCount + 1);
+
+      search(i + 1);
+
+      current.pop();
+      if (!current.some(other => other.playerName.toLowerCase() === player)) players.delete(player);
+      if (leg.gameId) gameCounts.set(leg.gameId, gameCount);
+    }
+  };
+
+  search(0);
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, settings.maxResults)
+    .map(({ legs }, index) => {
+      const entryOptions = { platform: settings.platform, entryType: settings.entryType };
+      const getCorrelation = settings.getCorrelation;
+      return {
+        rank: index + 1,
+        legs,
+        result: calculateEntryEV(legs, entryOptions),
+        correlatedResult: getCorrelation
+          ? calculateEntryEV(legs, { ...entryOptions, correlationMatrix: buildCorrelationMatrix(legs, getCorrelation) })
+          : undefined
+      };
+    });
+};
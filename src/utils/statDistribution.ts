@@ -0,0 +1,227 @@
+/* ++++++++++ STAT DISTRIBUTION UTILITIES ++++++++++ */
+// Fits a player's historical stat results so any line can be priced,
+// instead of only counting past props that sat near the same line.
+import { normalCdf } from './correlation';
+
+/* ++++++++++ TYPES ++++++++++ */
+export type DistributionModel = 'poisson' | 'negative_binomial' | 'normal' | 'kde';
+
+export interface FittedDistribution {
+  model: DistributionModel;
+  sampleSize: number;
+  mean: number;
+  variance: number;
+  discrete: boolean; // Results are whole numbers, so integer lines can push
+  r?: number; // Negative binomial number of successes
+  p?: number; // Negative binomial success probability
+  bandwidth?: number; // KDE bandwidth
+  samples?: number[]; // KDE support points
+}
+
+export interface LineProbabilities {
+  over: number;
+  under: number;
+  push: number;
+}
+
+export type PropOutcome = 'hit' | 'miss' | 'push';
+
+export interface PlayerStatSamples {
+  playerName: string;
+  propType: string;
+  samples: number[]; // One actual result per game
+}
+
+/* ++++++++++ CONSTANTS ++++++++++ */
+export const MIN_DISTRIBUTION_SAMPLES = 5;
+
+// Low-count stats are modelled as counts; yardage and points as roughly normal;
+// "longest" style stats are skewed and bounded, so they use the empirical KDE
+const COUNT_STAT_PATTERNS = [
+  'threes', 'blocks', 'steals', 'turnovers', 'assists', 'rebounds', 'tds', '_td',
+  'receptions', 'interceptions', 'sacks', 'tackles', 'hits', 'runs', 'rbis', 'home_runs',
+  'strikeouts', 'walks', 'goals', 'shots', 'saves', 'field_goals', 'frees', 'completions', 'attempts'
+];
+const NORMAL_STAT_PATTERNS = ['points', 'yds', 'yards', 'fantasy'];
+const KDE_STAT_PATTERNS = ['longest'];
+
+// Variance above mean * this ratio switches a count stat from Poisson to negative binomial
+const OVERDISPERSION_RATIO = 1.1;
+
+/* ++++++++++ HELPERS ++++++++++ */
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sampleVariance = (values: number[], average: number): number => {
+  if (values.length < 2) return 0;
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+export const logGamma = (x: number): number => {
+  // Lanczos approximation
+  const g = 7;
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const shifted = x - 1;
+  let total = coefficients[0];
+  for (let i = 1; i < g + 2; i++) total += coefficients[i] / (shifted + i);
+  const t = shifted + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(total);
+};
+
+/* ++++++++++ MODEL SELECTION ++++++++++ */
+/**
+ * Model used for a prop type. Count stats pick Poisson or negative binomial
+ * depending on whether the player's results are overdispersed.
+ */
+export const getModelForPropType = (propType: string, samples: number[] = []): DistributionModel => {
+  const stat = propType.replace(/_(alternate|demon|goblin)$/, '');
+  if (KDE_STAT_PATTERNS.some(pattern => stat.includes(pattern))) return 'kde';
+  if (NORMAL_STAT_PATTERNS.some(pattern => stat.includes(pattern))) return 'normal';
+  if (COUNT_STAT_PATTERNS.some(pattern => stat.includes(pattern))) {
+    if (samples.length >= 2) {
+      const average = mean(samples);
+      if (sampleVariance(samples, average) > average * OVERDISPERSION_RATIO) return 'negative_binomial';
+    }
+    return 'poisson';
+  }
+  return 'normal';
+};
+
+/* ++++++++++ FITTING ++++++++++ */
+/**
+ * Fit a distribution to historical results. Returns null below MIN_DISTRIBUTION_SAMPLES.
+ * Count models need non-negative whole numbers and fall back to normal otherwise.
+ */
+export const fitStatDistribution = (
+  samples: number[],
+  model: DistributionModel = 'normal'
+): FittedDistribution | null => {
+  const values = samples.filter(value => isFinite(value));
+  if (values.length < MIN_DISTRIBUTION_SAMPLES) return null;
+
+  const average = mean(values);
+  const variance = sampleVariance(values, average);
+  const discrete = values.every(value => Number.isInteger(value));
+  const base = { sampleSize: values.length, mean: average, variance, discrete };
+
+  const isCountData = discrete && values.every(value => value >= 0);
+  let resolved = model;
+  if ((resolved === 'poisson' || resolved === 'negative_binomial') && !isCountData) resolved = 'normal';
+  if (resolved === 'negative_binomial' && variance <= average) resolved = 'poisson';
+
+  switch (resolved) {
+    case 'poisson':
+      return { ...base, model: 'poisson' };
+    case 'negative_binomial': {
+      // Method of moments
+      const r = (average * average) / (variance - average);
+      return { ...base, model: 'negative_binomial', r, p: r / (r + average) };
+    }
+    case 'kde': {
+      // Silverman's rule of thumb, floored so identical results still spread a little
+      const sd = Math.sqrt(variance);
+      const bandwidth = Math.max(1.06 * sd * Math.pow(values.length, -0.2), discrete ? 0.5 : 0.1);
+      return { ...base, model: 'kde', bandwidth, samples: [...values] };
+    }
+    default:
+      return { ...base, model: 'normal' };
+  }
+};
+
+/* ++++++++++ PROBABILITIES ++++++++++ */
+export const discreteProbability = (distribution: FittedDistribution, k: number): number => {
+  if (k < 0 || !Number.isInteger(k)) return 0;
+  switch (distribution.model) {
+    case 'poisson': {
+      const lambda = distribution.mean;
+      if (lambda === 0) return k === 0 ? 1 : 0;
+      return Math.exp(k * Math.log(lambda) - lambda - logGamma(k + 1));
+    }
+    case 'negative_binomial': {
+      const { r = 1, p = 1 } = distribution;
+      return Math.exp(
+        logGamma(k + r) - logGamma(k + 1) - logGamma(r) + r * Math.log(p) + k * Math.log(1 - p)
+      );
+    }
+    default:
+      return continuousProbabilityBelow(distribution, k + 0.5) - continuousProbabilityBelow(distribution, k - 0.5);
+  }
+};
+
+// P(X < x) for the normal and KDE models
+const continuousProbabilityBelow = (distribution: FittedDistribution, x: number): number => {
+  if (distribution.model === 'kde' && distribution.samples && distribution.bandwidth) {
+    const { samples, bandwidth } = distribution;
+    return samples.reduce((sum, sample) => sum + normalCdf((x - sample) / bandwidth), 0) / samples.length;
+  }
+  const sd = Math.sqrt(distribution.variance);
+  if (sd === 0) return x > distribution.mean ? 1 : 0;
+  return normalCdf((x - distribution.mean) / sd);
+};
+
+// P(X <= k) for whole-number k
+const cumulativeProbability = (distribution: FittedDistribution, k: number): number => {
+  if (k < 0) return 0;
+  if (distribution.model === 'poisson' || distribution.model === 'negative_binomial') {
+    let total = 0;
+    for (let i = 0; i <= k; i++) total += discreteProbability(distribution, i);
+    return Math.min(total, 1);
+  }
+  return continuousProbabilityBelow(distribution, k + 0.5);
+};
+
+/**
+ * P(over), P(under) and P(push) for a line. Whole-number results can land exactly
+ * on an integer line (a push); half-point lines and continuous stats never push.
+ */
+export const calculateLineProbabilities = (distribution: FittedDistribution, line: number): LineProbabilities => {
+  if (!distribution.discrete) {
+    const under = continuousProbabilityBelow(distribution, line);
+    return { over: 1 - under, under, push: 0 };
+  }
+
+  if (Number.isInteger(line)) {
+    const under = cumulativeProbability(distribution, line - 1);
+    const push = discreteProbability(distribution, line);
+    return { over: Math.max(0, 1 - under - push), under, push };
+  }
+
+  const under = cumulativeProbability(distribution, Math.floor(line));
+  return { over: Math.max(0, 1 - under), under, push: 0 };
+};
+
+/* ++++++++++ GRADING ++++++++++ */
+// Over-side grade of a settled prop; a result exactly on the line is a push
+export const gradePropOutcome = (actualResult: number, line: number): PropOutcome => {
+  if (actualResult > line) return 'hit';
+  if (actualResult < line) return 'miss';
+  return 'push';
+};
+
+// Outcome to store for a prop: graded from its actual result when known, else from a hit flag
+export const resolvePropOutcome = (line: number, actualResult?: number, hit?: boolean): PropOutcome | null => {
+  if (actualResult !== undefined) return gradePropOutcome(actualResult, line);
+  if (hit !== undefined) return hit ? 'hit' : 'miss';
+  return null;
+};
+
+// HistoricalProp.hit for an outcome: a push is neither a hit nor a miss
+export const outcomeToHit = (outcome: PropOutcome): boolean | null => {
+  return outcome === 'push' ? null : outcome === 'hit';
+};
+
+// Fit with the prop type's model and price the line in one step
+export const calculatePropLineProbabilities = (
+  samples: number[],
+  propType: string,
+  line: number
+): (LineProbabilities & { distribution: FittedDistribution }) | null => {
+  const distribution = fitStatDistribution(samples, getModelForPropType(propType, samples));
+  if (!distribution) return null;
+  return { ...calculateLineProbabilities(distribution, line), distribution };
+};